@@ -6,6 +6,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import Journal from "@/pages/Journal";
 import { LoginPage } from "@/pages/LoginPage";
+import SharedJournal from "@/pages/SharedJournal";
 import NotFound from "@/pages/not-found";
 import { useEffect } from "react";
 import { autoMigrateIfNeeded } from "@/lib/migrateLocalStorage";
@@ -35,6 +36,8 @@ function Router() {
   return (
     <Switch>
       <Route path="/login" component={LoginPage} />
+      {/* Read-only share links work without signing in */}
+      <Route path="/share/:token" component={SharedJournal} />
       <Route path="/">
         <ProtectedRoute component={Journal} />
       </Route>
@@ -1,8 +1,9 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Download, Upload, CalendarPlus, Share2, Users, Monitor, LogOut } from 'lucide-react';
 import ZoomControls from './ZoomControls';
 import type { JournalMode } from '@/hooks/useJournalData';
+import type { ExportKind, Team } from '@/lib/journalAPI';
 import { startOfYear, startOfWeek } from 'date-fns';
 
 interface CollapsibleSidebarProps {
@@ -20,8 +21,25 @@ interface CollapsibleSidebarProps {
   realityEntries?: Record<string, string>;
   weeklyLayout?: boolean;
   onWeeklyLayoutChange?: (enabled: boolean) => void;
+  onExport?: (kind: ExportKind) => void;
+  onImport?: () => void;
+  onCopyCalendarFeed?: (includeReality: boolean) => void;
+  onShare?: () => void;
+  teams?: Team[];
+  activeTeamId?: number | null; // null shows the user's own journal
+  onSelectTeam?: (teamId: number | null) => void;
+  onManageTeams?: () => void;
+  onManageSessions?: () => void;
+  onSignOut?: () => void;
 }
 
+const exportOptions: { kind: ExportKind; label: string }[] = [
+  { kind: 'plan', label: 'Plan CSV' },
+  { kind: 'reality', label: 'Reality CSV' },
+  { kind: 'comparison', label: 'Comparison CSV' },
+  { kind: 'markdown', label: 'Markdown vault (.zip)' },
+];
+
 export default function CollapsibleSidebar({
   visibleBlocks,
   onVisibleBlocksChange,
@@ -33,8 +51,20 @@ export default function CollapsibleSidebar({
   isCollapsed,
   onToggleSidebar,
   weeklyLayout = false,
-  onWeeklyLayoutChange
+  onWeeklyLayoutChange,
+  onExport,
+  onImport,
+  onCopyCalendarFeed,
+  onShare,
+  teams = [],
+  activeTeamId = null,
+  onSelectTeam,
+  onManageTeams,
+  onManageSessions,
+  onSignOut
 }: CollapsibleSidebarProps) {
+  // Year-wide quick views open on the selected year rather than today's
+  const yearStart = startOfYear(new Date(currentYear, 0, 1));
 
   return (
     <>
@@ -136,7 +166,7 @@ export default function CollapsibleSidebar({
                 size="sm"
                 onClick={() => {
                   onVisibleBlocksChange(100);
-                  onStartDateChange(startOfYear(new Date()));
+                  onStartDateChange(yearStart);
                   onWeeklyLayoutChange?.(false);
                 }}
                 className="w-full justify-start hover-elevate"
@@ -149,7 +179,7 @@ export default function CollapsibleSidebar({
                 size="sm"
                 onClick={() => {
                   onVisibleBlocksChange(361);
-                  onStartDateChange(startOfYear(new Date()));
+                  onStartDateChange(yearStart);
                   onWeeklyLayoutChange?.(false);
                 }}
                 className="w-full justify-start hover-elevate"
@@ -161,17 +191,165 @@ export default function CollapsibleSidebar({
                 variant="ghost"
                 size="sm"
                 onClick={() => {
-                  onVisibleBlocksChange(365);
-                  onStartDateChange(startOfYear(new Date()));
+                  onVisibleBlocksChange(totalBlocks);
+                  onStartDateChange(yearStart);
                   onWeeklyLayoutChange?.(false);
                 }}
                 className="w-full justify-start hover-elevate"
                 data-testid="button-full-year"
               >
-                Full Year (365 days)
+                Full Year ({totalBlocks} days)
               </Button>
             </div>
           </div>
+
+          {/* Import / Export */}
+          {(onExport || onImport || onCopyCalendarFeed || onShare) && (
+            <div className="bg-white/5 backdrop-blur-lg border border-white/20 rounded-2xl p-4 space-y-2">
+              <h3 className="text-sm font-medium text-foreground/80 mb-3">Import / Export {currentYear}</h3>
+              <div className="space-y-2">
+                {onImport && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onImport}
+                    className="w-full justify-start hover-elevate"
+                    data-testid="button-import"
+                  >
+                    <Upload className="w-4 h-4 mr-2" />
+                    Import CSV / JSON
+                  </Button>
+                )}
+                {onExport && exportOptions.map(({ kind, label }) => (
+                  <Button
+                    key={kind}
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onExport(kind)}
+                    className="w-full justify-start hover-elevate"
+                    data-testid={`button-export-${kind}`}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    {label}
+                  </Button>
+                ))}
+                {onCopyCalendarFeed && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onCopyCalendarFeed(false)}
+                      className="w-full justify-start hover-elevate"
+                      data-testid="button-copy-calendar-feed"
+                      title="Copy a subscription URL for your calendar app"
+                    >
+                      <CalendarPlus className="w-4 h-4 mr-2" />
+                      Copy calendar feed URL
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onCopyCalendarFeed(true)}
+                      className="w-full justify-start hover-elevate"
+                      data-testid="button-copy-calendar-feed-reality"
+                      title="Copy a subscription URL that also shows reality entries"
+                    >
+                      <CalendarPlus className="w-4 h-4 mr-2" />
+                      Copy feed URL with reality
+                    </Button>
+                  </>
+                )}
+                {onShare && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onShare}
+                    className="w-full justify-start hover-elevate"
+                    data-testid="button-share"
+                    title="Create a read-only link for people without an account"
+                  >
+                    <Share2 className="w-4 h-4 mr-2" />
+                    Share read-only link
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Teams */}
+          {onSelectTeam && (
+            <div className="bg-white/5 backdrop-blur-lg border border-white/20 rounded-2xl p-4 space-y-2">
+              <h3 className="text-sm font-medium text-foreground/80 mb-3">Teams</h3>
+              <div className="space-y-2">
+                <Button
+                  variant={activeTeamId === null ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => onSelectTeam(null)}
+                  className="w-full justify-start hover-elevate"
+                  data-testid="button-own-journal"
+                >
+                  My journal
+                </Button>
+                {teams.map((team) => (
+                  <Button
+                    key={team.id}
+                    variant={activeTeamId === team.id ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => onSelectTeam(team.id)}
+                    className="w-full justify-start hover-elevate"
+                    data-testid={`button-select-team-${team.id}`}
+                  >
+                    {team.name}
+                  </Button>
+                ))}
+                {onManageTeams && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onManageTeams}
+                    className="w-full justify-start hover-elevate"
+                    data-testid="button-manage-teams"
+                  >
+                    <Users className="w-4 h-4 mr-2" />
+                    Manage teams
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Account */}
+          {(onManageSessions || onSignOut) && (
+            <div className="bg-white/5 backdrop-blur-lg border border-white/20 rounded-2xl p-4 space-y-2">
+              <h3 className="text-sm font-medium text-foreground/80 mb-3">Account</h3>
+              <div className="space-y-2">
+                {onManageSessions && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onManageSessions}
+                    className="w-full justify-start hover-elevate"
+                    data-testid="button-manage-sessions"
+                  >
+                    <Monitor className="w-4 h-4 mr-2" />
+                    Signed-in devices
+                  </Button>
+                )}
+                {onSignOut && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onSignOut}
+                    className="w-full justify-start hover-elevate"
+                    data-testid="button-sign-out"
+                  >
+                    <LogOut className="w-4 h-4 mr-2" />
+                    Sign out
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
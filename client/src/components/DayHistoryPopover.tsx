@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { dateToDay, type JournalMode } from '@/hooks/useJournalData';
+import { journalAPI, type CellRevision } from '@/lib/journalAPI';
+import { diffWords, type WordDiffType } from '@/lib/wordDiff';
+
+interface DayHistoryPopoverProps {
+  date: Date;
+  mode: JournalMode;
+  onRestore: (content: string | null) => Promise<void>;
+  className?: string;
+}
+
+const diffPartClasses: Record<WordDiffType, string> = {
+  added: 'bg-emerald-400/30 text-emerald-900 dark:text-emerald-100 rounded-sm',
+  removed: 'bg-rose-400/25 text-rose-900 dark:text-rose-200 line-through rounded-sm',
+  unchanged: ''
+};
+
+// Every saved version of one day's plan or reality, newest first, each diffed against the one before it
+export default function DayHistoryPopover({ date, mode, onRestore, className = '' }: DayHistoryPopoverProps) {
+  const [revisions, setRevisions] = useState<CellRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const dayKey = dateToDay(date, date.getFullYear());
+
+  const loadRevisions = async () => {
+    try {
+      setRevisions(await journalAPI.getCellRevisions(mode, date.getFullYear(), dayKey));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load history');
+    }
+  };
+
+  const handleRestore = async (revision: CellRevision) => {
+    setRestoring(revision.revision);
+    try {
+      await onRestore(revision.content);
+      await loadRevisions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const latest = revisions?.[revisions.length - 1];
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (open) {
+          setRevisions(null);
+          loadRevisions();
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`text-foreground/50 hover:text-foreground transition-opacity ${className}`}
+          title={`${mode === 'plan' ? 'Plan' : 'Reality'} history`}
+          data-testid={`button-history-${mode}-${format(date, 'yyyy-MM-dd')}`}
+        >
+          <History className="w-3.5 h-3.5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 max-h-96 overflow-y-auto space-y-3" data-testid={`history-${mode}-${format(date, 'yyyy-MM-dd')}`}>
+        <div className="text-sm font-medium">
+          {format(date, 'EEE, MMM d yyyy')} · {mode === 'plan' ? 'Plan' : 'Reality'} history
+        </div>
+
+        {error && <div className="text-xs text-destructive">{error}</div>}
+        {!revisions && !error && <div className="text-xs text-muted-foreground">Loading…</div>}
+        {revisions?.length === 0 && <div className="text-xs text-muted-foreground">Nothing saved for this day yet</div>}
+
+        {revisions?.map((revision, index) => ({ revision, before: revisions[index - 1]?.content ?? '' })).reverse().map(({ revision, before }) => (
+          <div key={revision.revision} className="rounded-lg bg-muted/40 p-2 space-y-1 text-xs" data-testid={`revision-${revision.revision}`}>
+            <div className="flex items-center justify-between gap-2 text-muted-foreground">
+              <time dateTime={revision.timestamp}>{format(new Date(revision.timestamp), 'MMM d, yyyy HH:mm')}</time>
+              {revision === latest ? (
+                <span>Current</span>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-2 text-xs"
+                  disabled={restoring !== null}
+                  onClick={() => handleRestore(revision)}
+                  data-testid={`button-restore-${revision.revision}`}
+                >
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  {restoring === revision.revision ? 'Restoring…' : 'Restore'}
+                </Button>
+              )}
+            </div>
+            <div className="whitespace-pre-wrap break-words">
+              {revision.content === null && !before ? (
+                <em>Cleared</em>
+              ) : (
+                diffWords(before, revision.content ?? '').map((part, partIndex) => (
+                  <span key={partIndex} className={diffPartClasses[part.type]}>{part.value}</span>
+                ))
+              )}
+            </div>
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
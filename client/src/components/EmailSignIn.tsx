@@ -0,0 +1,146 @@
+import { useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '../contexts/AuthContext';
+
+type EmailSignInMode = 'login' | 'register' | 'magic-link';
+
+interface EmailSignInProps {
+  onSuccess?: () => void;
+}
+
+const submitLabels: Record<EmailSignInMode, string> = {
+  login: 'Sign in',
+  register: 'Create account',
+  'magic-link': 'Email me a sign-in link',
+};
+
+// Email/password sign-in and registration, plus the passwordless magic-link request
+export function EmailSignIn({ onSuccess }: EmailSignInProps) {
+  const { refetchUser } = useAuth();
+  const [mode, setMode] = useState<EmailSignInMode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const switchMode = (next: EmailSignInMode) => {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+  };
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    setNotice(null);
+
+    const body = mode === 'register'
+      ? { email, password, displayName: displayName || undefined }
+      : mode === 'login' ? { email, password } : { email };
+
+    try {
+      const result = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      });
+      const data = await result.json();
+
+      if (!result.ok) {
+        setError(data.errors?.[0]?.message ?? data.message ?? 'Sign-in failed. Please try again.');
+        return;
+      }
+
+      if (mode === 'magic-link') {
+        setNotice(`Check ${email} for a sign-in link. It expires in 15 minutes.`);
+        return;
+      }
+
+      await refetchUser();
+
+      if (onSuccess) {
+        onSuccess();
+      } else {
+        window.location.href = '/';
+      }
+    } catch (err) {
+      console.error('❌ Sign-in error:', err);
+      setError('An error occurred during sign-in.');
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3" data-testid="form-email-sign-in">
+      <div className="flex justify-center gap-2 text-sm">
+        <Button type="button" size="sm" variant={mode === 'login' ? 'default' : 'ghost'} onClick={() => switchMode('login')}>
+          Sign in
+        </Button>
+        <Button type="button" size="sm" variant={mode === 'register' ? 'default' : 'ghost'} onClick={() => switchMode('register')}>
+          Register
+        </Button>
+        <Button type="button" size="sm" variant={mode === 'magic-link' ? 'default' : 'ghost'} onClick={() => switchMode('magic-link')}>
+          Email link
+        </Button>
+      </div>
+
+      {mode === 'register' && (
+        <div className="space-y-1">
+          <Label htmlFor="sign-in-name" className="text-xs text-gray-500">Name (optional)</Label>
+          <Input
+            id="sign-in-name"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            autoComplete="name"
+            data-testid="input-display-name"
+          />
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="sign-in-email" className="text-xs text-gray-500">Email</Label>
+        <Input
+          id="sign-in-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          autoComplete="email"
+          required
+          data-testid="input-email"
+        />
+      </div>
+
+      {mode !== 'magic-link' && (
+        <div className="space-y-1">
+          <Label htmlFor="sign-in-password" className="text-xs text-gray-500">Password</Label>
+          <Input
+            id="sign-in-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+            minLength={mode === 'register' ? 8 : undefined}
+            required
+            data-testid="input-password"
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-rose-600" data-testid="text-sign-in-error">{error}</p>}
+      {notice && <p className="text-sm text-emerald-700" data-testid="text-sign-in-notice">{notice}</p>}
+
+      <Button type="submit" className="w-full" disabled={isBusy} data-testid="button-email-sign-in">
+        {submitLabels[mode]}
+      </Button>
+    </form>
+  );
+}
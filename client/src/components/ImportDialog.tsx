@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { journalAPI, type ImportPreview, type ImportRequest, type ImportResult } from '@/lib/journalAPI';
+import { dayToDate, type JournalEntries, type JournalMode } from '@/hooks/useJournalData';
+import { parseIcsEvents, groupEventsByDay, mergeEventsIntoPlan } from '@/lib/icsImport';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  year: number;
+  planEntries?: JournalEntries; // Needed to merge .ics events into existing plan text
+  onImported?: () => void;
+}
+
+type CsvTypeChoice = 'auto' | JournalMode;
+
+const csvTypeChoices: { value: CsvTypeChoice; label: string }[] = [
+  { value: 'auto', label: 'From header' },
+  { value: 'plan', label: 'Plan' },
+  { value: 'reality', label: 'Reality' },
+];
+
+const describeKey = (key: string, year: number) =>
+  key.startsWith('day_') ? format(dayToDate(key, year), 'MMM d') : key;
+
+function PreviewSection({ title, preview, year, conflictLabel = 'overwritten' }: { title: string; preview: ImportPreview; year: number; conflictLabel?: string }) {
+  return (
+    <div className="space-y-2" data-testid={`import-preview-${title.toLowerCase()}`}>
+      <div className="flex items-center justify-between text-sm font-medium">
+        <span>{title}</span>
+        <span className="text-xs text-muted-foreground">
+          {preview.added.length} new · {preview.overwritten.length} {conflictLabel}
+        </span>
+      </div>
+      {preview.overwritten.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto space-y-1 text-xs">
+          {preview.overwritten.map((diff) => (
+            <li key={diff.day} className="rounded-md bg-amber-500/10 px-2 py-1">
+              <span className="font-medium">{describeKey(diff.day, year)}</span>
+              <span className="ml-2 line-through text-rose-700 dark:text-rose-300 whitespace-pre-wrap">{diff.before}</span>
+              <span className="ml-2 text-emerald-700 dark:text-emerald-300 whitespace-pre-wrap">{diff.after}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function ImportDialog({ open, onOpenChange, year, planEntries = {}, onImported }: ImportDialogProps) {
+  const [request, setRequest] = useState<Omit<ImportRequest, 'dry_run'> | null>(null);
+  // Calendar files are merged on the client and saved as a plan snapshot, so they skip the import route
+  const [calendarChanges, setCalendarChanges] = useState<JournalEntries | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [csvType, setCsvType] = useState<CsvTypeChoice>('auto');
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const reset = () => {
+    setRequest(null);
+    setCalendarChanges(null);
+    setFileName('');
+    setPreview(null);
+    setError(null);
+  };
+
+  const runPreview = async (next: Omit<ImportRequest, 'dry_run'>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setPreview(await journalAPI.importData(year, { ...next, dry_run: true }));
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Import preview failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const data = await file.text();
+    setFileName(file.name);
+
+    if (file.name.toLowerCase().endsWith('.ics')) {
+      const { changes, preview: calendarPreview } = mergeEventsIntoPlan(planEntries, groupEventsByDay(parseIcsEvents(data), year));
+      setRequest(null);
+      setCalendarChanges(changes);
+      setPreview({ year, dry_run: true, plan: calendarPreview, reality: null });
+      setError(calendarPreview.imported === 0 ? `No events in ${year}` : null);
+      return;
+    }
+
+    const next: Omit<ImportRequest, 'dry_run'> = file.name.toLowerCase().endsWith('.json')
+      ? { format: 'json', data }
+      : { format: 'csv', data, type: csvType === 'auto' ? undefined : csvType };
+    setCalendarChanges(null);
+    setRequest(next);
+    await runPreview(next);
+  };
+
+  const handleCsvTypeChange = async (choice: CsvTypeChoice) => {
+    setCsvType(choice);
+    if (request?.format === 'csv') {
+      const next = { ...request, type: choice === 'auto' ? undefined : choice };
+      setRequest(next);
+      await runPreview(next);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!request && !calendarChanges) return;
+    setIsBusy(true);
+    try {
+      if (calendarChanges) {
+        await journalAPI.saveSnapshot('plan', calendarChanges, year, { source: 'import', format: 'ics' });
+      } else if (request) {
+        await journalAPI.importData(year, { ...request, dry_run: false });
+      }
+      onImported?.();
+      reset();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent data-testid="import-dialog">
+        <DialogHeader>
+          <DialogTitle>Import {year}</DialogTitle>
+          <DialogDescription>
+            Upload a plan, reality or comparison CSV, a JSON export, or an .ics calendar whose events become plan entries.
+            Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            type="file"
+            accept=".csv,.json,.ics,text/csv,application/json,text/calendar"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="block w-full text-sm"
+            data-testid="input-import-file"
+          />
+
+          {request?.format === 'csv' && (
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">CSV holds</Label>
+              <div className="flex gap-2">
+                {csvTypeChoices.map(({ value, label }) => (
+                  <Button
+                    key={value}
+                    size="sm"
+                    variant={csvType === value ? 'default' : 'ghost'}
+                    onClick={() => handleCsvTypeChange(value)}
+                    disabled={isBusy}
+                    data-testid={`button-import-type-${value}`}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && <div className="text-sm text-rose-600 dark:text-rose-300">{error}</div>}
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="text-xs text-muted-foreground">Preview of {fileName}</div>
+              {preview.plan && (
+                <PreviewSection
+                  title="Plan"
+                  preview={preview.plan}
+                  year={year}
+                  conflictLabel={calendarChanges ? 'merged into existing text' : 'overwritten'}
+                />
+              )}
+              {preview.reality && <PreviewSection title="Reality" preview={preview.reality} year={year} />}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isBusy}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!preview || isBusy || (calendarChanges !== null && Object.keys(calendarChanges).length === 0)}
+            data-testid="button-confirm-import"
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
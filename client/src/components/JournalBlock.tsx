@@ -1,6 +1,9 @@
 import { useState, useRef, useEffect } from 'react';
 import { format } from 'date-fns';
 import type { JournalMode } from '@/hooks/useJournalData';
+import type { DayDiff, DayDiffStatus } from '@/lib/journalAPI';
+import { diffWords, type WordDiffPart, type WordDiffType } from '@/lib/wordDiff';
+import DayHistoryPopover from './DayHistoryPopover';
 
 interface JournalBlockProps {
   date: Date;
@@ -13,8 +16,37 @@ interface JournalBlockProps {
   totalBlocks?: number;
   currentMode?: JournalMode;
   readOnly?: boolean;
+  diff?: DayDiff;
+  isRemoteUpdate?: boolean; // Just changed in another tab or device
+  onRestoreVersion?: (content: string | null) => Promise<void>; // Shows the day's history; omit to hide it
 }
 
+const diffStatusClasses: Record<DayDiffStatus, string> = {
+  added: 'ring-2 ring-emerald-400/70',
+  removed: 'ring-2 ring-rose-400/70',
+  modified: 'ring-2 ring-amber-400/70',
+  unchanged: ''
+};
+
+const diffPartClasses: Record<WordDiffType, string> = {
+  added: 'bg-emerald-400/30 text-emerald-900 dark:text-emerald-100 rounded-sm',
+  removed: 'bg-rose-400/25 text-rose-900 dark:text-rose-200 line-through rounded-sm',
+  unchanged: ''
+};
+
+const getDiffParts = (diff: DayDiff): WordDiffPart[] => {
+  switch (diff.status) {
+    case 'added':
+      return [{ value: diff.after ?? '', type: 'added' }];
+    case 'removed':
+      return [{ value: diff.before ?? '', type: 'removed' }];
+    case 'modified':
+      return diffWords(diff.before ?? '', diff.after ?? '');
+    default:
+      return [{ value: diff.after ?? '', type: 'unchanged' }];
+  }
+};
+
 export default function JournalBlock({
   date,
   initialContent = '',
@@ -25,7 +57,10 @@ export default function JournalBlock({
   showDateOnHover = false,
   totalBlocks = 1,
   currentMode = 'plan',
-  readOnly = false
+  readOnly = false,
+  diff,
+  isRemoteUpdate = false,
+  onRestoreVersion
 }: JournalBlockProps) {
   const [content, setContent] = useState(initialContent);
   const [isFocused, setIsFocused] = useState(false);
@@ -108,6 +143,7 @@ export default function JournalBlock({
   };
 
   const sizeConfig = getSizeClasses();
+  const showDiff = !!diff && diff.status !== 'unchanged' && size !== 'micro';
 
   if (!isVisible) return null;
 
@@ -120,10 +156,14 @@ export default function JournalBlock({
         shadow-sm hover:shadow-md transition-all duration-200 ease-out
         ${size !== 'micro' || totalBlocks <= 100 ? 'hover:scale-[1.02]' : 'hover:scale-[1.05]'} hover:bg-white/15
         ${isFocused ? 'ring-2 ring-primary/50 scale-[1.02]' : ''}
+        ${diff ? diffStatusClasses[diff.status] : ''}
+        ${isRemoteUpdate && !diff ? 'ring-2 ring-sky-400/70' : ''}
         animate-fade-in group overflow-hidden relative
         ${size === 'xl' ? 'col-span-full' : ''}
       `}
       data-testid={`journal-block-${format(date, 'yyyy-MM-dd')}`}
+      data-remote-update={isRemoteUpdate || undefined}
+      title={isRemoteUpdate ? 'Updated in another session' : undefined}
     >
       <div className={`${sizeConfig.padding} h-full flex flex-col`}>
         {/* Date Header - conditional visibility */}
@@ -136,39 +176,59 @@ export default function JournalBlock({
             >
               {dateFormats[size] && format(date, dateFormats[size])}
             </time>
+            {onRestoreVersion && size !== 'micro' && (
+              <DayHistoryPopover
+                date={date}
+                mode={currentMode}
+                onRestore={onRestoreVersion}
+                className={`ml-auto ${size === 'xl' ? '' : 'opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100'}`}
+              />
+            )}
           </div>
         )}
         
-        <textarea
-          ref={textareaRef}
-          value={content}
-          onChange={(e) => handleContentChange(e.target.value)}
-          onFocus={() => setIsFocused(true)}
-          onBlur={() => setIsFocused(false)}
-          readOnly={!!readOnly}
-          disabled={!!readOnly}
-          placeholder={
-            size === 'xl'
-              ? currentMode === 'plan'
-                ? 'What do you want to accomplish today? Plan your day...'
-                : 'What actually happened today? Record your reality...'
-              : size === 'micro' && totalBlocks > 100
-                ? ''
-                : size === 'micro'
-                  ? '...'
-                  : currentMode === 'plan'
-                    ? 'Your plan...'
-                    : 'What happened?'
-          }
-          className={`
-            flex-1 w-full bg-transparent border-none outline-none resize-none
-            text-foreground placeholder:text-muted-foreground
-            font-light ${sizeConfig.contentText} overflow-hidden
-            ${size === 'micro' && totalBlocks > 100 ? 'placeholder:text-transparent' : ''}
-          `}
-          data-testid={`textarea-${format(date, 'yyyy-MM-dd')}`}
-          rows={size === 'xl' ? 20 : size === 'micro' && totalBlocks > 100 ? 2 : size === 'micro' ? 1 : undefined}
-        />
+        {showDiff && diff ? (
+          <div
+            className={`flex-1 w-full whitespace-pre-wrap break-words overflow-hidden font-light text-foreground ${sizeConfig.contentText}`}
+            data-testid={`diff-${format(date, 'yyyy-MM-dd')}`}
+            data-diff-status={diff.status}
+          >
+            {getDiffParts(diff).map((part, index) => (
+              <span key={index} className={diffPartClasses[part.type]}>{part.value}</span>
+            ))}
+          </div>
+        ) : (
+          <textarea
+            ref={textareaRef}
+            value={content}
+            onChange={(e) => handleContentChange(e.target.value)}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => setIsFocused(false)}
+            readOnly={!!readOnly}
+            disabled={!!readOnly}
+            placeholder={
+              size === 'xl'
+                ? currentMode === 'plan'
+                  ? 'What do you want to accomplish today? Plan your day...'
+                  : 'What actually happened today? Record your reality...'
+                : size === 'micro' && totalBlocks > 100
+                  ? ''
+                  : size === 'micro'
+                    ? '...'
+                    : currentMode === 'plan'
+                      ? 'Your plan...'
+                      : 'What happened?'
+            }
+            className={`
+              flex-1 w-full bg-transparent border-none outline-none resize-none
+              text-foreground placeholder:text-muted-foreground
+              font-light ${sizeConfig.contentText} overflow-hidden
+              ${size === 'micro' && totalBlocks > 100 ? 'placeholder:text-transparent' : ''}
+            `}
+            data-testid={`textarea-${format(date, 'yyyy-MM-dd')}`}
+            rows={size === 'xl' ? 20 : size === 'micro' && totalBlocks > 100 ? 2 : size === 'micro' ? 1 : undefined}
+          />
+        )}
         
         {content && size !== 'micro' && (
           <div className={`text-xs text-muted-foreground mt-1 opacity-0 group-hover:opacity-100 transition-opacity ${
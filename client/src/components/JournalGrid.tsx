@@ -1,8 +1,19 @@
 import { useMemo } from 'react';
-import { addDays, format, getWeek, getDay, startOfWeek, endOfWeek } from 'date-fns';
+import { addDays, format, getWeek, getDay, getQuarter, startOfWeek, endOfWeek, startOfMonth, startOfQuarter, endOfQuarter } from 'date-fns';
 import JournalBlock from './JournalBlock';
+import DayHistoryPopover from './DayHistoryPopover';
 import type { JournalMode } from '@/hooks/useJournalData';
-import { dateToDay, dateToWeekKey } from '@/hooks/useJournalData';
+import { dateToDay, dateToWeekKey, dateToMonthKey, dateToQuarterKey } from '@/hooks/useJournalData';
+import type { PeriodKind } from '@shared/calendar';
+import type { DayDiff } from '@/lib/journalAPI';
+
+// One team member's rows in the team view
+export interface TeamMemberEntries {
+  userId: string;
+  name: string;
+  planEntries: Record<string, string>;
+  realityEntries: Record<string, string>;
+}
 
 interface JournalGridProps {
   visibleBlocks: number;
@@ -17,7 +28,11 @@ interface JournalGridProps {
   planEntries?: Record<string, string>;
   realityEntries?: Record<string, string>;
   weeklyLayout?: boolean;
-  onWeeklyContentChange?: (weekKey: string, content: string) => void;
+  onPeriodContentChange?: (periodKey: string, content: string) => void; // week_, month_ and quarter_ keys
+  diffs?: Record<string, DayDiff>; // Time Machine diff keyed by day_XXX
+  remoteUpdates?: Set<string>; // day_XXX keys just changed in another session
+  teamMembers?: TeamMemberEntries[]; // Stacks every member's plan and reality per day, read-only
+  onRestoreVersion?: (date: Date, mode: JournalMode, content: string | null) => Promise<void>; // Shows each day's history
 }
 
 interface JournalEntry {
@@ -113,6 +128,27 @@ const comparePalettes: Record<JournalMode, ComparePalette> = {
   }
 };
 
+const periodCopy: Record<PeriodKind, { badge: string; adjective: string; planPlaceholder: string; realityPlaceholder: string }> = {
+  week: {
+    badge: 'Week',
+    adjective: 'Weekly',
+    planPlaceholder: 'Weekly objectives...',
+    realityPlaceholder: 'Weekly highlights...'
+  },
+  month: {
+    badge: 'Month',
+    adjective: 'Monthly',
+    planPlaceholder: 'Monthly goals...',
+    realityPlaceholder: 'Monthly retro...'
+  },
+  quarter: {
+    badge: 'Quarter',
+    adjective: 'Quarterly',
+    planPlaceholder: 'Quarterly objectives...',
+    realityPlaceholder: 'Quarterly review...'
+  }
+};
+
 const getPanelDateFormat = (sizeKey: BlockSizeVariant, isWeeklyLayout: boolean) => {
   if (isWeeklyLayout) {
     return sizeKey === 'micro' ? 'EEE d' : 'EEE, MMM d';
@@ -147,7 +183,11 @@ export default function JournalGrid({
   planEntries = {},
   realityEntries = {},
   weeklyLayout = false,
-  onWeeklyContentChange
+  onPeriodContentChange,
+  diffs,
+  remoteUpdates,
+  teamMembers,
+  onRestoreVersion
 }: JournalGridProps) {
 
   // Generate the visible dates
@@ -202,7 +242,7 @@ export default function JournalGrid({
     if (blockCount <= 30) return 'grid-cols-4 sm:grid-cols-6 md:grid-cols-8 lg:grid-cols-10';
     if (blockCount <= 100) return 'grid-cols-10'; // 10x10 grid
     if (blockCount <= 361) return 'grid-cols-19'; // 19x19 grid for 361 days
-    // For 365 days - use 19x19 (361) + remaining
+    // For full years (365/366 days) - use 19x19 (361) + remaining
     return 'grid-cols-19';
   };
 
@@ -228,7 +268,8 @@ export default function JournalGrid({
     placeholder,
     ariaLabel,
     onChange,
-    panelKey
+    panelKey,
+    historyDate
   }: {
     mode: JournalMode;
     content: string;
@@ -238,6 +279,7 @@ export default function JournalGrid({
     ariaLabel: string;
     onChange?: (value: string) => void;
     panelKey?: string;
+    historyDate?: Date; // Day panels only; periods have no history popover
   }) => {
     const palette = comparePalettes[mode];
     const sizeStyles = compareSizeStyles[sizeKey];
@@ -257,6 +299,15 @@ export default function JournalGrid({
 
     const bodyBaseClasses = `${sizeStyles.body} ${sizeStyles.minHeight}`;
 
+    const history = historyDate && onRestoreVersion && sizeKey !== 'micro' ? (
+      <DayHistoryPopover
+        date={historyDate}
+        mode={mode}
+        onRestore={(value) => onRestoreVersion(historyDate, mode, value)}
+        className="absolute top-2 right-2 z-10"
+      />
+    ) : null;
+
     if (canEdit) {
       return (
         <div className={containerClasses} key={panelKey}>
@@ -269,6 +320,7 @@ export default function JournalGrid({
             rows={sizeStyles.rows}
             spellCheck={true}
           />
+          {history}
         </div>
       );
     }
@@ -281,6 +333,7 @@ export default function JournalGrid({
         >
           {content ? content : <span className={palette.empty}>No entry yet</span>}
         </div>
+        {history}
       </div>
     );
   };
@@ -288,6 +341,7 @@ export default function JournalGrid({
   interface ModeStackOptions {
     label: string;
     dateTime?: string;
+    date?: Date; // Set for days, whose panels offer their history
     sizeKey: BlockSizeVariant;
     editableMode: JournalMode;
     editableContent: string;
@@ -302,6 +356,7 @@ export default function JournalGrid({
   const renderModeStack = ({
     label,
     dateTime,
+    date,
     sizeKey,
     editableMode,
     editableContent,
@@ -328,7 +383,8 @@ export default function JournalGrid({
             placeholder: editablePlaceholder,
             ariaLabel: editableMode === 'plan' ? 'Plan entry' : 'Reality entry',
             onChange: isEditable ? onEditableChange : undefined,
-            panelKey: `${label}-editable`
+            panelKey: `${label}-editable`,
+            historyDate: date
           })}
           {renderModePanel({
             mode: referenceMode,
@@ -337,7 +393,8 @@ export default function JournalGrid({
             sizeKey,
             placeholder: referencePlaceholder,
             ariaLabel: referenceMode === 'plan' ? 'Plan reference' : 'Reality reference',
-            panelKey: `${label}-reference`
+            panelKey: `${label}-reference`,
+            historyDate: date
           })}
         </div>
       </div>
@@ -366,6 +423,7 @@ export default function JournalGrid({
     return renderModeStack({
       label,
       dateTime,
+      date,
       sizeKey,
       editableMode,
       editableContent,
@@ -378,13 +436,53 @@ export default function JournalGrid({
     });
   };
 
-  type WeekSummaryInfo = {
-    weekKey: string;
+  // Team view: each member gets a plan/reality pair under the shared date header
+  const renderTeamContent = (
+    date: Date,
+    sizeKey: BlockSizeVariant,
+    isWeeklyLayout: boolean
+  ) => {
+    const dayKey = dateToDay(date, year);
+    const label = format(date, getPanelDateFormat(sizeKey, isWeeklyLayout));
+    const headerClasses = `${compareSizeStyles[sizeKey].header} font-semibold tracking-wide text-foreground/90`;
+
+    return (
+      <div className={`flex flex-col ${compareStackGap[sizeKey]}`}>
+        <time className={headerClasses} dateTime={format(date, 'yyyy-MM-dd')}>
+          {label}
+        </time>
+        {teamMembers!.map((member) => (
+          <div key={member.userId} className={`flex flex-col ${compareStackGap[sizeKey]}`}>
+            <span className="text-xs font-medium text-foreground/60 truncate" title={member.name}>
+              {member.name}
+            </span>
+            {(['plan', 'reality'] as const).map((mode) => renderModePanel({
+              mode,
+              content: (mode === 'plan' ? member.planEntries : member.realityEntries)[dayKey] ?? '',
+              isEditable: false,
+              sizeKey,
+              placeholder: '',
+              ariaLabel: `${member.name} ${mode === 'plan' ? 'plan' : 'reality'}`,
+              panelKey: `${member.userId}-${mode}`
+            }))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  type PeriodSummaryInfo = {
+    periodKey: string;
+    kind: PeriodKind;
+    badgeValue: string | number;
+    label: string;
+    dateTime: string;
+  };
+
+  type WeekSummaryInfo = PeriodSummaryInfo & {
     weekNumber: number;
     start: Date;
     end: Date;
-    label: string;
-    dateTime: string;
   };
 
   const buildWeekSummary = (date: Date): WeekSummaryInfo => {
@@ -394,7 +492,9 @@ export default function JournalGrid({
     const label = `Week ${weekNumber} • ${format(weekStart, 'MMM d')} – ${format(weekEnd, 'MMM d')}`;
 
     return {
-      weekKey: dateToWeekKey(weekStart, year),
+      periodKey: dateToWeekKey(weekStart),
+      kind: 'week',
+      badgeValue: weekNumber,
       weekNumber,
       start: weekStart,
       end: weekEnd,
@@ -403,30 +503,73 @@ export default function JournalGrid({
     };
   };
 
+  const buildMonthSummary = (date: Date): PeriodSummaryInfo => {
+    const monthStart = startOfMonth(date);
+    return {
+      periodKey: dateToMonthKey(monthStart),
+      kind: 'month',
+      badgeValue: format(monthStart, 'MMM'),
+      label: `${format(monthStart, 'MMMM yyyy')} review`,
+      dateTime: format(monthStart, 'yyyy-MM')
+    };
+  };
+
+  const buildQuarterSummary = (date: Date): PeriodSummaryInfo => {
+    const quarterStart = startOfQuarter(date);
+    const quarter = getQuarter(quarterStart);
+    return {
+      periodKey: dateToQuarterKey(quarterStart),
+      kind: 'quarter',
+      badgeValue: `Q${quarter}`,
+      label: `Q${quarter} ${format(quarterStart, 'yyyy')} • ${format(quarterStart, 'MMM')} – ${format(endOfQuarter(quarterStart), 'MMM')}`,
+      dateTime: format(quarterStart, 'yyyy-MM-dd')
+    };
+  };
+
   const weeklySummaryCache = useMemo(() => {
     const map = new Map<string, WeekSummaryInfo>();
     visibleDates.forEach((date) => {
       const info = buildWeekSummary(date);
-      if (!map.has(info.weekKey)) {
-        map.set(info.weekKey, info);
+      if (!map.has(info.periodKey)) {
+        map.set(info.periodKey, info);
       }
     });
     return map;
   }, [visibleDates, year]);
 
-  const renderWeeklySummaryBlock = (weekInfo: WeekSummaryInfo, sizeKey: BlockSizeVariant) => {
+  // Month and quarter reviews touched by the visible range, in calendar order
+  const monthlySummaries = useMemo(() => {
+    const map = new Map<string, PeriodSummaryInfo>();
+    visibleDates.forEach((date) => {
+      const info = buildMonthSummary(date);
+      if (!map.has(info.periodKey)) map.set(info.periodKey, info);
+    });
+    return Array.from(map.values());
+  }, [visibleDates]);
+
+  const quarterlySummaries = useMemo(() => {
+    const map = new Map<string, PeriodSummaryInfo>();
+    visibleDates.forEach((date) => {
+      const info = buildQuarterSummary(date);
+      if (!map.has(info.periodKey)) map.set(info.periodKey, info);
+    });
+    return Array.from(map.values());
+  }, [visibleDates]);
+
+  const renderPeriodSummaryBlock = (periodInfo: PeriodSummaryInfo, sizeKey: BlockSizeVariant) => {
     const summarySize: BlockSizeVariant = sizeKey === 'micro' ? 'small' : sizeKey;
-    const planContent = planEntries[weekInfo.weekKey] ?? '';
-    const realityContent = realityEntries[weekInfo.weekKey] ?? '';
+    const copy = periodCopy[periodInfo.kind];
+    const planContent = planEntries[periodInfo.periodKey] ?? '';
+    const realityContent = realityEntries[periodInfo.periodKey] ?? '';
 
     const activeMode = currentMode;
     const referenceMode: JournalMode = currentMode === 'plan' ? 'reality' : 'plan';
     const activeContent = activeMode === 'plan' ? planContent : realityContent;
     const referenceContent = referenceMode === 'plan' ? planContent : realityContent;
 
-    const isEditable = !readOnly && typeof onWeeklyContentChange === 'function';
-    const handleActiveChange = isEditable && onWeeklyContentChange
-      ? (value: string) => onWeeklyContentChange(weekInfo.weekKey, value)
+    const isEditable = !readOnly && typeof onPeriodContentChange === 'function';
+    const handleActiveChange = isEditable && onPeriodContentChange
+      ? (value: string) => onPeriodContentChange(periodInfo.periodKey, value)
       : undefined;
 
     const panels: JSX.Element[] = [];
@@ -437,10 +580,10 @@ export default function JournalGrid({
         content: activeContent,
         isEditable,
         sizeKey: summarySize,
-        placeholder: activeMode === 'plan' ? 'Weekly objectives...' : 'Weekly highlights...',
-        ariaLabel: activeMode === 'plan' ? 'Weekly plan' : 'Weekly reality',
+        placeholder: activeMode === 'plan' ? copy.planPlaceholder : copy.realityPlaceholder,
+        ariaLabel: activeMode === 'plan' ? `${copy.adjective} plan` : `${copy.adjective} reality`,
         onChange: handleActiveChange,
-        panelKey: `${weekInfo.weekKey}-${activeMode}-weekly`
+        panelKey: `${periodInfo.periodKey}-${activeMode}-${periodInfo.kind}`
       })
     );
 
@@ -451,24 +594,24 @@ export default function JournalGrid({
           content: referenceContent,
           isEditable: false,
           sizeKey: summarySize,
-          placeholder: referenceMode === 'plan' ? 'Weekly objectives...' : 'Weekly highlights...',
-          ariaLabel: referenceMode === 'plan' ? 'Weekly plan reference' : 'Weekly reality reference',
-          panelKey: `${weekInfo.weekKey}-${referenceMode}-weekly`
+          placeholder: referenceMode === 'plan' ? copy.planPlaceholder : copy.realityPlaceholder,
+          ariaLabel: referenceMode === 'plan' ? `${copy.adjective} plan reference` : `${copy.adjective} reality reference`,
+          panelKey: `${periodInfo.periodKey}-${referenceMode}-${periodInfo.kind}`
         })
       );
     }
 
     return (
-      <div className="flex items-stretch gap-3 sm:gap-4">
+      <div className="flex items-stretch gap-3 sm:gap-4" data-testid={`period-summary-${periodInfo.periodKey}`}>
         <div className="flex-shrink-0">
           <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-lg px-3 py-4 min-w-[4.25rem] text-center h-full flex flex-col justify-center">
-            <div className="text-[0.65rem] text-foreground/60 uppercase tracking-wide">Week</div>
-            <div className="text-lg font-bold text-foreground/90">{weekInfo.weekNumber}</div>
+            <div className="text-[0.65rem] text-foreground/60 uppercase tracking-wide">{copy.badge}</div>
+            <div className="text-lg font-bold text-foreground/90">{periodInfo.badgeValue}</div>
           </div>
         </div>
         <div className="flex-1 flex flex-col gap-2">
-          <time className={`${compareSizeStyles[summarySize].header} font-semibold tracking-wide text-foreground/90`} dateTime={weekInfo.dateTime}>
-            {weekInfo.label}
+          <time className={`${compareSizeStyles[summarySize].header} font-semibold tracking-wide text-foreground/90`} dateTime={periodInfo.dateTime}>
+            {periodInfo.label}
           </time>
           <div className={`flex flex-col ${compareStackGap[summarySize]}`}>
             {panels}
@@ -492,7 +635,9 @@ export default function JournalGrid({
           animationFillMode: 'backwards'
         }}
       >
-        {compareMode ? (
+        {teamMembers ? (
+          renderTeamContent(date, blockSize, false)
+        ) : compareMode ? (
           renderCompareContent(date, blockSize, false)
         ) : (
           <JournalBlock
@@ -505,6 +650,9 @@ export default function JournalGrid({
             totalBlocks={visibleBlocks}
             currentMode={currentMode}
             readOnly={readOnly}
+            diff={diffs?.[dayKey]}
+            isRemoteUpdate={remoteUpdates?.has(dayKey)}
+            onRestoreVersion={onRestoreVersion ? (content) => onRestoreVersion(date, currentMode, content) : undefined}
           />
         )}
       </div>
@@ -512,18 +660,25 @@ export default function JournalGrid({
   };
 
   const shouldShowWeeklySummary = !weeklyLayout && compareMode && visibleBlocks <= 7;
+  // Monthly reviews at week-to-100-day zoom, quarterly reviews once more than a month is visible
+  const shouldShowMonthlySummaries = !weeklyLayout && visibleBlocks > 7 && visibleBlocks <= 100;
+  const shouldShowQuarterlySummaries = !weeklyLayout && visibleBlocks > 31;
+  const periodSummaries = [
+    ...(shouldShowQuarterlySummaries ? quarterlySummaries : []),
+    ...(shouldShowMonthlySummaries ? monthlySummaries : [])
+  ];
   const standardGridNodes: JSX.Element[] = [];
   const renderedWeekKeys = new Set<string>();
 
   visibleDates.forEach((date, index) => {
     if (shouldShowWeeklySummary) {
-      const weekKey = dateToWeekKey(date, year);
+      const weekKey = dateToWeekKey(date);
       const summaryInfo = weeklySummaryCache.get(weekKey) ?? buildWeekSummary(date);
-      if (!renderedWeekKeys.has(summaryInfo.weekKey)) {
-        renderedWeekKeys.add(summaryInfo.weekKey);
+      if (!renderedWeekKeys.has(summaryInfo.periodKey)) {
+        renderedWeekKeys.add(summaryInfo.periodKey);
         standardGridNodes.push(
-          <div key={`${summaryInfo.weekKey}-summary`} className="col-span-full mb-4">
-            {renderWeeklySummaryBlock(summaryInfo, blockSize)}
+          <div key={`${summaryInfo.periodKey}-summary`} className="col-span-full mb-4">
+            {renderPeriodSummaryBlock(summaryInfo, blockSize)}
           </div>
         );
       }
@@ -553,21 +708,32 @@ export default function JournalGrid({
         </div>
       </div>
 
+      {/* Month / Quarter Reviews */}
+      {periodSummaries.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-3" data-testid="period-summaries">
+          {periodSummaries.map((info) => (
+            <div key={`${info.periodKey}-summary`}>
+              {renderPeriodSummaryBlock(info, 'small')}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Journal Grid */}
       {weeklyLayout ? (
         // Weekly Layout: Each week is a row with week number on the left
         <div className="space-y-3">
           {weekGroups.map((week, weekIndex) => {
             const firstDate = week.dates[0];
-            const weekInfo = weeklySummaryCache.get(dateToWeekKey(firstDate, year)) ?? buildWeekSummary(firstDate);
+            const weekInfo = weeklySummaryCache.get(dateToWeekKey(firstDate)) ?? buildWeekSummary(firstDate);
 
             return (
               <div
-                key={`${weekInfo.weekKey}-${weekIndex}`}
+                key={`${weekInfo.periodKey}-${weekIndex}`}
                 className="flex flex-col gap-4 lg:flex-row lg:items-start"
               >
                 <div className="lg:w-[22rem] xl:w-[24rem]">
-                  {renderWeeklySummaryBlock(weekInfo, blockSize)}
+                  {renderPeriodSummaryBlock(weekInfo, blockSize)}
                 </div>
 
                 {/* Week Days */}
@@ -591,7 +757,9 @@ export default function JournalGrid({
                           animationFillMode: 'backwards'
                         }}
                       >
-                        {compareMode ? (
+                        {teamMembers ? (
+                          renderTeamContent(date, blockSize, true)
+                        ) : compareMode ? (
                           renderCompareContent(date, blockSize, true)
                         ) : (
                           <div className={`
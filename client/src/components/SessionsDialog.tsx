@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Monitor, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { journalAPI, type AuthSession } from '@/lib/journalAPI';
+
+interface SessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSignedOut: () => void; // This device's session was revoked
+}
+
+// Lists the devices signed in to the account; any of them, or all at once, can be signed out
+export default function SessionsDialog({ open, onOpenChange, onSignedOut }: SessionsDialogProps) {
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    journalAPI.getSessions()
+      .then(setSessions)
+      .catch(() => setError('Could not load your sessions'));
+  }, [open]);
+
+  const handleRevoke = async (session: AuthSession) => {
+    setIsBusy(true);
+    try {
+      await journalAPI.revokeSession(session.id);
+      if (session.current) {
+        onSignedOut();
+        return;
+      }
+      setSessions((prev) => prev.filter((other) => other.id !== session.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not sign the session out');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    setIsBusy(true);
+    try {
+      await journalAPI.revokeAllSessions();
+      onSignedOut();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not sign out everywhere');
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="sessions-dialog">
+        <DialogHeader>
+          <DialogTitle>Signed-in devices</DialogTitle>
+          <DialogDescription>
+            A device you sign out has to sign in again before it can read or change your journal.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="max-h-72 overflow-y-auto space-y-1 text-sm">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="flex items-center justify-between gap-2 rounded-md bg-white/10 px-2 py-2"
+              data-testid={`session-${session.id}`}
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                <Monitor className="w-4 h-4 shrink-0 text-muted-foreground" />
+                <span className="min-w-0">
+                  <span className="block truncate">
+                    {session.device}
+                    {session.current && <span className="ml-1 text-xs text-emerald-600 dark:text-emerald-300">this device</span>}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {session.ip_address ? `${session.ip_address} · ` : ''}
+                    last seen {formatDistanceToNow(new Date(session.last_seen_at), { addSuffix: true })}
+                  </span>
+                </span>
+              </span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                onClick={() => handleRevoke(session)}
+                disabled={isBusy}
+                title="Sign this device out"
+                data-testid={`button-revoke-session-${session.id}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        {error && <div className="text-sm text-rose-600 dark:text-rose-300">{error}</div>}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isBusy}>
+            Close
+          </Button>
+          <Button variant="destructive" onClick={handleRevokeAll} disabled={isBusy} data-testid="button-revoke-all-sessions">
+            Sign out everywhere
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
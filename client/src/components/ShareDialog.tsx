@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { differenceInCalendarDays, endOfQuarter, format, startOfQuarter } from 'date-fns';
+import { Copy, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { journalAPI, type ShareLink, type ShareMode } from '@/lib/journalAPI';
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  year: number;
+}
+
+const modeChoices: { value: ShareMode; label: string }[] = [
+  { value: 'plan', label: 'Plan' },
+  { value: 'reality', label: 'Reality' },
+  { value: 'both', label: 'Both' },
+];
+
+const expiryChoices: { days: number | null; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: null, label: 'Never' },
+];
+
+const dayNumberOf = (value: string, year: number) =>
+  differenceInCalendarDays(new Date(`${value}T00:00:00`), new Date(year, 0, 1)) + 1;
+
+function describeLink(link: ShareLink): string {
+  const start = new Date(link.year, 0, link.start_day ?? 1);
+  const end = link.end_day ? new Date(link.year, 0, link.end_day) : new Date(link.year, 11, 31);
+  const mode = link.mode === 'both' ? 'plan & reality' : link.mode;
+  return `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')} · ${mode}`;
+}
+
+// Creates read-only links to a range of the year and lists the ones still live, each revocable
+export default function ShareDialog({ open, onOpenChange, year }: ShareDialogProps) {
+  const { toast } = useToast();
+  // Defaults to the current quarter when sharing this year, otherwise the first quarter
+  const anchor = () => new Date().getFullYear() === year ? new Date() : new Date(year, 0, 1);
+  const [startDate, setStartDate] = useState(() => format(startOfQuarter(anchor()), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(() => format(endOfQuarter(anchor()), 'yyyy-MM-dd'));
+  const [mode, setMode] = useState<ShareMode>('plan');
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(30);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    setStartDate(format(startOfQuarter(anchor()), 'yyyy-MM-dd'));
+    setEndDate(format(endOfQuarter(anchor()), 'yyyy-MM-dd'));
+  }, [year]);
+
+  useEffect(() => {
+    if (!open) return;
+    journalAPI.getShareLinks()
+      .then(setLinks)
+      .catch(() => setError('Could not load your share links'));
+  }, [open]);
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(journalAPI.shareUrl(link.token));
+      toast({ title: 'Share link copied', description: 'Anyone with the link can view this range read-only.' });
+    } catch (err) {
+      console.error('Failed to copy share link:', err);
+      toast({ title: 'Could not copy the share link', variant: 'destructive' });
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const link = await journalAPI.createShareLink({
+        year,
+        start_day: dayNumberOf(startDate, year),
+        end_day: dayNumberOf(endDate, year),
+        mode,
+        expires_in_days: expiresInDays ?? undefined,
+      });
+      setLinks((prev) => [link, ...prev]);
+      await copyLink(link);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the share link');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    try {
+      await journalAPI.revokeShareLink(link.id);
+      setLinks((prev) => prev.filter((other) => other.id !== link.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not revoke the share link');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="share-dialog">
+        <DialogHeader>
+          <DialogTitle>Share {year}</DialogTitle>
+          <DialogDescription>
+            Create a read-only link to part of your journal. People with the link do not need an account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="share-start" className="text-xs text-muted-foreground">From</Label>
+              <Input
+                id="share-start"
+                type="date"
+                value={startDate}
+                min={`${year}-01-01`}
+                max={endDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                data-testid="input-share-start"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="share-end" className="text-xs text-muted-foreground">To</Label>
+              <Input
+                id="share-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                max={`${year}-12-31`}
+                onChange={(e) => setEndDate(e.target.value)}
+                data-testid="input-share-end"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Show</Label>
+            <div className="flex gap-2">
+              {modeChoices.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={mode === value ? 'default' : 'ghost'}
+                  onClick={() => setMode(value)}
+                  data-testid={`button-share-mode-${value}`}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Expires after</Label>
+            <div className="flex gap-2">
+              {expiryChoices.map(({ days, label }) => (
+                <Button
+                  key={label}
+                  size="sm"
+                  variant={expiresInDays === days ? 'default' : 'ghost'}
+                  onClick={() => setExpiresInDays(days)}
+                  data-testid={`button-share-expiry-${days ?? 'never'}`}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {error && <div className="text-sm text-rose-600 dark:text-rose-300">{error}</div>}
+
+          {links.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-xs text-muted-foreground">Active links</div>
+              <ul className="max-h-48 overflow-y-auto space-y-1 text-xs">
+                {links.map((link) => (
+                  <li
+                    key={link.id}
+                    className="flex items-center justify-between rounded-md bg-white/10 px-2 py-1"
+                    data-testid={`share-link-${link.id}`}
+                  >
+                    <span>
+                      {describeLink(link)}
+                      {link.expires_at && (
+                        <span className="ml-2 text-muted-foreground">
+                          {new Date(link.expires_at) < new Date() ? 'expired' : `until ${format(new Date(link.expires_at), 'MMM d')}`}
+                        </span>
+                      )}
+                    </span>
+                    <span className="flex gap-1">
+                      <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => copyLink(link)} title="Copy link">
+                        <Copy className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => handleRevoke(link)}
+                        title="Revoke link"
+                        data-testid={`button-revoke-share-${link.id}`}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isBusy}>
+            Close
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={isBusy || !startDate || !endDate || startDate > endDate}
+            data-testid="button-create-share"
+          >
+            Create & copy link
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
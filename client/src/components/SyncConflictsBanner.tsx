@@ -0,0 +1,71 @@
+import { format } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { dayToDate, type JournalMode } from '@/hooks/useJournalData';
+import type { SyncConflict } from '@/lib/syncOutbox';
+
+interface SyncConflictsBannerProps {
+  year: number;
+  conflicts: SyncConflict[];
+  onResolve: (mode: JournalMode, key: string, choice: 'mine' | 'theirs') => void;
+}
+
+const describeKey = (key: string, year: number) =>
+  key.startsWith('day_') ? format(dayToDate(key, year), 'EEE, MMM d yyyy') : key;
+
+// Lists edits made offline that collide with newer server changes, one decision per cell
+export default function SyncConflictsBanner({ year, conflicts, onResolve }: SyncConflictsBannerProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div
+      className="bg-amber-500/10 backdrop-blur-lg border border-amber-500/40 rounded-2xl p-4 space-y-3"
+      data-testid="sync-conflicts"
+    >
+      <div className="flex items-center gap-2 text-sm font-medium text-amber-700 dark:text-amber-300">
+        <AlertTriangle className="w-4 h-4" />
+        {conflicts.length} {conflicts.length === 1 ? 'edit conflicts' : 'edits conflict'} with changes saved elsewhere
+      </div>
+
+      {conflicts.map((conflict) => (
+        <div
+          key={`${conflict.mode}:${conflict.key}`}
+          className="rounded-xl bg-white/10 p-3 space-y-2 text-xs"
+          data-testid={`sync-conflict-${conflict.mode}-${conflict.key}`}
+        >
+          <div className="font-medium">
+            {describeKey(conflict.key, year)} · {conflict.mode === 'plan' ? 'Plan' : 'Reality'}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <div className="text-muted-foreground mb-1">Your edit</div>
+              <div className="whitespace-pre-wrap">{conflict.mine || <em>Cleared</em>}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground mb-1">On the server</div>
+              <div className="whitespace-pre-wrap">{conflict.theirs || <em>Cleared</em>}</div>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="default"
+              onClick={() => onResolve(conflict.mode, conflict.key, 'mine')}
+              data-testid="button-keep-mine"
+            >
+              Keep mine
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onResolve(conflict.mode, conflict.key, 'theirs')}
+              data-testid="button-use-server"
+            >
+              Use server version
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
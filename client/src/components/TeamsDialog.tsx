@@ -0,0 +1,342 @@
+import { useEffect, useState } from 'react';
+import { Check, LogOut, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { journalAPI, type Team, type TeamInvitation, type TeamMember, type TeamRole } from '@/lib/journalAPI';
+
+interface TeamsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teams: Team[];
+  onTeamsChange: () => void; // Reload the team list after a create, join or leave
+}
+
+const roleChoices: { value: TeamRole; label: string }[] = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
+// Creates teams, answers invitations and, for owners, manages who is in them and with which role.
+// Owners invite by email; nobody joins until they accept. Owners and editors appear in the team view;
+// viewers only read it.
+export default function TeamsDialog({ open, onOpenChange, teams, onTeamsChange }: TeamsDialogProps) {
+  const { user } = useAuth();
+  const [selectedTeamId, setSelectedTeamId] = useState<number | null>(null);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]); // The selected team's, for owners
+  const [myInvitations, setMyInvitations] = useState<TeamInvitation[]>([]);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<TeamRole>('editor');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const selectedTeam = teams.find((team) => team.id === selectedTeamId) ?? null;
+  const isOwner = selectedTeam?.role === 'owner';
+
+  useEffect(() => {
+    if (open && selectedTeamId === null && teams.length > 0) {
+      setSelectedTeamId(teams[0].id);
+    }
+  }, [open, teams]);
+
+  useEffect(() => {
+    if (!open) return;
+    journalAPI.getMyInvitations()
+      .then(setMyInvitations)
+      .catch(() => setError('Could not load your invitations'));
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || selectedTeamId === null) {
+      setMembers([]);
+      return;
+    }
+    journalAPI.getTeamMembers(selectedTeamId)
+      .then(setMembers)
+      .catch(() => setError('Could not load the team members'));
+  }, [open, selectedTeamId]);
+
+  useEffect(() => {
+    if (!open || selectedTeamId === null || !isOwner) {
+      setInvitations([]);
+      return;
+    }
+    journalAPI.getTeamInvitations(selectedTeamId)
+      .then(setInvitations)
+      .catch(() => setError('Could not load the invitations'));
+  }, [open, selectedTeamId, isOwner]);
+
+  // Runs a team change, surfacing the server's message on failure
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreateTeam = () => run(async () => {
+    const team = await journalAPI.createTeam(newTeamName.trim());
+    setNewTeamName('');
+    setSelectedTeamId(team.id);
+    onTeamsChange();
+  }, 'Could not create the team');
+
+  const handleInvite = () => run(async () => {
+    const invitation = await journalAPI.inviteTeamMember(selectedTeamId!, inviteEmail.trim(), inviteRole);
+    setInvitations((prev) => [...prev.filter((other) => other.id !== invitation.id), invitation]);
+    setInviteEmail('');
+  }, 'Could not send the invitation');
+
+  const handleCancelInvitation = (invitation: TeamInvitation) => run(async () => {
+    await journalAPI.cancelTeamInvitation(selectedTeamId!, invitation.id);
+    setInvitations((prev) => prev.filter((other) => other.id !== invitation.id));
+  }, 'Could not cancel the invitation');
+
+  const handleAccept = (invitation: TeamInvitation) => run(async () => {
+    const team = await journalAPI.acceptInvitation(invitation.id);
+    setMyInvitations((prev) => prev.filter((other) => other.id !== invitation.id));
+    setSelectedTeamId(team.id);
+    onTeamsChange();
+  }, 'Could not join the team');
+
+  const handleDecline = (invitation: TeamInvitation) => run(async () => {
+    await journalAPI.declineInvitation(invitation.id);
+    setMyInvitations((prev) => prev.filter((other) => other.id !== invitation.id));
+  }, 'Could not decline the invitation');
+
+  const handleRoleChange = (member: TeamMember, role: TeamRole) => run(async () => {
+    const updated = await journalAPI.updateTeamMemberRole(selectedTeamId!, member.user_id, role);
+    setMembers((prev) => prev.map((other) => other.user_id === updated.user_id ? updated : other));
+    if (member.user_id === user?.id) onTeamsChange();
+  }, 'Could not change the role');
+
+  const handleRemove = (member: TeamMember) => run(async () => {
+    await journalAPI.removeTeamMember(selectedTeamId!, member.user_id);
+    if (member.user_id === user?.id) {
+      setSelectedTeamId(null);
+      onTeamsChange();
+    } else {
+      setMembers((prev) => prev.filter((other) => other.user_id !== member.user_id));
+    }
+  }, 'Could not remove the member');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="teams-dialog">
+        <DialogHeader>
+          <DialogTitle>Teams</DialogTitle>
+          <DialogDescription>
+            Each member keeps their own plan and reality; the team view shows them side by side.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {myInvitations.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">Invitations</div>
+              <ul className="space-y-1 text-sm">
+                {myInvitations.map((invitation) => (
+                  <li
+                    key={invitation.id}
+                    className="flex items-center justify-between gap-2 rounded-md bg-white/10 px-2 py-1"
+                    data-testid={`my-invitation-${invitation.id}`}
+                  >
+                    <span className="truncate">
+                      {invitation.team_name}
+                      <span className="ml-1 text-xs text-muted-foreground capitalize">{invitation.role}</span>
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => handleAccept(invitation)}
+                        disabled={isBusy}
+                        title="Join team"
+                        data-testid={`button-accept-invitation-${invitation.id}`}
+                      >
+                        <Check className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => handleDecline(invitation)}
+                        disabled={isBusy}
+                        title="Decline"
+                        data-testid={`button-decline-invitation-${invitation.id}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="team-name" className="text-xs text-muted-foreground">New team</Label>
+            <div className="flex gap-2">
+              <Input
+                id="team-name"
+                value={newTeamName}
+                placeholder="Team name"
+                onChange={(e) => setNewTeamName(e.target.value)}
+                data-testid="input-team-name"
+              />
+              <Button onClick={handleCreateTeam} disabled={isBusy || !newTeamName.trim()} data-testid="button-create-team">
+                Create
+              </Button>
+            </div>
+          </div>
+
+          {teams.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {teams.map((team) => (
+                <Button
+                  key={team.id}
+                  size="sm"
+                  variant={team.id === selectedTeamId ? 'default' : 'ghost'}
+                  onClick={() => setSelectedTeamId(team.id)}
+                  data-testid={`button-team-${team.id}`}
+                >
+                  {team.name}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {selectedTeam && (
+            <div className="space-y-2">
+              <div className="text-xs text-muted-foreground">Members of {selectedTeam.name}</div>
+              <ul className="max-h-56 overflow-y-auto space-y-1 text-sm">
+                {members.map((member) => {
+                  const isSelf = member.user_id === user?.id;
+                  return (
+                    <li
+                      key={member.user_id}
+                      className="flex items-center justify-between gap-2 rounded-md bg-white/10 px-2 py-1"
+                      data-testid={`team-member-${member.user_id}`}
+                    >
+                      <span className="truncate" title={member.email}>
+                        {member.name}{isSelf && <span className="ml-1 text-muted-foreground">(you)</span>}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        {isOwner ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) => handleRoleChange(member, role as TeamRole)}
+                            disabled={isBusy}
+                          >
+                            <SelectTrigger className="h-7 w-24 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {roleChoices.map(({ value, label }) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-xs text-muted-foreground capitalize">{member.role}</span>
+                        )}
+                        {(isOwner || isSelf) && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6"
+                            onClick={() => handleRemove(member)}
+                            disabled={isBusy}
+                            title={isSelf ? 'Leave team' : 'Remove member'}
+                            data-testid={`button-remove-member-${member.user_id}`}
+                          >
+                            {isSelf ? <LogOut className="w-3 h-3" /> : <Trash2 className="w-3 h-3" />}
+                          </Button>
+                        )}
+                      </span>
+                    </li>
+                  );
+                })}
+                {invitations.map((invitation) => (
+                  <li
+                    key={`invitation-${invitation.id}`}
+                    className="flex items-center justify-between gap-2 rounded-md px-2 py-1 text-muted-foreground"
+                    data-testid={`team-invitation-${invitation.id}`}
+                  >
+                    <span className="truncate">{invitation.email} (invited)</span>
+                    <span className="flex items-center gap-1">
+                      <span className="text-xs capitalize">{invitation.role}</span>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => handleCancelInvitation(invitation)}
+                        disabled={isBusy}
+                        title="Cancel invitation"
+                        data-testid={`button-cancel-invitation-${invitation.id}`}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              {isOwner && (
+                <div className="flex gap-2">
+                  <Input
+                    type="email"
+                    value={inviteEmail}
+                    placeholder="Member's email"
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    data-testid="input-member-email"
+                  />
+                  <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as TeamRole)}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roleChoices.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleInvite} disabled={isBusy || !inviteEmail.trim()} data-testid="button-invite-member">
+                    Invite
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <div className="text-sm text-rose-600 dark:text-rose-300">{error}</div>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,23 +1,81 @@
 import { format } from 'date-fns';
 import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import type { DayDiff } from '@/lib/journalAPI';
 
 interface TimeMachineBarProps {
   timeline: { timestamp: string; entry_type: string }[];
   selectedIndex: number;
   onIndexChange: (index: number) => void;
+  diffMode?: boolean;
+  onDiffModeChange?: (enabled: boolean) => void;
+  compareIndex?: number;
+  onCompareIndexChange?: (index: number) => void;
+  diffs?: DayDiff[];
 }
 
-export default function TimeMachineBar({ timeline, selectedIndex, onIndexChange }: TimeMachineBarProps) {
+const formatTimestamp = (ts?: string) => ts ? format(new Date(ts), 'yyyy-MM-dd HH:mm:ss') : 'No snapshots yet';
+
+export default function TimeMachineBar({
+  timeline,
+  selectedIndex,
+  onIndexChange,
+  diffMode = false,
+  onDiffModeChange,
+  compareIndex = -1,
+  onCompareIndexChange,
+  diffs = []
+}: TimeMachineBarProps) {
   const max = Math.max(0, timeline.length - 1);
-  const ts = timeline[selectedIndex]?.timestamp;
-  const pretty = ts ? format(new Date(ts), 'yyyy-MM-dd HH:mm:ss') : 'No snapshots yet';
+  const pretty = formatTimestamp(timeline[selectedIndex]?.timestamp);
+
+  const counts = diffs.reduce(
+    (acc, d) => {
+      if (d.status !== 'unchanged') acc[d.status] += 1;
+      return acc;
+    },
+    { added: 0, removed: 0, modified: 0 }
+  );
 
   return (
     <div className="bg-white/10 backdrop-blur-lg border border-white/20 rounded-2xl p-4 space-y-2" data-testid="time-machine">
       <div className="flex items-center justify-between">
         <Label className="text-sm font-medium">Time Machine</Label>
-        <div className="text-xs text-muted-foreground">{timeline.length} snapshots</div>
+        <div className="flex items-center gap-3">
+          <div className="text-xs text-muted-foreground">{timeline.length} snapshots</div>
+          {onDiffModeChange && (
+            <Button
+              variant={diffMode ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => onDiffModeChange(!diffMode)}
+              disabled={timeline.length < 2}
+              className="hover-elevate"
+              data-testid="button-time-machine-diff"
+              title="Compare two points on the timeline"
+            >
+              {diffMode ? 'Diff: ON' : 'Diff'}
+            </Button>
+          )}
+        </div>
       </div>
+
+      {diffMode && (
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">From</div>
+          <input
+            type="range"
+            min={0}
+            max={max}
+            value={compareIndex < 0 ? 0 : compareIndex}
+            onChange={(e) => onCompareIndexChange?.(parseInt(e.target.value))}
+            className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer"
+            data-testid="slider-time-machine-from"
+          />
+          <div className="text-xs text-muted-foreground text-center">{formatTimestamp(timeline[compareIndex]?.timestamp)}</div>
+          <div className="text-xs text-muted-foreground">To</div>
+        </div>
+      )}
+
       <input
         type="range"
         min={0}
@@ -27,6 +85,14 @@ export default function TimeMachineBar({ timeline, selectedIndex, onIndexChange
         className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer"
       />
       <div className="text-xs text-muted-foreground text-center">{pretty}</div>
+
+      {diffMode && (
+        <div className="flex items-center justify-center gap-3 text-xs" data-testid="time-machine-diff-summary">
+          <span className="px-2 py-0.5 rounded-full bg-emerald-500/20 text-emerald-700 dark:text-emerald-300">+{counts.added} added</span>
+          <span className="px-2 py-0.5 rounded-full bg-rose-500/20 text-rose-700 dark:text-rose-300">−{counts.removed} removed</span>
+          <span className="px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-700 dark:text-amber-300">~{counts.modified} modified</span>
+        </div>
+      )}
     </div>
   );
 }
@@ -32,7 +32,8 @@ export default function ZoomControls({
   // Calculate the day of year for the slider
   const yearStart = startOfYear(new Date(currentYear, 0, 1));
   const dayOfYear = Math.floor((startDate.getTime() - yearStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-  const maxStartDay = Math.max(1, totalBlocks - visibleBlocks + 1);
+  // Any day of the year can start the window; windows starting late in December run into the next year
+  const maxStartDay = totalBlocks;
 
   const handleVisibleBlocksSlider = (value: number) => {
     onVisibleBlocksChange(value);
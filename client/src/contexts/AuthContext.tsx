@@ -1,4 +1,6 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { journalAPI } from '@/lib/journalAPI';
+import { fetchWithRefresh } from '@/lib/queryClient';
 
 interface User {
   id: string;
@@ -27,18 +29,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   async function checkAuth() {
     try {
-      const response = await fetch('/api/auth/me', {
+      // Renews an expired access token from the refresh cookie before giving up
+      const response = await fetchWithRefresh('/api/auth/me', {
         credentials: 'include', // Send cookies
       });
 
       if (response.ok) {
         const userData = await response.json();
+        journalAPI.setUserId(userData.id); // Before rendering, so the journal's first requests carry it
         setUser(userData);
       } else {
+        journalAPI.setUserId(null);
         setUser(null);
       }
     } catch (error) {
       console.error('Auth check failed:', error);
+      journalAPI.setUserId(null);
       setUser(null);
     } finally {
       setLoading(false);
@@ -51,6 +57,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         method: 'POST',
         credentials: 'include',
       });
+      journalAPI.setUserId(null);
       setUser(null);
       window.location.href = '/login';
     } catch (error) {
@@ -1,6 +1,32 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { format, getWeek } from 'date-fns';
+import { format, getQuarter } from 'date-fns';
+import { daysInYear, formatDayKey, parseDayKey } from '@shared/calendar';
 import { journalAPI } from '@/lib/journalAPI';
+import {
+  loadOutbox,
+  emptyOutbox,
+  saveOutbox,
+  recordEdit,
+  planReplay,
+  overlayPending,
+  hasPendingEdits,
+  baselineFromSnapshot,
+  outboxKey,
+  resolveConflict as resolveOutboxConflict,
+  type OutboxState,
+  type SyncConflict,
+} from '@/lib/syncOutbox';
+import {
+  loadHistory,
+  emptyHistory,
+  saveHistory,
+  recordStep,
+  undoStep,
+  redoStep,
+  stepValues,
+  type EditHistory,
+  type HistoryStep,
+} from '@/lib/editHistory';
 
 export type JournalMode = 'plan' | 'reality';
 // Updated to use day_XXX format aligned with database structure
@@ -12,14 +38,34 @@ export function dateToDay(date: Date, year: number): string {
   return `day_${String(dayOfYear).padStart(3, '0')}`;
 }
 
-export function dayToDate(dayKey: string, year: number): Date {
-  const dayNumber = parseInt(dayKey.replace('day_', ''));
-  return new Date(year, 0, dayNumber);
+// Shared with the server, which needs the same day and week keys for exports
+export { dayToDate, dateToWeekKey } from '@shared/calendar';
+
+export function dateToMonthKey(date: Date): string {
+  return `month_${date.getFullYear()}_${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function dateToQuarterKey(date: Date): string {
+  return `quarter_${date.getFullYear()}_Q${getQuarter(date)}`;
 }
 
-export function dateToWeekKey(date: Date, year: number): string {
-  const weekNumber = getWeek(date, { weekStartsOn: 0, firstWeekContainsDate: 1 });
-  return `week_${year}_${String(weekNumber).padStart(2, '0')}`;
+// Appends the following year's entries to `year`'s entries so a view spanning New Year can read both.
+// Day keys continue past the end of `year` (Jan 1 becomes day_366, or day_367 after a leap year), which is
+// what dateToDay(date, year) yields for those dates; period keys already embed their own year.
+export function mergeFollowingYearEntries(entries: JournalEntries, followingEntries: JournalEntries, year: number): JournalEntries {
+  const merged: JournalEntries = { ...entries };
+  const offset = daysInYear(year);
+
+  Object.entries(followingEntries).forEach(([key, content]) => {
+    const dayNumber = parseDayKey(key);
+    if (dayNumber !== null) {
+      merged[formatDayKey(dayNumber + offset)] = content;
+    } else {
+      merged[key] = content;
+    }
+  });
+
+  return merged;
 }
 
 // Migration function to convert old date format to new day format
@@ -37,7 +83,7 @@ function migrateOldFormatToNewFormat(entries: Record<string, string>, year: numb
       return;
     }
 
-    if (key.startsWith('day_') || key.startsWith('week_')) {
+    if (key.startsWith('day_') || key.startsWith('week_') || key.startsWith('month_') || key.startsWith('quarter_')) {
       migratedEntries[key] = content;
       return;
     }
@@ -50,11 +96,15 @@ function migrateOldFormatToNewFormat(entries: Record<string, string>, year: numb
 }
 
 interface JournalData {
+  // Year the entries were loaded for, so a year switch never writes one year's entries under another's keys
+  year: number;
   planEntries: JournalEntries;
   realityEntries: JournalEntries;
   currentMode: JournalMode;
   isOnline: boolean;
   lastSyncTimestamp: Date | null;
+  pendingCount: number; // Edits waiting in the outbox
+  conflicts: SyncConflict[];
 }
 
 interface UseJournalDataReturn {
@@ -63,27 +113,70 @@ interface UseJournalDataReturn {
   currentMode: JournalMode;
   isOnline: boolean;
   lastSyncTimestamp: Date | null;
+  pendingCount: number;
+  conflicts: SyncConflict[];
+  remoteUpdates: Record<JournalMode, string[]>; // Cells just changed by another tab or device
+  undoAt: number | null; // When the edit undo would revert was made; null with nothing to undo
+  redoAt: number | null; // When the step redo would reapply was undone
   setCurrentMode: (mode: JournalMode) => void;
   updateEntry: (date: Date, content: string) => void;
   updateWeeklyEntry: (weekKey: string, content: string, mode?: JournalMode) => void;
+  updatePeriodEntry: (periodKey: string, content: string, mode?: JournalMode) => void;
+  undo: () => JournalMode | null; // Mode of the step it reverted
+  redo: () => JournalMode | null;
+  resolveConflict: (mode: JournalMode, key: string, choice: 'mine' | 'theirs') => void;
+  restoreEntry: (date: Date, mode: JournalMode, content: string | null) => Promise<void>;
   getCurrentEntries: () => JournalEntries;
   getEntryForMode: (date: Date, mode: JournalMode) => string;
   getWeeklyEntry: (weekKey: string, mode: JournalMode) => string;
+  getPeriodEntry: (periodKey: string, mode: JournalMode) => string;
   syncToDatabase: () => Promise<void>;
   loadFromDatabase: () => Promise<void>;
 }
 
-export function useJournalData(year: number): UseJournalDataReturn {
+interface UseJournalDataOptions {
+  enabled?: boolean; // While false nothing is loaded, probed or subscribed; queued edits wait until it is enabled again
+}
+
+// Sets or clears one cell of a mode's local entries
+function applyLocalEdit(data: JournalData, mode: JournalMode, key: string, content: string): JournalData {
+  const field = mode === 'plan' ? 'planEntries' : 'realityEntries';
+  const entries = { ...data[field], [key]: content };
+  // Remove empty entries
+  if (!content.trim()) {
+    delete entries[key];
+  }
+  return { ...data, [field]: entries };
+}
+
+// How often to probe the API while offline
+const RECONNECT_INTERVAL_MS = 30000;
+// How long cells changed elsewhere stay highlighted
+const REMOTE_HIGHLIGHT_MS = 4000;
+export function useJournalData(year: number, { enabled = true }: UseJournalDataOptions = {}): UseJournalDataReturn {
   const [journalData, setJournalData] = useState<JournalData>({
+    year,
     planEntries: {},
     realityEntries: {},
     currentMode: 'plan', // Start with plan mode (dark mode equivalent)
     isOnline: false,
-    lastSyncTimestamp: null
+    lastSyncTimestamp: null,
+    pendingCount: 0,
+    conflicts: []
   });
 
-  // Debounce timer for auto-save
+  const [remoteUpdates, setRemoteUpdates] = useState<Record<JournalMode, string[]>>({ plan: [], reality: [] });
+  const [history, setHistory] = useState<EditHistory>(emptyHistory());
+
+  // Debounce timer for replaying the outbox
   const autoSaveTimerRef = useRef<NodeJS.Timeout>();
+  const outboxRef = useRef<OutboxState>(emptyOutbox());
+  const historyRef = useRef<EditHistory>(emptyHistory());
+  const isOnlineRef = useRef(false);
+  const isFlushingRef = useRef(false);
+  const flushAgainRef = useRef(false);
+  const journalDataRef = useRef(journalData);
+  journalDataRef.current = journalData;
 
   // Check API connectivity
   const checkConnectivity = useCallback(async () => {
@@ -99,6 +192,8 @@ export function useJournalData(year: number): UseJournalDataReturn {
 
   // Load data from localStorage and optionally from database
   useEffect(() => {
+    if (!enabled) return;
+
     const loadJournalData = async () => {
       try {
         // Load plan entries
@@ -117,12 +212,23 @@ export function useJournalData(year: number): UseJournalDataReturn {
         const lastSyncStr = localStorage.getItem(`journal-last-sync-${year}`);
         const lastSyncTimestamp = lastSyncStr ? new Date(lastSyncStr) : null;
 
+        // Load edits that never reached the server
+        const outbox = loadOutbox(year);
+        outboxRef.current = outbox;
+
+        // Undo and redo steps from earlier in this browser session
+        historyRef.current = loadHistory(year);
+        setHistory(historyRef.current);
+
         setJournalData({
+          year,
           planEntries,
           realityEntries,
           currentMode,
           isOnline: false, // Will be updated by connectivity check
-          lastSyncTimestamp
+          lastSyncTimestamp,
+          pendingCount: Object.keys(outbox.edits).length,
+          conflicts: Object.values(outbox.conflicts)
         });
 
         console.log(`🔄 Loaded journal data for ${year}:`, {
@@ -145,85 +251,270 @@ export function useJournalData(year: number): UseJournalDataReturn {
       } catch (error) {
         console.error('Failed to load journal data:', error);
         setJournalData({
+          year,
           planEntries: {},
           realityEntries: {},
           currentMode: 'plan',
           isOnline: false,
-          lastSyncTimestamp: null
+          lastSyncTimestamp: null,
+          pendingCount: 0,
+          conflicts: []
         });
       }
     };
 
     loadJournalData();
-  }, [year, checkConnectivity]);
+  }, [year, enabled, checkConnectivity]);
 
   // Save data to localStorage whenever it changes
   useEffect(() => {
-    if (Object.keys(journalData.planEntries).length > 0) {
+    if (journalData.year === year && Object.keys(journalData.planEntries).length > 0) {
       localStorage.setItem(`journal-plan-${year}`, JSON.stringify(journalData.planEntries));
       console.log(`💾 Saved ${Object.keys(journalData.planEntries).length} plan entries for ${year}`);
     }
-  }, [journalData.planEntries, year]);
+  }, [journalData.planEntries, journalData.year, year]);
 
   useEffect(() => {
-    if (Object.keys(journalData.realityEntries).length > 0) {
+    if (journalData.year === year && Object.keys(journalData.realityEntries).length > 0) {
       localStorage.setItem(`journal-reality-${year}`, JSON.stringify(journalData.realityEntries));
       console.log(`💾 Saved ${Object.keys(journalData.realityEntries).length} reality entries for ${year}`);
     }
-  }, [journalData.realityEntries, year]);
+  }, [journalData.realityEntries, journalData.year, year]);
 
   useEffect(() => {
     localStorage.setItem('journal-current-mode', journalData.currentMode);
   }, [journalData.currentMode]);
 
   useEffect(() => {
-    if (journalData.lastSyncTimestamp) {
+    if (journalData.year === year && journalData.lastSyncTimestamp) {
       localStorage.setItem(`journal-last-sync-${year}`, journalData.lastSyncTimestamp.toISOString());
     }
-  }, [journalData.lastSyncTimestamp, year]);
+  }, [journalData.lastSyncTimestamp, journalData.year, year]);
+
+  const commitOutbox = useCallback((next: OutboxState) => {
+    outboxRef.current = next;
+    saveOutbox(year, next);
+    setJournalData(prev => prev.year !== year ? prev : {
+      ...prev,
+      pendingCount: Object.keys(next.edits).length,
+      conflicts: Object.values(next.conflicts)
+    });
+  }, [year]);
+
+  // Replays queued edits: each is merged three ways against the server's current value, clean ones are
+  // patched as per-cell deltas, and the rest become conflicts for the user to settle.
+  const flushOutbox = useCallback(async () => {
+    if (isFlushingRef.current) {
+      flushAgainRef.current = true;
+      return;
+    }
+    isFlushingRef.current = true;
 
-  // Internal database loading function
+    try {
+      const replayed = outboxRef.current;
+      const server = baselineFromSnapshot(await journalAPI.getDailySnapshot(year));
+      const replay = planReplay(replayed, server);
+
+      let pushedAny = false;
+      for (const mode of ['plan', 'reality'] as const) {
+        if (Object.keys(replay.push[mode]).length === 0) continue;
+        const result = await journalAPI.patchSnapshot(mode, replay.push[mode], year);
+        pushedAny = true;
+        // The server moved again between our read and the write
+        result.conflicts.forEach(({ key, content, current }) => {
+          replay.conflicts.push({ mode, key, base: replayed.edits[outboxKey(mode, key)]?.base ?? null, mine: content, theirs: current });
+        });
+      }
+
+      // Re-read so the baseline carries the server's new last-updated times
+      const baseline = pushedAny ? baselineFromSnapshot(await journalAPI.getDailySnapshot(year)) : server;
+
+      // Edits typed while the replay was in flight stay queued, rebased onto what was just pushed
+      const current = outboxRef.current;
+      const edits = { ...current.edits };
+      const conflicts = { ...current.conflicts };
+      Object.entries(replayed.edits).forEach(([id, edit]) => {
+        const latest = edits[id];
+        if (!latest) return;
+        if (latest.editedAt === edit.editedAt) {
+          delete edits[id];
+        } else if (edit.key in replay.push[edit.mode]) {
+          edits[id] = { ...latest, base: replay.push[edit.mode][edit.key].content };
+        }
+      });
+      replay.conflicts.forEach((conflict) => {
+        const id = outboxKey(conflict.mode, conflict.key);
+        conflicts[id] = { ...conflict, mine: edits[id]?.content ?? conflict.mine };
+        delete edits[id];
+      });
+
+      const next: OutboxState = { edits, conflicts, baseline };
+      commitOutbox(next);
+      setJournalData(prev => prev.year !== year ? prev : {
+        ...prev,
+        planEntries: overlayPending(baseline.plan, next, 'plan'),
+        realityEntries: overlayPending(baseline.reality, next, 'reality'),
+        lastSyncTimestamp: new Date()
+      });
+
+      if (replay.conflicts.length > 0) {
+        console.warn(`⚠️ ${replay.conflicts.length} edits conflict with newer server changes`);
+      } else if (pushedAny) {
+        console.log(`🔄 Synced ${Object.keys(replayed.edits).length} queued edits to database`);
+      }
+    } catch (error) {
+      console.error('Failed to replay sync outbox, keeping edits queued:', error);
+      isOnlineRef.current = false;
+      setJournalData(prev => ({ ...prev, isOnline: false }));
+      throw error;
+    } finally {
+      isFlushingRef.current = false;
+      if (flushAgainRef.current) {
+        flushAgainRef.current = false;
+        flushOutbox().catch(() => { });
+      }
+    }
+  }, [year, commitOutbox]);
+
+  // Internal database loading function. Server contents win except for cells with queued or conflicting
+  // edits; local-only entries are queued for upload when the server has nothing for this year yet.
   const loadFromDatabaseInternal = useCallback(async () => {
     try {
       const dailySnapshot = await journalAPI.getDailySnapshot(year);
-      if (dailySnapshot) {
-        setJournalData(prev => ({
-          ...prev,
-          planEntries: dailySnapshot.latest_plan_contents,
-          realityEntries: dailySnapshot.latest_reality_contents,
-          lastSyncTimestamp: new Date()
-        }));
-        console.log('📥 Loaded latest data from database');
+      if (!dailySnapshot) {
+        let outbox = outboxRef.current;
+        const local = journalDataRef.current;
+        if (local.year === year) {
+          Object.entries(local.planEntries).forEach(([key, content]) => { outbox = recordEdit(outbox, 'plan', key, content); });
+          Object.entries(local.realityEntries).forEach(([key, content]) => { outbox = recordEdit(outbox, 'reality', key, content); });
+          commitOutbox(outbox);
+        }
       }
+      await flushOutbox();
+      console.log('📥 Loaded latest data from database');
     } catch (error) {
       console.error('Failed to load from database:', error);
       throw error;
     }
+  }, [year, commitOutbox, flushOutbox]);
+
+  const commitHistory = useCallback((next: EditHistory) => {
+    historyRef.current = next;
+    saveHistory(year, next);
+    setHistory(next);
   }, [year]);
 
-  // Auto-save to database (debounced)
-  const autoSaveToDatabase = useCallback(async (mode: JournalMode, entries: JournalEntries) => {
-    if (!journalData.isOnline) return;
+  // Queue edits and replay the outbox shortly after typing stops (debounced)
+  const queueEdits = useCallback((mode: JournalMode, cells: JournalEntries) => {
+    commitOutbox(Object.entries(cells).reduce((outbox, [key, content]) => recordEdit(outbox, mode, key, content), outboxRef.current));
 
     // Clear existing timer
     if (autoSaveTimerRef.current) {
       clearTimeout(autoSaveTimerRef.current);
     }
+    if (!isOnlineRef.current) return; // Replayed when connectivity returns
 
     // Set new timer
-    autoSaveTimerRef.current = setTimeout(async () => {
-      try {
-        await journalAPI.saveSnapshot(mode, entries, year);
-        setJournalData(prev => ({
-          ...prev,
-          lastSyncTimestamp: new Date()
-        }));
-        console.log(`🔄 Auto-saved ${mode} to database`);
-      } catch (error) {
-        console.error(`Failed to auto-save ${mode} to database:`, error);
-      }
+    autoSaveTimerRef.current = setTimeout(() => {
+      flushOutbox().catch(() => { });
     }, 2000); // 2-second debounce
-  }, [journalData.isOnline, year]);
+  }, [commitOutbox, flushOutbox]);
+
+  // Shows and queues cell values; undo and redo come through here without adding history of their own
+  const writeCells = useCallback((mode: JournalMode, cells: JournalEntries) => {
+    setJournalData(prev => Object.entries(cells).reduce((data, [key, content]) => applyLocalEdit(data, mode, key, content), prev));
+    queueEdits(mode, cells);
+  }, [queueEdits]);
+
+  // Every edit the user makes, recorded as one undo step
+  const editCells = useCallback((mode: JournalMode, cells: JournalEntries) => {
+    const entries = journalDataRef.current[mode === 'plan' ? 'planEntries' : 'realityEntries'];
+    const changes = Object.fromEntries(Object.entries(cells).map(([key, content]) => [key, { before: entries[key] ?? '', after: content }]));
+    commitHistory(recordStep(historyRef.current, mode, changes));
+    writeCells(mode, cells);
+  }, [commitHistory, writeCells]);
+
+  // Keep probing while offline, and react to the browser's own connectivity events
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleOnline = () => { checkConnectivity(); };
+    const handleOffline = () => setJournalData(prev => ({ ...prev, isOnline: false }));
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    const interval = setInterval(() => {
+      if (!isOnlineRef.current) checkConnectivity();
+    }, RECONNECT_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(interval);
+    };
+  }, [enabled, checkConnectivity]);
+
+  // Replay queued edits whenever the API becomes reachable
+  useEffect(() => {
+    isOnlineRef.current = journalData.isOnline;
+    if (enabled && journalData.isOnline && hasPendingEdits(outboxRef.current)) {
+      flushOutbox().catch(() => { });
+    }
+  }, [enabled, journalData.isOnline, flushOutbox]);
+
+  // Merge cells saved by the user's other tabs and devices as they arrive. They become the new
+  // baseline; cells with unsynced or conflicting edits here keep showing ours until the next replay.
+  useEffect(() => {
+    setRemoteUpdates({ plan: [], reality: [] });
+    if (!enabled) return;
+    const timers: NodeJS.Timeout[] = [];
+
+    const unsubscribe = journalAPI.subscribeToChanges((event) => {
+      if (event.year !== year) return;
+      const mode = event.entry_type;
+      const outbox = outboxRef.current;
+      const baselineEntries = { ...outbox.baseline[mode] };
+      const field = mode === 'plan' ? 'planEntries' : 'realityEntries';
+      const keys = Object.keys(event.cells);
+
+      keys.forEach((key) => {
+        const value = event.cells[key];
+        if (value) {
+          baselineEntries[key] = value;
+        } else {
+          delete baselineEntries[key];
+        }
+      });
+      commitOutbox({ ...outbox, baseline: { ...outbox.baseline, [mode]: baselineEntries } });
+
+      setJournalData(prev => {
+        if (prev.year !== year) return prev;
+        const entries = { ...prev[field] };
+        keys.forEach((key) => {
+          const id = outboxKey(mode, key);
+          if (outbox.edits[id] || outbox.conflicts[id]) return;
+          const value = event.cells[key];
+          if (value) {
+            entries[key] = value;
+          } else {
+            delete entries[key];
+          }
+        });
+        return { ...prev, [field]: entries };
+      });
+
+      setRemoteUpdates(prev => ({ ...prev, [mode]: Array.from(new Set([...prev[mode], ...keys])) }));
+      timers.push(setTimeout(() => {
+        setRemoteUpdates(prev => ({ ...prev, [mode]: prev[mode].filter(key => !keys.includes(key)) }));
+      }, REMOTE_HIGHLIGHT_MS));
+      console.log(`📡 ${keys.length} ${mode} cells updated in another session`);
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, [year, enabled, commitOutbox]);
 
   const setCurrentMode = useCallback((mode: JournalMode) => {
     setJournalData(prev => ({ ...prev, currentMode: mode }));
@@ -231,75 +522,67 @@ export function useJournalData(year: number): UseJournalDataReturn {
   }, []);
 
   const updateEntry = useCallback((date: Date, content: string) => {
-    const dayKey = dateToDay(date, year);
+    editCells(journalData.currentMode, { [dateToDay(date, year)]: content });
+  }, [year, journalData.currentMode, editCells]);
 
-    setJournalData(prev => {
-      const updatedData = { ...prev };
-
-      if (prev.currentMode === 'plan') {
-        updatedData.planEntries = {
-          ...prev.planEntries,
-          [dayKey]: content
-        };
-        // Remove empty entries
-        if (!content.trim()) {
-          delete updatedData.planEntries[dayKey];
-        }
-
-        // Auto-save to database
-        autoSaveToDatabase('plan', updatedData.planEntries);
-      } else {
-        updatedData.realityEntries = {
-          ...prev.realityEntries,
-          [dayKey]: content
-        };
-        // Remove empty entries
-        if (!content.trim()) {
-          delete updatedData.realityEntries[dayKey];
-        }
-
-        // Auto-save to database
-        autoSaveToDatabase('reality', updatedData.realityEntries);
-      }
-
-      return updatedData;
-    });
-  }, [autoSaveToDatabase]);
+  // Week, month and quarter summaries share one code path; keys carry the period (week_2025_07, month_2025_03, quarter_2025_Q1)
+  const updatePeriodEntry = useCallback((periodKey: string, content: string, mode?: JournalMode) => {
+    editCells(mode ?? journalData.currentMode, { [periodKey]: content });
+  }, [journalData.currentMode, editCells]);
 
-  const updateWeeklyEntry = useCallback((weekKey: string, content: string, mode?: JournalMode) => {
-    setJournalData(prev => {
-      const targetMode = mode ?? prev.currentMode;
-      const updatedData = { ...prev };
+  // Undo writes back the before values of the latest step, redo the after values of the last undone one
+  const replayStep = useCallback((result: { history: EditHistory; step: HistoryStep } | null, side: 'before' | 'after') => {
+    if (!result) return null;
+    commitHistory(result.history);
+    writeCells(result.step.mode, stepValues(result.step, side));
+    return result.step.mode;
+  }, [commitHistory, writeCells]);
 
-      if (targetMode === 'plan') {
-        const updatedPlan = {
-          ...prev.planEntries,
-          [weekKey]: content
-        };
+  const undo = useCallback(() => replayStep(undoStep(historyRef.current), 'before'), [replayStep]);
 
-        if (!content.trim()) {
-          delete updatedPlan[weekKey];
-        }
+  const redo = useCallback(() => replayStep(redoStep(historyRef.current), 'after'), [replayStep]);
 
-        updatedData.planEntries = updatedPlan;
-        autoSaveToDatabase('plan', updatedPlan);
-      } else {
-        const updatedReality = {
-          ...prev.realityEntries,
-          [weekKey]: content
-        };
+  const resolveConflict = useCallback((mode: JournalMode, key: string, choice: 'mine' | 'theirs') => {
+    const conflict = outboxRef.current.conflicts[outboxKey(mode, key)];
+    if (!conflict) return;
 
-        if (!content.trim()) {
-          delete updatedReality[weekKey];
-        }
+    commitOutbox(resolveOutboxConflict(outboxRef.current, mode, key, choice));
+    const content = (choice === 'mine' ? conflict.mine : conflict.theirs) ?? '';
+    setJournalData(prev => applyLocalEdit(prev, mode, key, content));
 
-        updatedData.realityEntries = updatedReality;
-        autoSaveToDatabase('reality', updatedReality);
-      }
+    if (choice === 'mine' && isOnlineRef.current) {
+      flushOutbox().catch(() => { });
+    }
+  }, [commitOutbox, flushOutbox]);
 
-      return updatedData;
-    });
-  }, [autoSaveToDatabase]);
+  // Saves a past version of one day as a new snapshot, undone like an edit. It replaces any edit of that day still
+  // queued or in conflict, then the outbox replay re-reads the server so the baseline includes the restored value.
+  const restoreEntry = useCallback(async (date: Date, mode: JournalMode, content: string | null) => {
+    const dayKey = dateToDay(date, year);
+    const before = journalDataRef.current[mode === 'plan' ? 'planEntries' : 'realityEntries'][dayKey] ?? '';
+    const id = outboxKey(mode, dayKey);
+    const { [id]: edit, ...edits } = outboxRef.current.edits;
+    const { [id]: conflict, ...conflicts } = outboxRef.current.conflicts;
+    commitOutbox({ ...outboxRef.current, edits, conflicts });
+
+    try {
+      await journalAPI.saveSnapshot(mode, { [dayKey]: content }, year, { source: 'restore' });
+    } catch (error) {
+      // The restore did not happen, so the pending edit still stands unless the cell was edited again meanwhile
+      const current = outboxRef.current;
+      commitOutbox({
+        ...current,
+        edits: edit && !current.edits[id] ? { ...current.edits, [id]: edit } : current.edits,
+        conflicts: conflict && !current.conflicts[id] ? { ...current.conflicts, [id]: conflict } : current.conflicts,
+      });
+      throw error;
+    }
+    commitHistory(recordStep(historyRef.current, mode, { [dayKey]: { before, after: content ?? '' } }));
+    setJournalData(prev => applyLocalEdit(prev, mode, dayKey, content ?? ''));
+    flushOutbox().catch(() => { });
+  }, [year, commitOutbox, commitHistory, flushOutbox]);
+
+  const updateWeeklyEntry = updatePeriodEntry;
 
   const getCurrentEntries = useCallback((): JournalEntries => {
     return journalData.currentMode === 'plan'
@@ -313,10 +596,12 @@ export function useJournalData(year: number): UseJournalDataReturn {
     return entries[dayKey] || '';
   }, [journalData.planEntries, journalData.realityEntries, year]);
 
-  const getWeeklyEntry = useCallback((weekKey: string, mode: JournalMode): string => {
+  const getPeriodEntry = useCallback((periodKey: string, mode: JournalMode): string => {
     const entries = mode === 'plan' ? journalData.planEntries : journalData.realityEntries;
-    return entries[weekKey] || '';
+    return entries[periodKey] || '';
   }, [journalData.planEntries, journalData.realityEntries]);
+
+  const getWeeklyEntry = getPeriodEntry;
 
   const syncToDatabase = useCallback(async () => {
     if (!journalData.isOnline) {
@@ -324,23 +609,13 @@ export function useJournalData(year: number): UseJournalDataReturn {
     }
 
     try {
-      // Save both plan and reality to database
-      await Promise.all([
-        journalAPI.saveSnapshot('plan', journalData.planEntries, year),
-        journalAPI.saveSnapshot('reality', journalData.realityEntries, year)
-      ]);
-
-      setJournalData(prev => ({
-        ...prev,
-        lastSyncTimestamp: new Date()
-      }));
-
+      await flushOutbox();
       console.log('✅ Manual sync completed');
     } catch (error) {
       console.error('❌ Manual sync failed:', error);
       throw error;
     }
-  }, [journalData.isOnline, journalData.planEntries, journalData.realityEntries, year]);
+  }, [journalData.isOnline, flushOutbox]);
 
   const loadFromDatabase = useCallback(async () => {
     if (!journalData.isOnline) {
@@ -365,12 +640,23 @@ export function useJournalData(year: number): UseJournalDataReturn {
     currentMode: journalData.currentMode,
     isOnline: journalData.isOnline,
     lastSyncTimestamp: journalData.lastSyncTimestamp,
+    pendingCount: journalData.pendingCount,
+    conflicts: journalData.conflicts,
+    remoteUpdates,
+    undoAt: history.undo[history.undo.length - 1]?.at ?? null,
+    redoAt: history.redo[history.redo.length - 1]?.at ?? null,
     setCurrentMode,
     updateEntry,
     updateWeeklyEntry,
+    updatePeriodEntry,
+    undo,
+    redo,
+    resolveConflict,
+    restoreEntry,
     getCurrentEntries,
     getEntryForMode,
     getWeeklyEntry,
+    getPeriodEntry,
     syncToDatabase,
     loadFromDatabase
   };
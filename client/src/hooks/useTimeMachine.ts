@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useState } from 'react';
-import { journalAPI } from '@/lib/journalAPI';
+import { journalAPI, type TimeMachineComparison } from '@/lib/journalAPI';
 import type { JournalEntries } from '@/hooks/useJournalData';
 
 export interface TimeMachineState {
@@ -11,15 +11,28 @@ export interface TimeMachineState {
     plan_contents: JournalEntries;
     reality_contents: JournalEntries;
   } | null;
+  compareIndex: number;
+  comparison: TimeMachineComparison | null;
   loading: boolean;
   error: string | null;
 }
 
+// Snapshots carry every day column (null when empty); keep only the written days
+function compactEntries(contents: Record<string, string | null>): JournalEntries {
+  const out: JournalEntries = {};
+  for (const [key, value] of Object.entries(contents || {})) {
+    if (value) out[key] = value;
+  }
+  return out;
+}
+
 export function useTimeMachine(year: number) {
   const [state, setState] = useState<TimeMachineState>({
     timeline: [],
     selectedIndex: -1,
     snapshot: null,
+    compareIndex: -1,
+    comparison: null,
     loading: false,
     error: null,
   });
@@ -34,6 +47,15 @@ export function useTimeMachine(year: number) {
     }
   }, [year]);
 
+  // Saves from other sessions extend the timeline without moving the selected point
+  useEffect(() => journalAPI.subscribeToChanges((event) => {
+    if (event.year !== year) return;
+    setState((s) => {
+      const timeline = s.timeline.filter((entry) => new Date(entry.timestamp).toISOString() !== event.replaces_timestamp);
+      return { ...s, timeline: [...timeline, event.timeline as TimeMachineState['timeline'][number]] };
+    });
+  }), [year]);
+
   const loadSnapshotAt = useCallback(async (index: number) => {
     setState((s) => ({ ...s, loading: true, error: null, selectedIndex: index }));
     try {
@@ -44,12 +66,40 @@ export function useTimeMachine(year: number) {
       }
       const ts = tl[index].timestamp;
       const snap = await journalAPI.getTimeMachineSnapshot(year, ts);
-      setState((s) => ({ ...s, snapshot: snap, loading: false }));
+      setState((s) => ({
+        ...s,
+        snapshot: {
+          ...snap,
+          plan_contents: compactEntries(snap.plan_contents),
+          reality_contents: compactEntries(snap.reality_contents),
+        },
+        loading: false,
+      }));
     } catch (e: any) {
       setState((s) => ({ ...s, loading: false, error: e?.message ?? 'Failed to load snapshot' }));
     }
   }, [state.timeline, year]);
 
+  // Diff between two timeline points; `fromIndex` is the baseline, `toIndex` the later state
+  const loadComparison = useCallback(async (fromIndex: number, toIndex: number) => {
+    setState((s) => ({ ...s, compareIndex: fromIndex, error: null }));
+    try {
+      const tl = state.timeline;
+      if (fromIndex < 0 || fromIndex >= tl.length || toIndex < 0 || toIndex >= tl.length) {
+        setState((s) => ({ ...s, comparison: null }));
+        return;
+      }
+      const comparison = await journalAPI.compareTimeMachineSnapshots(year, tl[fromIndex].timestamp, tl[toIndex].timestamp);
+      setState((s) => ({ ...s, comparison }));
+    } catch (e: any) {
+      setState((s) => ({ ...s, error: e?.message ?? 'Failed to compare snapshots' }));
+    }
+  }, [state.timeline, year]);
+
+  const clearComparison = useCallback(() => {
+    setState((s) => ({ ...s, compareIndex: -1, comparison: null }));
+  }, []);
+
   useEffect(() => {
     loadTimeline();
   }, [loadTimeline]);
@@ -58,11 +108,13 @@ export function useTimeMachine(year: number) {
     if (state.timeline.length > 0 && state.selectedIndex >= 0) {
       loadSnapshotAt(state.selectedIndex);
     }
-  }, [state.timeline.length]);
+  }, [state.timeline]);
 
   return {
     ...state,
     reloadTimeline: loadTimeline,
     setIndex: loadSnapshotAt,
+    compare: loadComparison,
+    clearComparison,
   };
 }
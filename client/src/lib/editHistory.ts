@@ -0,0 +1,92 @@
+/**
+ * Edit History
+ *
+ * Undo and redo stacks for local journal edits, kept per year in sessionStorage so they survive a
+ * reload but not the end of the browser session. A step holds the before and after value of every
+ * cell one edit touched; keystrokes in the same cell shortly after each other collapse into one step.
+ */
+
+import type { JournalMode } from '@/hooks/useJournalData';
+
+export interface CellChange {
+  before: string; // Empty when the cell was blank
+  after: string;
+}
+
+export interface HistoryStep {
+  mode: JournalMode;
+  changes: Record<string, CellChange>; // day_XXX or period keys
+  at: number; // When the edit was made, or undone for a step on the redo stack
+}
+
+export interface EditHistory {
+  undo: HistoryStep[]; // Oldest first
+  redo: HistoryStep[];
+}
+
+// Keystrokes in one cell closer together than this undo as one step
+const TYPING_GROUP_MS = 1000;
+// Older steps fall off the bottom of the undo stack
+const MAX_STEPS = 200;
+
+const storageKey = (year: number) => `journal-history-${year}`;
+
+export function emptyHistory(): EditHistory {
+  return { undo: [], redo: [] };
+}
+
+export function loadHistory(year: number): EditHistory {
+  try {
+    const saved = sessionStorage.getItem(storageKey(year));
+    return saved ? { ...emptyHistory(), ...JSON.parse(saved) } : emptyHistory();
+  } catch (error) {
+    console.error('Failed to read edit history:', error);
+    return emptyHistory();
+  }
+}
+
+export function saveHistory(year: number, history: EditHistory): void {
+  sessionStorage.setItem(storageKey(year), JSON.stringify(history));
+}
+
+/**
+ * Pushes an edit onto the undo stack and clears the redo stack. Cells whose value did not change are
+ * left out; an edit that continues typing in the cell of the previous step extends that step instead.
+ */
+export function recordStep(history: EditHistory, mode: JournalMode, changes: Record<string, CellChange>, at = Date.now()): EditHistory {
+  const changed = Object.fromEntries(Object.entries(changes).filter(([, change]) => change.before !== change.after));
+  const keys = Object.keys(changed);
+  if (keys.length === 0) return history;
+
+  const last = history.undo[history.undo.length - 1];
+  const lastKeys = last ? Object.keys(last.changes) : [];
+  if (last && keys.length === 1 && lastKeys.length === 1 && lastKeys[0] === keys[0] && last.mode === mode && at - last.at < TYPING_GROUP_MS) {
+    const merged: HistoryStep = { mode, changes: { [keys[0]]: { before: last.changes[keys[0]].before, after: changed[keys[0]].after } }, at };
+    return { undo: [...history.undo.slice(0, -1), merged], redo: [] };
+  }
+
+  return { undo: [...history.undo, { mode, changes: changed, at }].slice(-MAX_STEPS), redo: [] };
+}
+
+/**
+ * Moves the latest step to the redo stack. Returns the step so the caller can write back its before values.
+ */
+export function undoStep(history: EditHistory, at = Date.now()): { history: EditHistory; step: HistoryStep } | null {
+  const step = history.undo[history.undo.length - 1];
+  if (!step) return null;
+  return { history: { undo: history.undo.slice(0, -1), redo: [...history.redo, { ...step, at }] }, step };
+}
+
+/**
+ * Moves the last undone step back to the undo stack. Returns the step so the caller can write back its after values.
+ */
+export function redoStep(history: EditHistory, at = Date.now()): { history: EditHistory; step: HistoryStep } | null {
+  const step = history.redo[history.redo.length - 1];
+  if (!step) return null;
+  return { history: { undo: [...history.undo, { ...step, at }], redo: history.redo.slice(0, -1) }, step };
+}
+
+// Cell values one side of a step sets
+export function stepValues(step: HistoryStep, side: keyof CellChange): Record<string, string> {
+  return Object.fromEntries(Object.entries(step.changes).map(([key, change]) => [key, change[side]]));
+}
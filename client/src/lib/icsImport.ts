@@ -0,0 +1,153 @@
+/**
+ * iCalendar Import Utilities
+ *
+ * Turns the events of an .ics file into plan cells: events are grouped by day and
+ * appended to whatever the day_XXX cell already holds.
+ */
+
+import { addDays, format } from 'date-fns';
+import { dateToDay, type JournalEntries } from '@/hooks/useJournalData';
+import type { ImportPreview } from '@/lib/journalAPI';
+
+export interface IcsEvent {
+  summary: string;
+  start: Date;
+  end: Date | null;
+  allDay: boolean;
+}
+
+// Multi-day all-day events are copied onto each day, up to this many
+const MAX_EVENT_DAYS = 31;
+
+/**
+ * Joins folded lines: a line starting with a space or tab continues the previous one
+ */
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([\\;,])/g, '$1');
+}
+
+/**
+ * Parses DATE (20250314) and DATE-TIME (20250314T093000, optionally with Z) values.
+ * Times with a TZID are read as local time; recurrence rules are not expanded.
+ */
+function parseIcsDate(value: string): { date: Date; allDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (!h) {
+    return { date: new Date(+y, +mo - 1, +d), allDay: true };
+  }
+  const date = utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  return { date, allDay: false };
+}
+
+export function parseIcsEvents(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+
+  unfoldLines(text).forEach((line) => {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      return;
+    }
+    if (line === 'END:VEVENT') {
+      if (current?.start && current.summary) {
+        events.push({ summary: current.summary, start: current.start, end: current.end ?? null, allDay: current.allDay ?? false });
+      }
+      current = null;
+      return;
+    }
+    if (!current) return;
+
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === 'SUMMARY') {
+      current.summary = unescapeText(value).trim();
+    } else if (name === 'DTSTART') {
+      const parsed = parseIcsDate(value);
+      if (parsed) {
+        current.start = parsed.date;
+        current.allDay = parsed.allDay;
+      }
+    } else if (name === 'DTEND') {
+      current.end = parseIcsDate(value)?.date ?? null;
+    }
+  });
+
+  return events;
+}
+
+// One line per event: all-day events as their summary, timed events prefixed with the start time
+function eventLine(event: IcsEvent): string {
+  return event.allDay ? event.summary : `${format(event.start, 'HH:mm')} ${event.summary}`;
+}
+
+/**
+ * Groups the events that fall in `year` into plan text keyed by day_XXX
+ */
+export function groupEventsByDay(events: IcsEvent[], year: number): JournalEntries {
+  const byDay = new Map<string, IcsEvent[]>();
+
+  events.forEach((event) => {
+    // DTEND is exclusive for all-day events, so a one-day event ends the next midnight
+    const days = event.allDay && event.end
+      ? Math.min(MAX_EVENT_DAYS, Math.max(1, Math.round((event.end.getTime() - event.start.getTime()) / (1000 * 60 * 60 * 24))))
+      : 1;
+
+    for (let i = 0; i < days; i++) {
+      const date = addDays(event.start, i);
+      if (date.getFullYear() !== year) continue;
+      const dayKey = dateToDay(date, year);
+      byDay.set(dayKey, [...(byDay.get(dayKey) ?? []), event]);
+    }
+  });
+
+  const grouped: JournalEntries = {};
+  byDay.forEach((dayEvents, dayKey) => {
+    const sorted = [...dayEvents].sort((a, b) =>
+      a.allDay === b.allDay ? a.start.getTime() - b.start.getTime() : a.allDay ? -1 : 1
+    );
+    grouped[dayKey] = sorted.map(eventLine).join('\n');
+  });
+  return grouped;
+}
+
+/**
+ * Appends each day's event lines to the existing plan text, skipping lines the cell already has.
+ * Returns only the cells that change, plus a preview in the same shape as server imports.
+ */
+export function mergeEventsIntoPlan(
+  planEntries: JournalEntries,
+  eventsByDay: JournalEntries
+): { changes: JournalEntries; preview: ImportPreview } {
+  const changes: JournalEntries = {};
+  const preview: ImportPreview = { imported: 0, overwritten: [], added: [] };
+
+  Object.keys(eventsByDay).sort().forEach((dayKey) => {
+    const before = planEntries[dayKey]?.trim() ?? '';
+    const existingLines = new Set(before.split('\n').map((line) => line.trim()));
+    const newLines = eventsByDay[dayKey].split('\n').filter((line) => !existingLines.has(line.trim()));
+    preview.imported += 1;
+    if (newLines.length === 0) return;
+
+    const after = before ? `${before}\n${newLines.join('\n')}` : newLines.join('\n');
+    changes[dayKey] = after;
+    if (before) {
+      preview.overwritten.push({ day: dayKey, before, after, status: 'modified' });
+    } else {
+      preview.added.push({ day: dayKey, before: null, after, status: 'added' });
+    }
+  });
+
+  return { changes, preview };
+}
@@ -1,5 +1,8 @@
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, refreshSession } from '@/lib/queryClient';
 import type { JournalMode, JournalEntries } from '@/hooks/useJournalData';
+import type { DayDiff, DeltaResult, MatrixDelta, TimeMachineComparison } from '@shared/schema';
+
+export type { CellDelta, DayDiff, DayDiffStatus, DeltaResult, MatrixDelta, TimeMachineComparison } from '@shared/schema';
 
 // Types for API communication - now aligned with database structure
 export interface JournalSnapshot {
@@ -7,7 +10,7 @@ export interface JournalSnapshot {
   user_id: string;
   snapshot_timestamp: Date;
   year: number;
-  day_contents: JournalEntries; // Now directly uses day_XXX format
+  day_contents: Record<string, string | null>; // day_XXX format; null clears a cell when saving
   metadata?: Record<string, any>;
 }
 
@@ -23,14 +26,167 @@ export interface DailySnapshot {
   completion_rate?: number;
 }
 
+// One value a single cell has held; content is null where it was cleared
+export interface CellRevision {
+  revision: number;
+  content: string | null;
+  timestamp: string; // When the snapshot that wrote it was saved
+}
+
+// plan / reality list one row per snapshot; comparison interleaves both
+export type CsvExportVariant = 'plan' | 'reality' | 'comparison';
+
+// What the sidebar can download: one of the CSV variants or the Markdown vault zip
+export type ExportKind = CsvExportVariant | 'markdown';
+
+export interface CalendarFeed {
+  token: string;
+  url: string; // Plan events only
+  url_with_reality: string;
+}
+
+export type ShareMode = JournalMode | 'both';
+
+export interface ShareLinkRequest {
+  year: number;
+  start_day?: number; // Day numbers of the year; omit for the whole year
+  end_day?: number;
+  mode: ShareMode;
+  expires_in_days?: number; // Omit for a link that lasts until revoked
+}
+
+export interface ShareLink {
+  id: number;
+  token: string;
+  year: number;
+  start_day: number | null;
+  end_day: number | null;
+  mode: ShareMode;
+  expires_at: string | null;
+  created_at: string;
+}
+
+// What a share link shows; contents are null for the mode it does not share
+export interface SharedJournal {
+  year: number;
+  start_day: number;
+  end_day: number;
+  mode: ShareMode;
+  owner: string | null;
+  expires_at: string | null;
+  plan_contents: JournalEntries | null;
+  reality_contents: JournalEntries | null;
+}
+
+// A signed-in device
+export interface AuthSession {
+  id: string;
+  device: string; // e.g. "Chrome on macOS"
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean; // The session making the request
+}
+
+export type TeamRole = 'owner' | 'editor' | 'viewer';
+
+export interface Team {
+  id: number;
+  name: string;
+  role: TeamRole; // The signed-in user's role
+  created_at: string;
+}
+
+export interface TeamMember {
+  user_id: string;
+  name: string;
+  email: string;
+  role: TeamRole;
+  joined_at: string;
+}
+
+// Nobody joins until the invitee accepts; team_name is only set on the invitee's own list
+export interface TeamInvitation {
+  id: number;
+  team_id: number;
+  team_name?: string;
+  email: string;
+  role: TeamRole;
+  created_at: string;
+}
+
+// Latest plan and reality of each owner and editor; viewers only read
+export interface TeamJournal {
+  team: Team;
+  year: number;
+  members: (TeamMember & { plan_contents: JournalEntries; reality_contents: JournalEntries })[];
+}
+
+export interface ImportRequest {
+  format: 'csv' | 'json';
+  type?: JournalMode; // Only needed when a CSV header does not say
+  data: string;
+  dry_run: boolean;
+}
+
+export interface ImportPreview {
+  imported: number;
+  overwritten: DayDiff[];
+  added: DayDiff[];
+}
+
+export interface ImportResult {
+  year: number;
+  dry_run: boolean;
+  plan: ImportPreview | null;
+  reality: ImportPreview | null;
+}
+
+// Pushed over /api/events when another tab or device of the same user saves
+export interface JournalChangeEvent {
+  year: number;
+  entry_type: JournalMode;
+  cells: Record<string, string | null>; // Changed cells only; null means cleared
+  timeline: { timestamp: string; [key: string]: any };
+  replaces_timestamp: string | null; // Timeline entry this one supersedes, when an editing session was extended
+  origin: string | null;
+}
+
+// Rows come back from the server in camelCase with a null for every empty day column
+function compactContents(contents: Record<string, string | null> | undefined): JournalEntries {
+  const out: JournalEntries = {};
+  for (const [key, value] of Object.entries(contents || {})) {
+    if (value) out[key] = value;
+  }
+  return out;
+}
+
+function normalizeDailySnapshot(row: Record<string, any>): DailySnapshot {
+  return {
+    id: row.id,
+    user_id: row.user_id ?? row.userId,
+    snapshot_date: row.snapshot_date ?? row.snapshotDate,
+    year: row.year,
+    latest_plan_contents: compactContents(row.latest_plan_contents ?? row.latestPlanContents),
+    latest_reality_contents: compactContents(row.latest_reality_contents ?? row.latestRealityContents),
+    plan_last_updated: row.plan_last_updated ?? row.planLastUpdated ?? null,
+    reality_last_updated: row.reality_last_updated ?? row.realityLastUpdated ?? null,
+    completion_rate: row.completion_rate ?? row.completionRate,
+  };
+}
+
 export class JournalAPI {
   private static instance: JournalAPI;
-  private userId: string = 'default-user'; // In a real app, this would come from auth
+  private currentUserId: string | null = null; // Set by AuthProvider once /api/auth/me answers
   // Backend server URL; configurable via Vite env for local differences (e.g., 5000/5001)
   private baseURL: string = (import.meta as any)?.env?.VITE_API_BASE_URL ||
     (typeof window !== 'undefined'
       ? `${window.location.protocol}//${window.location.hostname}:5001`
       : 'http://localhost:5001');
+  // Identifies this tab on writes so its own changes are not replayed to it over the event stream
+  readonly clientId: string = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  private changeListeners = new Set<(event: JournalChangeEvent) => void>();
+  private eventSource: EventSource | null = null;
 
   static getInstance(): JournalAPI {
     if (!JournalAPI.instance) {
@@ -39,7 +195,19 @@ export class JournalAPI {
     return JournalAPI.instance;
   }
 
-  async saveSnapshot(mode: JournalMode, entries: JournalEntries, year: number): Promise<JournalSnapshot> {
+  setUserId(userId: string | null): void {
+    this.currentUserId = userId;
+  }
+
+  // Read routes are scoped to the signed-in user; the server rejects any other id
+  private get userId(): string {
+    if (!this.currentUserId) {
+      throw new Error('Not signed in');
+    }
+    return this.currentUserId;
+  }
+
+  async saveSnapshot(mode: JournalMode, entries: Record<string, string | null>, year: number, metadata: Record<string, any> = {}): Promise<JournalSnapshot> {
     const endpoint = mode === 'plan' ? '/api/matrix/plan' : '/api/matrix/reality';
 
     const snapshot: Partial<JournalSnapshot> = {
@@ -50,7 +218,9 @@ export class JournalAPI {
       metadata: {
         mode,
         entry_count: Object.keys(entries).length,
-        saved_at: new Date().toISOString()
+        saved_at: new Date().toISOString(),
+        client_id: this.clientId,
+        ...metadata // e.g. { source: 'import' } so the timeline labels the snapshot as an import
       }
     };
 
@@ -65,14 +235,66 @@ export class JournalAPI {
     }
   }
 
+  // Sends changed cells only; the server applies those whose base still matches and returns the rest as conflicts
+  async patchSnapshot(mode: JournalMode, changes: MatrixDelta, year: number): Promise<DeltaResult> {
+    const endpoint = mode === 'plan' ? '/api/matrix/plan' : '/api/matrix/reality';
+
+    try {
+      const response = await apiRequest('PATCH', `${this.baseURL}${endpoint}`, { year, changes, client_id: this.clientId });
+      const result: DeltaResult = await response.json();
+      console.log(`✅ Patched ${result.applied.length} ${mode} cells`);
+      return result;
+    } catch (error) {
+      console.error(`❌ Failed to patch ${mode} cells:`, error);
+      throw error;
+    }
+  }
+
+  // One event stream is shared by every subscriber and closed when the last one leaves
+  subscribeToChanges(listener: (event: JournalChangeEvent) => void): () => void {
+    this.changeListeners.add(listener);
+
+    if (!this.eventSource && typeof EventSource !== 'undefined') {
+      this.openEventStream();
+    }
+
+    return () => {
+      this.changeListeners.delete(listener);
+      if (this.changeListeners.size === 0 && this.eventSource) {
+        this.eventSource.close();
+        this.eventSource = null;
+      }
+    };
+  }
+
+  private openEventStream() {
+    const source = new EventSource(`${this.baseURL}/api/events`, { withCredentials: true });
+    this.eventSource = source;
+
+    source.addEventListener('journal-change', (message) => {
+      const event: JournalChangeEvent = JSON.parse((message as MessageEvent).data);
+      if (event.origin === this.clientId) return;
+      this.changeListeners.forEach((notify) => notify(event));
+    });
+
+    // The browser retries dropped connections itself but gives up on a 401, which is what an
+    // expired access token gets on reconnect: renew it and open a new stream
+    source.addEventListener('error', async () => {
+      if (source.readyState !== EventSource.CLOSED || this.eventSource !== source) return;
+      this.eventSource = null;
+      if (await refreshSession() && this.changeListeners.size > 0 && !this.eventSource) {
+        this.openEventStream();
+      }
+    });
+  }
+
   async getDailySnapshot(year: number): Promise<DailySnapshot | null> {
     try {
       const response = await apiRequest('GET', `${this.baseURL}/api/matrix/${this.userId}/${year}/daily`);
       const result = await response.json();
 
       if (result) {
-        // Direct pass-through - no conversion needed!
-        return result;
+        return normalizeDailySnapshot(result);
       }
       return null;
     } catch (error) {
@@ -99,6 +321,17 @@ export class JournalAPI {
     }
   }
 
+  // Oldest first
+  async getCellRevisions(mode: JournalMode, year: number, dayKey: string): Promise<CellRevision[]> {
+    try {
+      const response = await apiRequest('GET', `${this.baseURL}/api/matrix/${this.userId}/${year}/${mode}/${dayKey}/revisions`);
+      return await response.json();
+    } catch (error) {
+      console.error(`❌ Failed to get ${mode} revisions of ${dayKey}:`, error);
+      throw error;
+    }
+  }
+
   async getTimeline(year: number): Promise<any[]> {
     try {
       const response = await apiRequest('GET', `${this.baseURL}/api/timemachine/${this.userId}/${year}/timeline`);
@@ -125,16 +358,29 @@ export class JournalAPI {
     }
   }
 
-  async exportData(year: number, format: 'json' | 'csv' = 'json'): Promise<any> {
+  async compareTimeMachineSnapshots(year: number, from: string, to: string): Promise<TimeMachineComparison> {
+    try {
+      const params = new URLSearchParams({ from, to });
+      const response = await apiRequest('GET', `${this.baseURL}/api/timemachine/${this.userId}/${year}/compare?${params.toString()}`);
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to compare time machine snapshots:', error);
+      throw error;
+    }
+  }
+
+  async exportData(year: number, format: 'json' | 'csv' | 'markdown' = 'json', variant: CsvExportVariant = 'plan'): Promise<any> {
     try {
       const endpoint = format === 'csv'
-        ? `/api/export/${this.userId}/${year}/matrix-csv`
-        : `/api/export/${this.userId}/${year}`;
+        ? `/api/export/${this.userId}/${year}?format=csv&variant=${variant}`
+        : `/api/export/${this.userId}/${year}${format === 'markdown' ? '?format=markdown' : ''}`;
 
       const response = await apiRequest('GET', `${this.baseURL}${endpoint}`);
 
       if (format === 'csv') {
         return await response.text();
+      } else if (format === 'markdown') {
+        return await response.blob(); // Zip of daily and weekly notes
       } else {
         return await response.json();
       }
@@ -144,6 +390,218 @@ export class JournalAPI {
     }
   }
 
+  async importData(year: number, request: ImportRequest): Promise<ImportResult> {
+    try {
+      const response = await apiRequest('POST', `${this.baseURL}/api/import/${year}`, request);
+      const result = await response.json();
+      console.log(request.dry_run ? '🔍 Previewed import' : '📥 Imported data', result);
+      return result;
+    } catch (error) {
+      console.error('❌ Failed to import data:', error);
+      throw error;
+    }
+  }
+
+  async getCalendarFeed(rotate = false): Promise<CalendarFeed> {
+    try {
+      const response = rotate
+        ? await apiRequest('POST', `${this.baseURL}/api/calendar/feed/rotate`)
+        : await apiRequest('GET', `${this.baseURL}/api/calendar/feed`);
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to fetch calendar feed:', error);
+      throw error;
+    }
+  }
+
+  async getShareLinks(): Promise<ShareLink[]> {
+    try {
+      const response = await apiRequest('GET', `${this.baseURL}/api/share`);
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to fetch share links:', error);
+      throw error;
+    }
+  }
+
+  async createShareLink(request: ShareLinkRequest): Promise<ShareLink> {
+    try {
+      const response = await apiRequest('POST', `${this.baseURL}/api/share`, request);
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to create share link:', error);
+      throw error;
+    }
+  }
+
+  async revokeShareLink(id: number): Promise<void> {
+    try {
+      await apiRequest('DELETE', `${this.baseURL}/api/share/${id}`);
+    } catch (error) {
+      console.error('❌ Failed to revoke share link:', error);
+      throw error;
+    }
+  }
+
+  // Public: works without signing in, the token is the credential
+  async getSharedJournal(token: string): Promise<SharedJournal> {
+    const response = await apiRequest('GET', `${this.baseURL}/api/share/${encodeURIComponent(token)}/view`);
+    return await response.json();
+  }
+
+  // Share pages are served by the client app, not the API server
+  shareUrl(token: string): string {
+    return `${window.location.origin}/share/${token}`;
+  }
+
+  async getSessions(): Promise<AuthSession[]> {
+    try {
+      const response = await apiRequest('GET', `${this.baseURL}/api/auth/sessions`);
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to fetch sessions:', error);
+      throw error;
+    }
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    try {
+      await apiRequest('DELETE', `${this.baseURL}/api/auth/sessions/${id}`);
+    } catch (error) {
+      console.error('❌ Failed to revoke session:', error);
+      throw error;
+    }
+  }
+
+  // Signs this device out as well
+  async revokeAllSessions(): Promise<void> {
+    try {
+      await apiRequest('DELETE', `${this.baseURL}/api/auth/sessions`);
+    } catch (error) {
+      console.error('❌ Failed to revoke sessions:', error);
+      throw error;
+    }
+  }
+
+  async getTeams(): Promise<Team[]> {
+    try {
+      const response = await apiRequest('GET', `${this.baseURL}/api/teams`);
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to fetch teams:', error);
+      throw error;
+    }
+  }
+
+  async createTeam(name: string): Promise<Team> {
+    try {
+      const response = await apiRequest('POST', `${this.baseURL}/api/teams`, { name });
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to create team:', error);
+      throw error;
+    }
+  }
+
+  async getTeamMembers(teamId: number): Promise<TeamMember[]> {
+    try {
+      const response = await apiRequest('GET', `${this.baseURL}/api/teams/${teamId}/members`);
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to fetch team members:', error);
+      throw error;
+    }
+  }
+
+  async getTeamInvitations(teamId: number): Promise<TeamInvitation[]> {
+    try {
+      const response = await apiRequest('GET', `${this.baseURL}/api/teams/${teamId}/invitations`);
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to fetch team invitations:', error);
+      throw error;
+    }
+  }
+
+  async inviteTeamMember(teamId: number, email: string, role: TeamRole): Promise<TeamInvitation> {
+    try {
+      const response = await apiRequest('POST', `${this.baseURL}/api/teams/${teamId}/invitations`, { email, role });
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to invite team member:', error);
+      throw error;
+    }
+  }
+
+  async cancelTeamInvitation(teamId: number, invitationId: number): Promise<void> {
+    try {
+      await apiRequest('DELETE', `${this.baseURL}/api/teams/${teamId}/invitations/${invitationId}`);
+    } catch (error) {
+      console.error('❌ Failed to cancel team invitation:', error);
+      throw error;
+    }
+  }
+
+  // Invitations addressed to the signed-in user's email
+  async getMyInvitations(): Promise<TeamInvitation[]> {
+    try {
+      const response = await apiRequest('GET', `${this.baseURL}/api/team-invitations`);
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to fetch invitations:', error);
+      throw error;
+    }
+  }
+
+  async acceptInvitation(invitationId: number): Promise<Team> {
+    try {
+      const response = await apiRequest('POST', `${this.baseURL}/api/team-invitations/${invitationId}/accept`);
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to accept invitation:', error);
+      throw error;
+    }
+  }
+
+  async declineInvitation(invitationId: number): Promise<void> {
+    try {
+      await apiRequest('DELETE', `${this.baseURL}/api/team-invitations/${invitationId}`);
+    } catch (error) {
+      console.error('❌ Failed to decline invitation:', error);
+      throw error;
+    }
+  }
+
+  async updateTeamMemberRole(teamId: number, userId: string, role: TeamRole): Promise<TeamMember> {
+    try {
+      const response = await apiRequest('PATCH', `${this.baseURL}/api/teams/${teamId}/members/${userId}`, { role });
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to update team member:', error);
+      throw error;
+    }
+  }
+
+  // Owners remove anyone; every member can remove themselves to leave
+  async removeTeamMember(teamId: number, userId: string): Promise<void> {
+    try {
+      await apiRequest('DELETE', `${this.baseURL}/api/teams/${teamId}/members/${userId}`);
+    } catch (error) {
+      console.error('❌ Failed to remove team member:', error);
+      throw error;
+    }
+  }
+
+  async getTeamJournal(teamId: number, year: number): Promise<TeamJournal> {
+    try {
+      const response = await apiRequest('GET', `${this.baseURL}/api/teams/${teamId}/journal/${year}`);
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to fetch team journal:', error);
+      throw error;
+    }
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       const response = await apiRequest('GET', `${this.baseURL}/api/health`);
@@ -0,0 +1,187 @@
+/**
+ * Sync Outbox
+ *
+ * Persistent queue of per-cell edits that have not reached the server yet. Each edit keeps the
+ * server value it was based on, so replaying it later can be merged three ways against whatever
+ * the server holds by then instead of overwriting it.
+ */
+
+import type { JournalEntries, JournalMode } from '@/hooks/useJournalData';
+import type { DailySnapshot, MatrixDelta } from '@/lib/journalAPI';
+
+export interface PendingEdit {
+  mode: JournalMode;
+  key: string; // day_XXX or a period key
+  base: string | null; // Server value when the cell was first edited offline
+  content: string | null;
+  editedAt: string;
+}
+
+export interface SyncConflict {
+  mode: JournalMode;
+  key: string;
+  base: string | null;
+  mine: string | null;
+  theirs: string | null;
+}
+
+// Last server state this device synced with
+export interface SyncBaseline {
+  plan: JournalEntries;
+  reality: JournalEntries;
+  planLastUpdated: string | null;
+  realityLastUpdated: string | null;
+}
+
+export interface OutboxState {
+  edits: Record<string, PendingEdit>;
+  conflicts: Record<string, SyncConflict>;
+  baseline: SyncBaseline;
+}
+
+export interface ReplayPlan {
+  push: Record<JournalMode, MatrixDelta>; // Based on the server values just read, which the server checks again
+  settled: string[]; // Edits the server already agrees with
+  conflicts: SyncConflict[];
+}
+
+const storageKey = (year: number) => `journal-outbox-${year}`;
+
+export const outboxKey = (mode: JournalMode, key: string) => `${mode}:${key}`;
+
+export function emptyOutbox(): OutboxState {
+  return {
+    edits: {},
+    conflicts: {},
+    baseline: { plan: {}, reality: {}, planLastUpdated: null, realityLastUpdated: null },
+  };
+}
+
+export function loadOutbox(year: number): OutboxState {
+  try {
+    const saved = localStorage.getItem(storageKey(year));
+    return saved ? { ...emptyOutbox(), ...JSON.parse(saved) } : emptyOutbox();
+  } catch (error) {
+    console.error('Failed to read sync outbox:', error);
+    return emptyOutbox();
+  }
+}
+
+export function saveOutbox(year: number, state: OutboxState): void {
+  localStorage.setItem(storageKey(year), JSON.stringify(state));
+}
+
+const toIsoString = (value?: Date | string | null) => value ? new Date(value).toISOString() : null;
+
+export function baselineFromSnapshot(snapshot: DailySnapshot | null): SyncBaseline {
+  return {
+    plan: snapshot?.latest_plan_contents ?? {},
+    reality: snapshot?.latest_reality_contents ?? {},
+    planLastUpdated: toIsoString(snapshot?.plan_last_updated),
+    realityLastUpdated: toIsoString(snapshot?.reality_last_updated),
+  };
+}
+
+/**
+ * Queues an edit. Repeated edits to one cell collapse into one, keeping the original base.
+ * Editing a cell that is in conflict only updates our side of the conflict until it is resolved.
+ */
+export function recordEdit(state: OutboxState, mode: JournalMode, key: string, content: string): OutboxState {
+  const id = outboxKey(mode, key);
+  const value = content.trim() ? content : null;
+
+  const conflict = state.conflicts[id];
+  if (conflict) {
+    return { ...state, conflicts: { ...state.conflicts, [id]: { ...conflict, mine: value } } };
+  }
+
+  const existing = state.edits[id];
+  const base = existing ? existing.base : state.baseline[mode][key] ?? null;
+  const edits = { ...state.edits };
+  if (value === base) {
+    delete edits[id]; // Edited back to what the server has
+  } else {
+    edits[id] = { mode, key, base, content: value, editedAt: new Date().toISOString() };
+  }
+  return { ...state, edits };
+}
+
+/**
+ * Three-way merge of one edit against the server's current value
+ */
+export function mergeEdit(edit: PendingEdit, theirs: string | null): 'push' | 'settled' | 'conflict' {
+  if (theirs === edit.content) return 'settled';
+  if (theirs === edit.base) return 'push';
+  return 'conflict';
+}
+
+/**
+ * Decides what to do with every pending edit given the server's latest contents. When a mode's
+ * last-updated time still matches the baseline nobody else wrote to it, so its edits go straight through.
+ */
+export function planReplay(state: OutboxState, server: SyncBaseline): ReplayPlan {
+  const plan: ReplayPlan = { push: { plan: {}, reality: {} }, settled: [], conflicts: [] };
+  const unchanged: Record<JournalMode, boolean> = {
+    plan: server.planLastUpdated !== null && server.planLastUpdated === state.baseline.planLastUpdated,
+    reality: server.realityLastUpdated !== null && server.realityLastUpdated === state.baseline.realityLastUpdated,
+  };
+
+  Object.entries(state.edits).forEach(([id, edit]) => {
+    const theirs = server[edit.mode][edit.key] ?? null;
+    const outcome = unchanged[edit.mode] ? 'push' : mergeEdit(edit, theirs);
+
+    if (outcome === 'push') {
+      plan.push[edit.mode][edit.key] = { base: theirs, content: edit.content };
+    } else if (outcome === 'settled') {
+      plan.settled.push(id);
+    } else {
+      plan.conflicts.push({ mode: edit.mode, key: edit.key, base: edit.base, mine: edit.content, theirs });
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Settles a conflict. Keeping ours re-queues it against the server value we just saw,
+ * so it is pushed on the next replay unless the server moves again.
+ */
+export function resolveConflict(state: OutboxState, mode: JournalMode, key: string, choice: 'mine' | 'theirs'): OutboxState {
+  const id = outboxKey(mode, key);
+  const conflict = state.conflicts[id];
+  if (!conflict) return state;
+
+  const conflicts = { ...state.conflicts };
+  delete conflicts[id];
+  const edits = { ...state.edits };
+  if (choice === 'mine' && conflict.mine !== conflict.theirs) {
+    edits[id] = { mode, key, base: conflict.theirs, content: conflict.mine, editedAt: new Date().toISOString() };
+  }
+  return { ...state, edits, conflicts };
+}
+
+/**
+ * Local view of a mode: server contents with unsynced and conflicting edits laid on top
+ */
+export function overlayPending(server: JournalEntries, state: OutboxState, mode: JournalMode): JournalEntries {
+  const entries: JournalEntries = { ...server };
+  const apply = (key: string, value: string | null) => {
+    if (value) {
+      entries[key] = value;
+    } else {
+      delete entries[key];
+    }
+  };
+
+  Object.values(state.conflicts).forEach((conflict) => {
+    if (conflict.mode === mode) apply(conflict.key, conflict.mine);
+  });
+  Object.values(state.edits).forEach((edit) => {
+    if (edit.mode === mode) apply(edit.key, edit.content);
+  });
+  return entries;
+}
+
+export function hasPendingEdits(state: OutboxState): boolean {
+  return Object.keys(state.edits).length > 0;
+}
@@ -0,0 +1,66 @@
+/**
+ * Word Diff Utilities
+ *
+ * Word-level diffing for journal text, used to highlight edits between two versions of a day.
+ */
+
+export type WordDiffType = 'added' | 'removed' | 'unchanged';
+
+export interface WordDiffPart {
+  value: string;
+  type: WordDiffType;
+}
+
+/**
+ * Splits text into words and the whitespace between them, so a diff can be rendered back verbatim
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token.length > 0);
+}
+
+/**
+ * Computes a word-level diff using a longest-common-subsequence table.
+ * Adjacent parts of the same type are merged.
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  const push = (value: string, type: WordDiffType) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ value, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'unchanged');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i], 'removed');
+      i++;
+    } else {
+      push(b[j], 'added');
+      j++;
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+
+  return parts;
+}
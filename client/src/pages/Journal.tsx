@@ -1,18 +1,29 @@
-import { useState, useEffect } from 'react';
-import { startOfYear, format } from 'date-fns';
-import JournalGrid from '@/components/JournalGrid';
+import { useState, useEffect, useMemo } from 'react';
+import { startOfYear, format, addDays, setYear } from 'date-fns';
+import JournalGrid, { type TeamMemberEntries } from '@/components/JournalGrid';
 import CollapsibleSidebar from '@/components/CollapsibleSidebar';
 import { Button } from '@/components/ui/button';
-import { Moon, Sun, BookOpen, ChevronRight, ChevronLeft, Target, CheckCircle } from 'lucide-react';
-import { useJournalData, type JournalMode } from '@/hooks/useJournalData';
+import { Moon, Sun, BookOpen, ChevronRight, ChevronLeft, Target, CheckCircle, Undo2, Redo2 } from 'lucide-react';
+import { useJournalData, mergeFollowingYearEntries, type JournalMode } from '@/hooks/useJournalData';
 import { useTimeMachine } from '@/hooks/useTimeMachine';
 import TimeMachineBar from '@/components/TimeMachineBar';
+import ImportDialog from '@/components/ImportDialog';
+import ShareDialog from '@/components/ShareDialog';
+import TeamsDialog from '@/components/TeamsDialog';
+import SessionsDialog from '@/components/SessionsDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import SyncConflictsBanner from '@/components/SyncConflictsBanner';
+import { useToast } from '@/hooks/use-toast';
+import { journalAPI, type DayDiff, type ExportKind, type Team } from '@/lib/journalAPI';
+import { daysInYear, formatDayKey, getPeriodKeyYear, parseDayKey } from '@shared/calendar';
 
 export default function Journal() {
   const [visibleBlocks, setVisibleBlocks] = useState(30);
   const [startDate, setStartDate] = useState(startOfYear(new Date()));
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
-  const currentYear = new Date().getFullYear();
+  // The selected year follows the start of the visible window
+  const currentYear = startDate.getFullYear();
+  const followingYear = currentYear + 1;
 
   // Fix type mismatch by using any for now or defining correct interface
   interface JournalProps {
@@ -25,21 +36,172 @@ export default function Journal() {
     currentMode,
     isOnline,
     lastSyncTimestamp,
+    pendingCount,
+    conflicts,
+    remoteUpdates,
+    undoAt,
+    redoAt,
+    undo,
+    redo,
+    resolveConflict,
+    restoreEntry,
     setCurrentMode,
     updateEntry,
-    updateWeeklyEntry,
-    getCurrentEntries,
+    updatePeriodEntry,
     getEntryForMode,
     syncToDatabase,
     loadFromDatabase
   } = useJournalData(currentYear);
 
+  // The following year is loaded only while a window starting in late December runs into January;
+  // once the window leaves it again, its last loaded state no longer counts towards syncing or undo
+  const spansYearBoundary = addDays(startDate, Math.max(visibleBlocks - 1, 0)).getFullYear() > currentYear;
+  const followingYearJournal = useJournalData(followingYear, { enabled: spansYearBoundary });
+  const followingYearData = spansYearBoundary
+    ? followingYearJournal
+    : { ...followingYearJournal, pendingCount: 0, conflicts: [], undoAt: null, redoAt: null };
+
+  const changeYear = (year: number) => {
+    setStartDate(setYear(startDate, year));
+  };
+
+  const setModeForAllYears = (mode: JournalMode) => {
+    setCurrentMode(mode);
+    followingYearData.setCurrentMode(mode);
+  };
+
+  // Route edits to the hook that owns the year of the edited day or period
+  const updateEntryForDate = (date: Date, content: string) => {
+    if (date.getFullYear() === followingYear) {
+      followingYearData.updateEntry(date, content);
+    } else {
+      updateEntry(date, content);
+    }
+  };
+
+  const updatePeriodEntryForKey = (periodKey: string, content: string) => {
+    if (getPeriodKeyYear(periodKey) === followingYear) {
+      followingYearData.updatePeriodEntry(periodKey, content);
+    } else {
+      updatePeriodEntry(periodKey, content);
+    }
+  };
+
+  const spannedPlanEntries = useMemo(
+    () => spansYearBoundary ? mergeFollowingYearEntries(planEntries, followingYearData.planEntries, currentYear) : planEntries,
+    [spansYearBoundary, planEntries, followingYearData.planEntries, currentYear]
+  );
+  const spannedRealityEntries = useMemo(
+    () => spansYearBoundary ? mergeFollowingYearEntries(realityEntries, followingYearData.realityEntries, currentYear) : realityEntries,
+    [spansYearBoundary, realityEntries, followingYearData.realityEntries, currentYear]
+  );
+
+  // Cells another session just changed, keyed like the grid: following-year days continue past the year's end
+  const remoteUpdatedDays = useMemo(() => {
+    const keys = new Set(remoteUpdates[currentMode]);
+    if (spansYearBoundary) {
+      followingYearData.remoteUpdates[currentMode].forEach((key) => {
+        const dayNumber = parseDayKey(key);
+        if (dayNumber !== null) keys.add(formatDayKey(dayNumber + daysInYear(currentYear)));
+      });
+    }
+    return keys;
+  }, [remoteUpdates, followingYearData.remoteUpdates, currentMode, spansYearBoundary, currentYear]);
+
+  // Both years keep their own history; undo and redo act on whichever holds the latest step
+  const canUndo = undoAt !== null || followingYearData.undoAt !== null;
+  const canRedo = redoAt !== null || followingYearData.redoAt !== null;
+
+  const undoLatest = () => {
+    const mode = (followingYearData.undoAt ?? -1) > (undoAt ?? -1) ? followingYearData.undo() : undo();
+    if (mode && mode !== currentMode) setModeForAllYears(mode); // Show the mode that changed
+  };
+
+  const redoLatest = () => {
+    const mode = (followingYearData.redoAt ?? -1) > (redoAt ?? -1) ? followingYearData.redo() : redo();
+    if (mode && mode !== currentMode) setModeForAllYears(mode);
+  };
+
   // Time Machine state
   const [isTimeMachine, setIsTimeMachine] = useState(false);
   const tm = useTimeMachine(currentYear);
   const [compareMode, setCompareMode] = useState(false);
   const [weeklyLayout, setWeeklyLayout] = useState(false);
 
+  const [isDiffMode, setIsDiffMode] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const { logout } = useAuth();
+
+  // Team view: read-only rows of every contributing member for the selected year
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [activeTeamId, setActiveTeamId] = useState<number | null>(null);
+  const [teamMembers, setTeamMembers] = useState<TeamMemberEntries[] | null>(null);
+  const [isTeamsOpen, setIsTeamsOpen] = useState(false);
+  const isTeamView = activeTeamId !== null && !isTimeMachine;
+
+  const loadTeams = () => {
+    journalAPI.getTeams()
+      .then((list) => {
+        setTeams(list);
+        if (activeTeamId !== null && !list.some((team) => team.id === activeTeamId)) setActiveTeamId(null);
+      })
+      .catch((error) => console.error('Failed to load teams:', error));
+  };
+
+  useEffect(() => {
+    if (isOnline) loadTeams();
+  }, [isOnline]);
+
+  useEffect(() => {
+    if (activeTeamId === null) {
+      setTeamMembers(null);
+      return;
+    }
+    journalAPI.getTeamJournal(activeTeamId, currentYear)
+      .then((journal) => setTeamMembers(journal.members.map((member) => ({
+        userId: member.user_id,
+        name: member.name,
+        planEntries: member.plan_contents,
+        realityEntries: member.reality_contents,
+      }))))
+      .catch((error) => {
+        console.error('Failed to load team journal:', error);
+        setTeamMembers(null);
+      });
+  }, [activeTeamId, currentYear]);
+
+  // Refresh the timeline whenever the Time Machine opens so recent saves are scrubbable
+  useEffect(() => {
+    if (isTimeMachine) {
+      tm.reloadTimeline();
+    } else {
+      setIsDiffMode(false);
+    }
+  }, [isTimeMachine]);
+
+  // Keep the diff in sync with both sliders while diff mode is on
+  useEffect(() => {
+    if (!isDiffMode) {
+      tm.clearComparison();
+      return;
+    }
+    const fromIndex = tm.compareIndex >= 0 ? tm.compareIndex : Math.max(0, tm.selectedIndex - 1);
+    tm.compare(fromIndex, tm.selectedIndex);
+  }, [isDiffMode, tm.compareIndex, tm.selectedIndex, tm.timeline]);
+
+  const currentDiffs = useMemo(() => {
+    if (!tm.comparison) return [];
+    return currentMode === 'plan' ? tm.comparison.plan_diff : tm.comparison.reality_diff;
+  }, [tm.comparison, currentMode]);
+
+  const diffsByDay = useMemo(() => {
+    const map: Record<string, DayDiff> = {};
+    currentDiffs.forEach((d) => { map[d.day] = d; });
+    return map;
+  }, [currentDiffs]);
+
   // Dark mode based on current mode: plan = dark, reality = light
   const isDarkMode = currentMode === 'plan';
 
@@ -54,7 +216,7 @@ export default function Journal() {
 
   const toggleMode = () => {
     const newMode: JournalMode = currentMode === 'plan' ? 'reality' : 'plan';
-    setCurrentMode(newMode);
+    setModeForAllYears(newMode);
   };
 
   const toggleSidebar = () => {
@@ -84,9 +246,77 @@ export default function Journal() {
     testLocalStorage();
   }, []);
 
+  const exportYear = async (kind: ExportKind) => {
+    try {
+      const file: Blob = kind === 'markdown'
+        ? await journalAPI.exportData(currentYear, 'markdown')
+        : new Blob([await journalAPI.exportData(currentYear, 'csv', kind)], { type: 'text/csv;charset=utf-8' });
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = kind === 'markdown' ? `journal-${currentYear}-markdown.zip` : `journal-${currentYear}-${kind}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(`Failed to export ${kind}:`, error);
+    }
+  };
+
+  const { toast } = useToast();
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, replacing the browser's per-textarea history.
+  // Inputs and dialogs keep their own.
+  useEffect(() => {
+    if (isTimeMachine || isTeamView) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target instanceof HTMLInputElement || target?.closest('[role="dialog"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoLatest();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && event.ctrlKey)) {
+        event.preventDefault();
+        redoLatest();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const copyCalendarFeed = async (includeReality: boolean) => {
+    try {
+      const feed = await journalAPI.getCalendarFeed();
+      await navigator.clipboard.writeText(includeReality ? feed.url_with_reality : feed.url);
+      toast({ title: 'Calendar feed URL copied', description: 'Subscribe to it from your calendar app.' });
+    } catch (error) {
+      console.error('Failed to copy calendar feed URL:', error);
+      toast({ title: 'Could not copy the calendar feed URL', variant: 'destructive' });
+    }
+  };
+
+  // Restores go to the hook that owns the day's year, like edits
+  const restoreVersionForDate = async (date: Date, mode: JournalMode, content: string | null) => {
+    try {
+      if (date.getFullYear() === followingYear) {
+        await followingYearData.restoreEntry(date, mode, content);
+      } else {
+        await restoreEntry(date, mode, content);
+      }
+      toast({ title: `Restored ${format(date, 'MMM d')}`, description: `Saved as a new ${mode} snapshot.` });
+    } catch (error) {
+      console.error('Failed to restore version:', error);
+      toast({ title: `Could not restore ${format(date, 'MMM d')}`, variant: 'destructive' });
+    }
+  };
+
   // Entries source: live mode or time machine snapshot
   const effectiveEntries = () => {
-    if (!isTimeMachine || !tm.snapshot) return getCurrentEntries();
+    if (!isTimeMachine || !tm.snapshot) return currentMode === 'plan' ? spannedPlanEntries : spannedRealityEntries;
     return currentMode === 'plan' ? tm.snapshot.plan_contents : tm.snapshot.reality_contents;
   };
 
@@ -123,6 +353,29 @@ export default function Journal() {
               <div>
                 <h1 className="text-xl font-bold text-foreground flex items-center gap-2" data-testid="app-title">
                   365 Journal
+                  <span className="flex items-center gap-1 text-sm font-medium" data-testid="year-switcher">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => changeYear(currentYear - 1)}
+                      className="h-6 w-6 hover-elevate"
+                      data-testid="button-previous-year"
+                      title="Previous year"
+                    >
+                      <ChevronLeft className="w-3 h-3" />
+                    </Button>
+                    <span data-testid="text-current-year">{currentYear}</span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => changeYear(currentYear + 1)}
+                      className="h-6 w-6 hover-elevate"
+                      data-testid="button-next-year"
+                      title="Next year"
+                    >
+                      <ChevronRight className="w-3 h-3" />
+                    </Button>
+                  </span>
                   <span className={`text-sm px-2 py-1 rounded-full font-medium ${currentMode === 'plan'
                     ? 'bg-indigo-500/20 text-indigo-300'
                     : 'bg-emerald-500/20 text-emerald-700 dark:text-emerald-300'
@@ -130,7 +383,7 @@ export default function Journal() {
                     {currentMode === 'plan' ? 'PLAN' : 'REALITY'}
                   </span>
                   <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-500' : 'bg-red-500'
-                    }`} title={isOnline ? 'Connected to database' : 'Offline - using localStorage only'} />
+                    }`} title={isOnline ? 'Connected to database' : 'Offline - edits are queued and synced when the connection returns'} />
                 </h1>
                 <p className="text-sm text-muted-foreground">
                   {currentMode === 'plan'
@@ -142,6 +395,11 @@ export default function Journal() {
                       Last sync: {lastSyncTimestamp.toLocaleTimeString()}
                     </span>
                   )}
+                  {pendingCount + followingYearData.pendingCount > 0 && (
+                    <span className="ml-2 text-xs opacity-70" data-testid="text-pending-edits">
+                      {pendingCount + followingYearData.pendingCount} edits waiting to sync
+                    </span>
+                  )}
                 </p>
               </div>
             </div>
@@ -160,6 +418,32 @@ export default function Journal() {
                 <CheckCircle className="w-5 h-5 text-emerald-600" />
               )}
             </Button>
+            {!isTimeMachine && !isTeamView && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={undoLatest}
+                  disabled={!canUndo}
+                  className="ml-2 hover-elevate"
+                  data-testid="button-undo"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={redoLatest}
+                  disabled={!canRedo}
+                  className="hover-elevate"
+                  data-testid="button-redo"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </Button>
+              </>
+            )}
             {!isTimeMachine && (
               <Button
                 variant={compareMode ? 'default' : 'ghost'}
@@ -191,26 +475,63 @@ export default function Journal() {
             timeline={tm.timeline}
             selectedIndex={tm.selectedIndex}
             onIndexChange={(idx: number) => tm.setIndex(idx)}
+            diffMode={isDiffMode}
+            onDiffModeChange={setIsDiffMode}
+            compareIndex={tm.compareIndex}
+            onCompareIndexChange={(idx: number) => tm.compare(idx, tm.selectedIndex)}
+            diffs={currentDiffs}
           />
         </div>
       )}
 
+      {/* Offline edits that collide with newer server changes */}
+      {(conflicts.length > 0 || followingYearData.conflicts.length > 0) && (
+        <div className="max-w-7xl mx-auto px-6 mt-4 space-y-4">
+          <SyncConflictsBanner year={currentYear} conflicts={conflicts} onResolve={resolveConflict} />
+          <SyncConflictsBanner year={followingYear} conflicts={followingYearData.conflicts} onResolve={followingYearData.resolveConflict} />
+        </div>
+      )}
+
       {/* Collapsible Sidebar */}
       <CollapsibleSidebar
         visibleBlocks={visibleBlocks}
         onVisibleBlocksChange={setVisibleBlocks}
         startDate={startDate}
         onStartDateChange={setStartDate}
-        totalBlocks={365}
+        totalBlocks={daysInYear(currentYear)}
         currentYear={currentYear}
         journalEntries={effectiveEntries()}
         isCollapsed={isSidebarCollapsed}
         onToggleSidebar={toggleSidebar}
         currentMode={currentMode}
-        planEntries={planEntries}
-        realityEntries={realityEntries}
+        planEntries={spannedPlanEntries}
+        realityEntries={spannedRealityEntries}
         weeklyLayout={weeklyLayout}
         onWeeklyLayoutChange={setWeeklyLayout}
+        onExport={isOnline ? exportYear : undefined}
+        onImport={isOnline && !isTimeMachine ? () => setIsImportOpen(true) : undefined}
+        onCopyCalendarFeed={isOnline ? copyCalendarFeed : undefined}
+        onShare={isOnline ? () => setIsShareOpen(true) : undefined}
+        teams={teams}
+        activeTeamId={activeTeamId}
+        onSelectTeam={isOnline ? setActiveTeamId : undefined}
+        onManageTeams={() => setIsTeamsOpen(true)}
+        onManageSessions={isOnline ? () => setIsSessionsOpen(true) : undefined}
+        onSignOut={logout}
+      />
+
+      <SessionsDialog open={isSessionsOpen} onOpenChange={setIsSessionsOpen} onSignedOut={logout} />
+
+      <TeamsDialog open={isTeamsOpen} onOpenChange={setIsTeamsOpen} teams={teams} onTeamsChange={loadTeams} />
+
+      <ShareDialog open={isShareOpen} onOpenChange={setIsShareOpen} year={currentYear} />
+
+      <ImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        year={currentYear}
+        planEntries={planEntries}
+        onImported={() => loadFromDatabase().catch((error) => console.error('Failed to reload after import:', error))}
       />
 
       {/* Main Content - Full Width */}
@@ -222,14 +543,18 @@ export default function Journal() {
             year={currentYear}
             isDarkMode={isDarkMode}
             entries={effectiveEntries()}
-            onContentChange={isTimeMachine ? () => { } : updateEntry}
+            onContentChange={isTimeMachine || isTeamView ? () => { } : updateEntryForDate}
             currentMode={currentMode}
-            readOnly={isTimeMachine}
+            readOnly={isTimeMachine || isTeamView}
             compareMode={!isTimeMachine && compareMode}
-            planEntries={planEntries}
-            realityEntries={realityEntries}
+            planEntries={spannedPlanEntries}
+            realityEntries={spannedRealityEntries}
             weeklyLayout={weeklyLayout}
-            onWeeklyContentChange={!isTimeMachine ? updateWeeklyEntry : undefined}
+            onPeriodContentChange={!isTimeMachine && !isTeamView ? updatePeriodEntryForKey : undefined}
+            diffs={isTimeMachine && isDiffMode ? diffsByDay : undefined}
+            remoteUpdates={isTimeMachine ? undefined : remoteUpdatedDays}
+            teamMembers={isTeamView ? teamMembers ?? undefined : undefined}
+            onRestoreVersion={isOnline && !isTimeMachine && !isTeamView ? restoreVersionForDate : undefined}
           />
         </div>
       </main>
@@ -1,9 +1,12 @@
 import { GoogleOneTap } from '../components/GoogleOneTap';
+import { EmailSignIn } from '../components/EmailSignIn';
 import { useAuth } from '../contexts/AuthContext';
 import { useEffect } from 'react';
 
 export function LoginPage() {
   const { isAuthenticated, loading } = useAuth();
+  // Set by the magic-link endpoint when a link is unknown, used or expired
+  const magicLinkFailed = new URLSearchParams(window.location.search).get('error') === 'magic-link';
 
   useEffect(() => {
     // Redirect if already authenticated
@@ -42,10 +45,24 @@ export function LoginPage() {
             </p>
           </div>
 
+          {magicLinkFailed && (
+            <p className="text-sm text-center text-rose-600" data-testid="text-magic-link-error">
+              That sign-in link has expired or was already used. Request a new one below.
+            </p>
+          )}
+
           <div className="flex justify-center">
             <GoogleOneTap />
           </div>
 
+          <div className="flex items-center gap-3 text-xs text-gray-400">
+            <div className="h-px flex-1 bg-gray-200" />
+            or use your email
+            <div className="h-px flex-1 bg-gray-200" />
+          </div>
+
+          <EmailSignIn />
+
           <div className="text-center text-xs text-gray-400 mt-6">
             <p>
               By signing in, you agree to our Terms of Service and Privacy Policy
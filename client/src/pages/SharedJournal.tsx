@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, BookOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import JournalGrid from '@/components/JournalGrid';
+import { journalAPI, type SharedJournal as SharedJournalData } from '@/lib/journalAPI';
+import type { JournalMode } from '@/hooks/useJournalData';
+
+type SharedView = JournalMode | 'compare';
+
+const viewLabels: Record<SharedView, string> = {
+  plan: 'Plan',
+  reality: 'Reality',
+  compare: 'Side by side',
+};
+
+function describeLoadError(error: unknown): string {
+  const message = error instanceof Error ? error.message : '';
+  if (message.startsWith('410')) return 'This share link has expired.';
+  if (message.startsWith('404')) return 'This share link does not exist or has been revoked.';
+  return 'The shared journal could not be loaded.';
+}
+
+// Read-only view of a journal shared by link; no account needed
+export default function SharedJournal({ params }: { params: { token: string } }) {
+  const [shared, setShared] = useState<SharedJournalData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<SharedView>('plan');
+
+  useEffect(() => {
+    journalAPI.getSharedJournal(params.token)
+      .then((data) => {
+        setShared(data);
+        setView(data.mode === 'both' ? 'compare' : data.mode);
+      })
+      .catch((err) => setError(describeLoadError(err)));
+  }, [params.token]);
+
+  // Same theme convention as the journal: plan is dark, reality is light
+  useEffect(() => {
+    document.documentElement.classList.toggle('dark', view === 'plan');
+  }, [view]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex gap-2">
+              <AlertCircle className="h-6 w-6 text-red-500" />
+              <p className="text-sm text-gray-700" data-testid="text-share-error">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  const startDate = new Date(shared.year, 0, shared.start_day);
+  const endDate = new Date(shared.year, 0, shared.end_day);
+  const views: SharedView[] = shared.mode === 'both' ? ['plan', 'reality', 'compare'] : [shared.mode];
+  const planEntries = shared.plan_contents ?? {};
+  const realityEntries = shared.reality_contents ?? {};
+
+  return (
+    <div
+      className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900"
+      data-testid="shared-journal-page"
+    >
+      <header className="sticky top-0 z-20 backdrop-blur-xl bg-white/20 dark:bg-black/20 border-b border-white/20">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-primary/20 backdrop-blur-md rounded-xl flex items-center justify-center">
+              <BookOpen className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-foreground" data-testid="text-shared-title">
+                {shared.owner ? `${shared.owner}'s journal` : 'Shared journal'}
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                {format(startDate, 'MMM d')} – {format(endDate, 'MMM d, yyyy')} · read-only
+                {shared.expires_at && (
+                  <span className="ml-2 text-xs opacity-70">
+                    Link expires {format(new Date(shared.expires_at), 'MMM d, yyyy')}
+                  </span>
+                )}
+              </p>
+            </div>
+          </div>
+
+          {views.length > 1 && (
+            <div className="flex gap-2">
+              {views.map((option) => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={view === option ? 'default' : 'ghost'}
+                  onClick={() => setView(option)}
+                  data-testid={`button-shared-view-${option}`}
+                >
+                  {viewLabels[option]}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="w-full px-6 py-8">
+        <JournalGrid
+          visibleBlocks={shared.end_day - shared.start_day + 1}
+          startDate={startDate}
+          year={shared.year}
+          isDarkMode={view === 'plan'}
+          entries={view === 'reality' ? realityEntries : planEntries}
+          onContentChange={() => { }}
+          currentMode={view === 'reality' ? 'reality' : 'plan'}
+          readOnly
+          compareMode={view === 'compare'}
+          planEntries={planEntries}
+          realityEntries={realityEntries}
+        />
+      </main>
+    </div>
+  );
+}
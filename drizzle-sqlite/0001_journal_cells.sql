@@ -0,0 +1,26 @@
+CREATE TABLE `journal_cell_revisions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`cell_id` integer NOT NULL,
+	`timeline_id` integer NOT NULL,
+	`revision` integer NOT NULL,
+	`content` text,
+	FOREIGN KEY (`cell_id`) REFERENCES `journal_cells`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`timeline_id`) REFERENCES `timeline_index`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_journal_cell_revisions_cell` ON `journal_cell_revisions` (`cell_id`,`revision`);--> statement-breakpoint
+CREATE INDEX `idx_journal_cell_revisions_timeline` ON `journal_cell_revisions` (`timeline_id`);--> statement-breakpoint
+CREATE TABLE `journal_cells` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`year` integer NOT NULL,
+	`day_key` text NOT NULL,
+	`mode` text NOT NULL,
+	`content` text,
+	`revision` integer DEFAULT 1 NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_journal_cells_cell` ON `journal_cells` (`user_id`,`year`,`mode`,`day_key`);--> statement-breakpoint
+ALTER TABLE `timeline_index` ADD `metadata` text;
\ No newline at end of file
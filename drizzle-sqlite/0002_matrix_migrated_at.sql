@@ -0,0 +1,2 @@
+ALTER TABLE `journal_plan_matrix` ADD `migrated_at` integer;--> statement-breakpoint
+ALTER TABLE `journal_reality_matrix` ADD `migrated_at` integer;
\ No newline at end of file
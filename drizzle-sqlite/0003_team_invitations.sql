@@ -0,0 +1,13 @@
+CREATE TABLE `team_invitations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`team_id` integer NOT NULL,
+	`email` text NOT NULL,
+	`role` text DEFAULT 'viewer' NOT NULL,
+	`invited_by` text NOT NULL,
+	`created_at` integer,
+	FOREIGN KEY (`team_id`) REFERENCES `teams`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`invited_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_team_invitations_team_email` ON `team_invitations` (`team_id`,`email`);--> statement-breakpoint
+CREATE INDEX `idx_team_invitations_email` ON `team_invitations` (`email`);
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { defineConfig } from "drizzle-kit";
+
+// SQLite/libSQL migrations; they are applied at startup when STORAGE_BACKEND is sqlite or memory
+export default defineConfig({
+  out: "./drizzle-sqlite",
+  schema: "./shared/schema.sqlite.ts",
+  dialect: "sqlite",
+});
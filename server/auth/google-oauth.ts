@@ -1,10 +1,11 @@
 import { Strategy as GoogleStrategy, Profile } from 'passport-google-oauth20';
 import { storage, type GoogleProfile } from '../storage';
-import { generateToken } from './jwt';
-import type { Response } from 'express';
+import { startSession } from './sessions';
+import type { Request, Response } from 'express';
 
 export async function handleGoogleCallback(
   profile: Profile,
+  req: Request,
   res: Response
 ): Promise<void> {
   try {
@@ -36,22 +37,8 @@ export async function handleGoogleCallback(
     // 4. Update last login
     await storage.updateUserLastLogin(user.id);
 
-    // 5. Generate JWT
-    const token = generateToken({
-      userId: user.id,
-      email: user.email || '',
-      displayName: user.display_name || user.username,
-      avatar: user.avatar_url || undefined,
-    });
-
-    // 6. Set httpOnly cookie
-    res.cookie('auth_token', token, {
-      httpOnly: true, // Prevent XSS
-      secure: process.env.NODE_ENV === 'production', // HTTPS only in prod
-      sameSite: 'lax', // CSRF protection
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      path: '/',
-    });
+    // 5. Start a session: short-lived access cookie plus a rotating refresh cookie
+    await startSession(req, res, user);
 
     // 7. Redirect to app
     res.redirect('/');
@@ -1,6 +1,6 @@
 import { OAuth2Client } from 'google-auth-library';
 import { storage, type GoogleProfile } from '../storage';
-import { generateToken } from './jwt';
+import { startSession } from './sessions';
 import type { Request, Response } from 'express';
 
 const client = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
@@ -64,22 +64,8 @@ export async function handleGoogleOneTap(req: Request, res: Response) {
     // Update last login
     await storage.updateUserLastLogin(user.id);
 
-    // Generate JWT
-    const token = generateToken({
-      userId: user.id,
-      email: user.email || '',
-      displayName: user.display_name || user.username,
-      avatar: user.avatar_url || undefined,
-    });
-
-    // Set httpOnly cookie
-    res.cookie('auth_token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      path: '/',
-    });
+    // Start a session: short-lived access cookie plus a rotating refresh cookie
+    await startSession(req, res, user);
 
     // Return user info
     res.json({
@@ -1,13 +1,15 @@
 import jwt from 'jsonwebtoken';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'development-secret-change-in-production';
-const JWT_EXPIRES_IN = '7d'; // 7 days
+const JWT_EXPIRES_IN = '15m'; // Short-lived; clients renew through the refresh token
+export const ACCESS_TOKEN_MAX_AGE_MS = 15 * 60 * 1000;
 
 export interface JWTPayload {
   userId: string;
   email: string;
   displayName: string;
   avatar?: string;
+  sessionId: string; // auth_sessions row; requireAuth rejects the token once it is revoked
 }
 
 export function generateToken(payload: JWTPayload): string {
@@ -29,9 +31,9 @@ export function verifyToken(token: string): JWTPayload | null {
   }
 }
 
-export function extractTokenFromCookie(cookieHeader: string | undefined): string | null {
+export function extractTokenFromCookie(cookieHeader: string | undefined, name = 'auth_token'): string | null {
   if (!cookieHeader) return null;
 
-  const match = cookieHeader.match(/auth_token=([^;]+)/);
+  const match = cookieHeader.match(new RegExp(`(?:^|;\\s*)${name}=([^;]+)`));
   return match ? match[1] : null;
 }
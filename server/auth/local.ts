@@ -0,0 +1,151 @@
+import { createHash, randomBytes } from 'crypto';
+import { z } from 'zod';
+import type { Request, Response } from 'express';
+import type { User } from '@shared/schema';
+import { storage } from '../storage';
+import { startSession } from './sessions';
+import { hashPassword, verifyPassword } from './password';
+import { sendMail } from './mailer';
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+const registerSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(8, 'Password must be at least 8 characters').max(200),
+  displayName: z.string().trim().min(1).max(100).optional(),
+});
+
+const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1),
+});
+
+const magicLinkSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+});
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// Same session cookies and response shape as Google One Tap, so the client treats every sign-in alike
+async function signIn(req: Request, res: Response, user: User) {
+  await storage.updateUserLastLogin(user.id);
+  await startSession(req, res, user);
+
+  return {
+    success: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      displayName: user.displayName || user.username,
+      avatar: user.avatarUrl,
+    },
+  };
+}
+
+// Links are only ever built from configuration: the Host header is client-controlled, and a forged
+// one would mail the victim a working token pointing at the attacker's server
+function appUrl(): string | undefined {
+  return process.env.APP_URL?.trim().replace(/\/+$/, '') || undefined;
+}
+
+export async function handleRegister(req: Request, res: Response) {
+  try {
+    const { email, password, displayName } = registerSchema.parse(req.body);
+
+    if (await storage.getUserByEmail(email)) {
+      return res.status(409).json({ message: 'An account with this email already exists' });
+    }
+
+    const user = await storage.createLocalUser({
+      email,
+      passwordHash: await hashPassword(password),
+      displayName,
+    });
+    console.log(`✅ Created new user via email registration: ${user.email}`);
+
+    res.status(201).json(await signIn(req, res, user));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: error.errors });
+    }
+    console.error('❌ Registration error:', error);
+    res.status(500).json({ message: 'Registration failed' });
+  }
+}
+
+export async function handleLogin(req: Request, res: Response) {
+  try {
+    const { email, password } = loginSchema.parse(req.body);
+    const user = await storage.getUserByEmail(email);
+
+    // Accounts without a password (Google, magic link) fail the same way as a wrong password
+    if (!user?.password || !(await verifyPassword(password, user.password))) {
+      return res.status(401).json({ message: 'Invalid email or password' });
+    }
+
+    res.json(await signIn(req, res, user));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: error.errors });
+    }
+    console.error('❌ Login error:', error);
+    res.status(500).json({ message: 'Login failed' });
+  }
+}
+
+// Always answers 202 so the response does not reveal which emails have accounts
+export async function handleMagicLinkRequest(req: Request, res: Response) {
+  try {
+    const { email } = magicLinkSchema.parse(req.body);
+    const baseUrl = appUrl();
+
+    if (!baseUrl) {
+      console.error('❌ APP_URL is not set; refusing to send magic links');
+      return res.status(503).json({ message: 'Email sign-in links are not available' });
+    }
+
+    const token = randomBytes(32).toString('base64url');
+
+    await storage.createMagicLinkToken(email, hashToken(token), new Date(Date.now() + MAGIC_LINK_TTL_MS));
+
+    const link = `${baseUrl}/api/auth/magic-link/verify?token=${token}`;
+    await sendMail({
+      to: email,
+      subject: 'Your DailyGlass sign-in link',
+      text: `Sign in to DailyGlass: ${link}\n\nThe link works once and expires in 15 minutes.`,
+    });
+
+    res.status(202).json({ message: 'If the address is valid, a sign-in link is on its way' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: error.errors });
+    }
+    console.error('❌ Magic link request error:', error);
+    res.status(500).json({ message: 'Could not send the sign-in link' });
+  }
+}
+
+// Opened from the email, so it answers with redirects rather than JSON
+export async function handleMagicLinkVerify(req: Request, res: Response) {
+  try {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    const email = token ? await storage.consumeMagicLinkToken(hashToken(token)) : undefined;
+
+    if (!email) {
+      return res.redirect('/login?error=magic-link');
+    }
+
+    // First sign-in with an unknown address creates a passwordless account
+    let user = await storage.getUserByEmail(email);
+    if (!user) {
+      user = await storage.createLocalUser({ email, passwordHash: null });
+      console.log(`✅ Created new user via magic link: ${user.email}`);
+    }
+
+    await signIn(req, res, user);
+    res.redirect('/');
+  } catch (error) {
+    console.error('❌ Magic link verification error:', error);
+    res.redirect('/login?error=magic-link');
+  }
+}
@@ -0,0 +1,29 @@
+// Outgoing mail. Development uses the console transport: messages, including magic links,
+// are printed to the server log instead of being delivered.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  },
+};
+
+let transport: MailTransport = consoleTransport;
+
+// Swap in a real transport (SMTP, an email API) at startup
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+  return transport.send(message);
+}
@@ -1,11 +1,14 @@
 import type { Request, Response, NextFunction } from 'express';
-import { verifyToken, extractTokenFromCookie } from './jwt';
+import { verifyToken, extractTokenFromCookie, type JWTPayload } from './jwt';
+import { isSessionActive, LAST_SEEN_THROTTLE_MS } from './sessions';
+import { storage } from '../storage';
 
 // Extend Express Request to include user info
 declare global {
   namespace Express {
     interface Request {
       userId?: string;
+      sessionId?: string;
       user?: {
         id: string;
         email: string;
@@ -16,7 +19,31 @@ declare global {
   }
 }
 
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
+// A valid signature is not enough: the token's session must still be active
+async function isTokenSessionActive(payload: JWTPayload): Promise<boolean> {
+  if (!payload.sessionId) return false; // Issued before sessions existed, cannot be revoked
+
+  const session = await storage.getAuthSession(payload.sessionId);
+  if (!isSessionActive(session)) return false;
+
+  if (Date.now() - new Date(session.lastSeenAt ?? 0).getTime() > LAST_SEEN_THROTTLE_MS) {
+    await storage.touchAuthSession(session.id);
+  }
+  return true;
+}
+
+function setRequestUser(req: Request, payload: JWTPayload) {
+  req.userId = payload.userId;
+  req.sessionId = payload.sessionId;
+  req.user = {
+    id: payload.userId,
+    email: payload.email,
+    displayName: payload.displayName,
+    avatar: payload.avatar,
+  };
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
   // Extract token from cookie
   const token = extractTokenFromCookie(req.headers.cookie);
 
@@ -37,34 +64,49 @@ export function requireAuth(req: Request, res: Response, next: NextFunction) {
     });
   }
 
-  // Inject user info into request
-  req.userId = payload.userId;
-  req.user = {
-    id: payload.userId,
-    email: payload.email,
-    displayName: payload.displayName,
-    avatar: payload.avatar,
-  };
+  try {
+    if (!(await isTokenSessionActive(payload))) {
+      return res.status(401).json({
+        message: 'Session expired or revoked',
+        code: 'SESSION_REVOKED'
+      });
+    }
+  } catch (error) {
+    console.error('Error checking auth session:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
 
+  // Inject user info into request
+  setRequestUser(req, payload);
   next();
 }
 
 // Optional: Check if authenticated but don't block
-export function optionalAuth(req: Request, res: Response, next: NextFunction) {
+export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
   const token = extractTokenFromCookie(req.headers.cookie);
 
   if (token) {
     const payload = verifyToken(token);
-    if (payload) {
-      req.userId = payload.userId;
-      req.user = {
-        id: payload.userId,
-        email: payload.email,
-        displayName: payload.displayName,
-        avatar: payload.avatar,
-      };
+    try {
+      if (payload && await isTokenSessionActive(payload)) {
+        setRequestUser(req, payload);
+      }
+    } catch (error) {
+      console.error('Error checking auth session:', error);
     }
   }
 
   next(); // Continue regardless of auth status
 }
+
+// For routes scoped by a :userId param; use after requireAuth so users can only reach their own journal
+export function requireOwnUser(req: Request, res: Response, next: NextFunction) {
+  if (req.params.userId !== req.userId) {
+    return res.status(403).json({
+      message: 'Access denied',
+      code: 'FORBIDDEN'
+    });
+  }
+
+  next();
+}
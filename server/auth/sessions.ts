@@ -0,0 +1,143 @@
+import { createHash, randomBytes } from 'crypto';
+import type { Request, Response } from 'express';
+import type { AuthSession, User } from '@shared/schema';
+import { storage } from '../storage';
+import { ACCESS_TOKEN_MAX_AGE_MS, extractTokenFromCookie, generateToken } from './jwt';
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days, renewed on every refresh
+// Tabs sharing the cookie jar can refresh at the same moment; the loser presents the token
+// the winner just rotated out, which is not theft within this window
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+// Requests only bump last_seen_at when it is older than this, so the sessions list is not a write per request
+export const LAST_SEEN_THROTTLE_MS = 5 * 60 * 1000;
+
+// Only sent to the auth routes, so a leaked page request never carries it
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export function isSessionActive(session: AuthSession | undefined, now: Date = new Date()): session is AuthSession {
+  return !!session && !session.revokedAt && new Date(session.expiresAt) > now;
+}
+
+function setAccessCookie(res: Response, user: User, sessionId: string) {
+  const token = generateToken({
+    userId: user.id,
+    email: user.email || '',
+    displayName: user.displayName || user.username,
+    avatar: user.avatarUrl || undefined,
+    sessionId,
+  });
+
+  res.cookie('auth_token', token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: ACCESS_TOKEN_MAX_AGE_MS,
+    path: '/',
+  });
+}
+
+function setRefreshCookie(res: Response, refreshToken: string) {
+  res.cookie('refresh_token', refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: REFRESH_TOKEN_TTL_MS,
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+export function clearAuthCookies(res: Response) {
+  res.clearCookie('auth_token', { path: '/' });
+  res.clearCookie('refresh_token', { path: REFRESH_COOKIE_PATH });
+}
+
+// Called by every sign-in method once the user is known
+export async function startSession(req: Request, res: Response, user: User): Promise<AuthSession> {
+  const refreshToken = randomBytes(32).toString('base64url');
+  const session = await storage.createAuthSession({
+    userId: user.id,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: req.get('user-agent') ?? null,
+    ipAddress: req.ip ?? null,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  setAccessCookie(res, user, session.id);
+  setRefreshCookie(res, refreshToken);
+  return session;
+}
+
+// POST /api/auth/refresh - Swap the refresh token for a new one and a fresh access token
+export async function handleRefresh(req: Request, res: Response) {
+  try {
+    const presented = extractTokenFromCookie(req.headers.cookie, 'refresh_token');
+
+    if (!presented) {
+      return res.status(401).json({ message: 'Authentication required', code: 'NO_TOKEN' });
+    }
+
+    const presentedHash = hashToken(presented);
+    const session = await storage.getAuthSessionByRefreshToken(presentedHash);
+    const user = isSessionActive(session) ? await storage.getUser(session.userId) : undefined;
+
+    if (!isSessionActive(session) || !user) {
+      clearAuthCookies(res);
+      return res.status(401).json({ message: 'Session expired or revoked', code: 'SESSION_REVOKED' });
+    }
+
+    if (session.refreshTokenHash !== presentedHash) {
+      const rotatedAgo = Date.now() - new Date(session.rotatedAt ?? 0).getTime();
+
+      if (rotatedAgo > REFRESH_REUSE_GRACE_MS) {
+        // An old refresh token came back: someone else holds a copy, so end the session for both
+        await storage.revokeAuthSession(session.userId, session.id);
+        clearAuthCookies(res);
+        console.warn(`⚠️ Refresh token reuse detected, revoked session ${session.id}`);
+        return res.status(401).json({ message: 'Session expired or revoked', code: 'SESSION_REVOKED' });
+      }
+
+      // Lost a concurrent refresh: the browser already holds the new refresh cookie
+      setAccessCookie(res, user, session.id);
+      return res.json({ success: true });
+    }
+
+    const nextToken = randomBytes(32).toString('base64url');
+    const rotated = await storage.rotateAuthSession(
+      session.id,
+      presentedHash,
+      hashToken(nextToken),
+      new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    );
+
+    if (rotated) {
+      setRefreshCookie(res, nextToken);
+    }
+    setAccessCookie(res, user, session.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Token refresh error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+}
+
+// "Chrome on macOS" from a user agent string; good enough to tell devices apart in the sessions list
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? 'Unknown device';
+}
@@ -0,0 +1,44 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { TeamMember, TeamRole } from '@shared/schema';
+import { storage } from '../storage';
+
+declare global {
+  namespace Express {
+    interface Request {
+      teamMember?: TeamMember; // Set by requireTeamRole
+    }
+  }
+}
+
+// Use after requireAuth on routes with a :teamId param. Without roles, any member passes.
+// Non-members get a 404 so team ids do not leak.
+export function requireTeamRole(...roles: TeamRole[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const teamId = parseInt(req.params.teamId);
+
+    if (isNaN(teamId)) {
+      return res.status(400).json({ message: 'Invalid team id' });
+    }
+
+    try {
+      const member = await storage.getTeamMember(teamId, req.userId!);
+
+      if (!member) {
+        return res.status(404).json({ message: 'Team not found' });
+      }
+
+      if (roles.length > 0 && !roles.includes(member.role as TeamRole)) {
+        return res.status(403).json({
+          message: 'Access denied',
+          code: 'FORBIDDEN'
+        });
+      }
+
+      req.teamMember = member;
+      next();
+    } catch (error) {
+      console.error('Error checking team membership:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
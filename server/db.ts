@@ -1,12 +1,100 @@
 import "dotenv/config";
-import { drizzle } from "drizzle-orm/postgres-js";
+import fs from "fs";
+import path from "path";
+import { drizzle as drizzlePostgres } from "drizzle-orm/postgres-js";
+import { drizzle as drizzleLibsql } from "drizzle-orm/libsql";
+import { migrate } from "drizzle-orm/libsql/migrator";
+import { createClient } from "@libsql/client";
 import postgres from "postgres";
 import * as schema from "@shared/schema";
+import * as sqliteSchema from "@shared/schema.sqlite";
+import { backfillJournalCells } from "./journalCells";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+// STORAGE_BACKEND picks where the journal lives:
+//   postgres (default) - DATABASE_URL, schema managed with `npm run db:push`
+//   sqlite             - TURSO_DATABASE_URL (+ TURSO_AUTH_TOKEN) or the LOCAL_SQLITE_PATH file
+//   memory             - MemStorage, no database at all; everything is lost on restart
+export const STORAGE_BACKENDS = ["postgres", "sqlite", "memory"] as const;
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
+export type SqlDialect = "postgres" | "sqlite";
+
+// The same tables in either dialect; SQLite rows come back in the Postgres row shapes
+const pgTables = {
+  users: schema.users,
+  journalPlanMatrix: schema.journalPlanMatrix,
+  journalRealityMatrix: schema.journalRealityMatrix,
+  dailySnapshots: schema.dailySnapshots,
+  timelineIndex: schema.timelineIndex,
+  journalCells: schema.journalCells,
+  journalCellRevisions: schema.journalCellRevisions,
+  calendarFeeds: schema.calendarFeeds,
+  shareLinks: schema.shareLinks,
+  teams: schema.teams,
+  teamMembers: schema.teamMembers,
+  teamInvitations: schema.teamInvitations,
+  magicLinkTokens: schema.magicLinkTokens,
+  authSessions: schema.authSessions,
+};
+export type DatabaseTables = typeof pgTables;
+
+export interface DatabaseConnection {
+  dialect: SqlDialect;
+  db: any;
+  tables: DatabaseTables;
+  ready: Promise<void>; // Resolves once the schema is migrated and backfilled; await it before the first query
+  close(): Promise<void>;
+}
+
+const SQLITE_MIGRATIONS_FOLDER = path.resolve("drizzle-sqlite");
+
+export function storageBackendFromEnv(env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  const backend = (env.STORAGE_BACKEND || "postgres").toLowerCase();
+  if (!(STORAGE_BACKENDS as readonly string[]).includes(backend)) {
+    throw new Error(`STORAGE_BACKEND must be one of ${STORAGE_BACKENDS.join(", ")}, got "${env.STORAGE_BACKEND}"`);
+  }
+  return backend as StorageBackend;
 }
 
-export const client = postgres(process.env.DATABASE_URL);
-export const db = drizzle(client, { schema });
+function sqliteUrl(env: NodeJS.ProcessEnv) {
+  if (env.TURSO_DATABASE_URL) return { url: env.TURSO_DATABASE_URL, authToken: env.TURSO_AUTH_TOKEN };
 
+  const file = env.LOCAL_SQLITE_PATH || "./data/dailyglass.db";
+  if (file === ":memory:") return { url: file };
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  return { url: `file:${file}` };
+}
+
+export function connectDatabase(dialect: SqlDialect, env: NodeJS.ProcessEnv = process.env): DatabaseConnection {
+  if (dialect === "postgres") {
+    if (!env.DATABASE_URL) {
+      throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+    }
+    const client = postgres(env.DATABASE_URL);
+    const db = drizzlePostgres(client, { schema });
+    return {
+      dialect,
+      db,
+      tables: pgTables,
+      ready: backfillJournalCells(db, pgTables),
+      close: () => client.end(),
+    };
+  }
+
+  const client = createClient(sqliteUrl(env));
+  const db = drizzleLibsql(client, { schema: sqliteSchema });
+  const tables = sqliteSchema as unknown as DatabaseTables;
+  const ready = (async () => {
+    await migrate(db, { migrationsFolder: SQLITE_MIGRATIONS_FOLDER });
+    // SQLite leaves foreign keys off per connection; the cascades in the schema rely on them
+    await client.execute("PRAGMA foreign_keys = ON");
+    await backfillJournalCells(db, tables);
+  })();
+
+  return {
+    dialect,
+    db,
+    tables,
+    ready,
+    close: async () => client.close(),
+  };
+}
@@ -0,0 +1,73 @@
+import { addDays, format } from 'date-fns';
+import { dayKeysForYear } from '@shared/calendar';
+import type { DayContents } from '@shared/schema';
+
+// CSV export in the layout of the database-proposal-365 spreadsheets:
+// a header row of dates, then one row per snapshot labelled with its timestamp.
+
+export const CSV_EXPORT_VARIANTS = ['plan', 'reality', 'comparison'] as const;
+export type CsvExportVariant = typeof CSV_EXPORT_VARIANTS[number];
+
+export interface CsvSnapshot {
+  snapshotTimestamp: Date | string;
+  day_contents: DayContents;
+}
+
+export interface CsvExportData {
+  planSnapshots: CsvSnapshot[];
+  realitySnapshots: CsvSnapshot[];
+}
+
+const HEADER_LABELS: Record<CsvExportVariant, string> = {
+  plan: 'plan entries',
+  reality: 'reality entries',
+  comparison: 'comparison mode',
+};
+
+export function isCsvExportVariant(value: unknown): value is CsvExportVariant {
+  return typeof value === 'string' && (CSV_EXPORT_VARIANTS as readonly string[]).includes(value);
+}
+
+// Quote only when needed, so plain cells read like the hand-written proposal files
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatSnapshotTimestamp(timestamp: Date | string): string {
+  return format(new Date(timestamp), 'MMM do yyyy h:mma');
+}
+
+function snapshotRow(label: string, snapshot: CsvSnapshot, dayKeys: string[]): string {
+  const cells = dayKeys.map((dayKey) => snapshot.day_contents[dayKey] ?? '');
+  return [label, ...cells].map(escapeCsvCell).join(',');
+}
+
+/**
+ * Builds the CSV for one variant. Plan and reality exports list snapshots oldest first;
+ * the comparison export interleaves both newest first, tagging each row with its type.
+ */
+export function generateMatrixCSV(exportData: CsvExportData, year: number, variant: CsvExportVariant): string {
+  const dayKeys = dayKeysForYear(year);
+  const yearStart = new Date(year, 0, 1);
+  const dates = dayKeys.map((_, i) => format(addDays(yearStart, i), 'MMM d'));
+
+  const lines: string[] = [[HEADER_LABELS[variant], ...dates].map(escapeCsvCell).join(',')];
+
+  if (variant === 'comparison') {
+    const rows = [
+      ...exportData.planSnapshots.map((snapshot) => ({ snapshot, type: 'plan' })),
+      ...exportData.realitySnapshots.map((snapshot) => ({ snapshot, type: 'reality' })),
+    ].sort((a, b) => new Date(b.snapshot.snapshotTimestamp).getTime() - new Date(a.snapshot.snapshotTimestamp).getTime());
+
+    rows.forEach(({ snapshot, type }) => {
+      lines.push(snapshotRow(`${formatSnapshotTimestamp(snapshot.snapshotTimestamp)} ${type}`, snapshot, dayKeys));
+    });
+  } else {
+    const snapshots = variant === 'plan' ? exportData.planSnapshots : exportData.realitySnapshots;
+    snapshots.forEach((snapshot) => {
+      lines.push(snapshotRow(formatSnapshotTimestamp(snapshot.snapshotTimestamp), snapshot, dayKeys));
+    });
+  }
+
+  return lines.join('\n');
+}
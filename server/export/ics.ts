@@ -0,0 +1,107 @@
+import { addDays, format } from 'date-fns';
+import { dayKeysForYear, dayToDate } from '@shared/calendar';
+import type { DailySnapshot, DayContents } from '@shared/schema';
+
+// iCalendar (RFC 5545) feed of plan cells as all-day events. Reality cells can be added
+// as events marked with a check so calendar apps show what actually happened.
+
+const PRODID = '-//365 Journal//Plan Feed//EN';
+const SUMMARY_LENGTH = 80;
+
+export interface IcsFeedOptions {
+  includeReality?: boolean;
+  now?: Date;
+}
+
+// Escapes TEXT values: backslash, semicolon, comma and newlines
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Folds content lines longer than 75 octets, without splitting multi-byte characters
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+function summaryOf(text: string): string {
+  const firstLine = text.split(/\r?\n/)[0].trim();
+  return firstLine.length > SUMMARY_LENGTH ? `${firstLine.slice(0, SUMMARY_LENGTH - 1)}…` : firstLine;
+}
+
+function dayEvents(
+  contents: DayContents,
+  year: number,
+  entryType: 'plan' | 'reality',
+  userId: string,
+  stamp: Date
+): string[][] {
+  return dayKeysForYear(year).flatMap((dayKey) => {
+    const text = contents[dayKey]?.trim();
+    if (!text) return [];
+
+    const date = dayToDate(dayKey, year);
+    const summary = summaryOf(text);
+    return [[
+      'BEGIN:VEVENT',
+      `UID:${entryType}-${year}-${dayKey}-${userId}@365journal`,
+      `DTSTAMP:${formatUtc(stamp)}`,
+      `DTSTART;VALUE=DATE:${format(date, 'yyyyMMdd')}`,
+      `DTEND;VALUE=DATE:${format(addDays(date, 1), 'yyyyMMdd')}`,
+      `SUMMARY:${escapeText(entryType === 'reality' ? `✓ ${summary}` : summary)}`,
+      `DESCRIPTION:${escapeText(text)}`,
+      `CATEGORIES:${entryType === 'reality' ? 'Reality' : 'Plan'}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ]];
+  });
+}
+
+/**
+ * Builds the calendar from the latest daily snapshot of each year
+ */
+export function generatePlanCalendar(userId: string, snapshots: DailySnapshot[], options: IcsFeedOptions = {}): string {
+  const now = options.now ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${options.includeReality ? '365 Journal' : '365 Journal Plan'}`,
+  ];
+
+  [...snapshots].sort((a, b) => a.year - b.year).forEach((snapshot) => {
+    const planStamp = snapshot.planLastUpdated ?? snapshot.snapshotDate ?? now;
+    dayEvents(snapshot.latestPlanContents, snapshot.year, 'plan', userId, planStamp).forEach((event) => lines.push(...event));
+
+    if (options.includeReality) {
+      const realityStamp = snapshot.realityLastUpdated ?? snapshot.snapshotDate ?? now;
+      dayEvents(snapshot.latestRealityContents, snapshot.year, 'reality', userId, realityStamp).forEach((event) => lines.push(...event));
+    }
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
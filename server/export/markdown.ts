@@ -0,0 +1,121 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { dayKeysForYear, dayToDate, dateToWeekKey, weekKeyToStartDate, WEEK_KEY_PATTERN } from '@shared/calendar';
+import type { DayContents } from '@shared/schema';
+import type { ZipEntry } from './zip';
+
+// Markdown vault export: one note per day with Plan / Reality sections and YAML front-matter,
+// plus one note per week summary. Notes link to each other with [[wiki links]] so the zip
+// can be dropped straight into an Obsidian vault.
+
+export interface MarkdownExportData {
+  dailySnapshot?: { latestPlanContents?: DayContents; latestRealityContents?: DayContents } | null;
+  planSnapshots: { day_contents: DayContents }[];
+  realitySnapshots: { day_contents: DayContents }[];
+}
+
+export type DayCompletionStatus = 'completed' | 'planned' | 'missed' | 'unplanned';
+
+// `planned` days are still ahead; a plan with no reality once the day is over is `missed`
+function completionStatus(hasPlan: boolean, hasReality: boolean, date: Date, today: Date): DayCompletionStatus {
+  if (hasPlan && hasReality) return 'completed';
+  if (hasReality) return 'unplanned';
+  return date < today ? 'missed' : 'planned';
+}
+
+const weekNoteName = (weekKey: string) => {
+  const match = WEEK_KEY_PATTERN.exec(weekKey)!;
+  return `${match[1]}-W${match[2]}`;
+};
+
+const text = (contents: DayContents, key: string) => contents[key]?.trim() ?? '';
+
+function frontMatter(fields: Record<string, string | number | boolean>): string {
+  return ['---', ...Object.entries(fields).map(([key, value]) => `${key}: ${value}`), '---'].join('\n');
+}
+
+function sections(plan: string, reality: string): string {
+  return ['## Plan', '', plan || '_No plan_', '', '## Reality', '', reality || '_No reality recorded_'].join('\n');
+}
+
+/**
+ * Builds the zip entries for `year`. The daily snapshot holds the latest contents; without it
+ * the most recent plan and reality snapshots are used.
+ */
+export function generateMarkdownVault(exportData: MarkdownExportData, year: number, now: Date = new Date()): ZipEntry[] {
+  const plan = exportData.dailySnapshot?.latestPlanContents
+    ?? exportData.planSnapshots[exportData.planSnapshots.length - 1]?.day_contents ?? {};
+  const reality = exportData.dailySnapshot?.latestRealityContents
+    ?? exportData.realitySnapshots[exportData.realitySnapshots.length - 1]?.day_contents ?? {};
+  const today = startOfDay(now);
+
+  const weekKeys = Array.from(new Set([...Object.keys(plan), ...Object.keys(reality)]))
+    .filter((key) => WEEK_KEY_PATTERN.test(key) && (text(plan, key) || text(reality, key)))
+    .sort();
+  const exportedWeeks = new Set(weekKeys);
+
+  const entries: ZipEntry[] = [];
+  const daysByWeek = new Map<string, { note: string; status: DayCompletionStatus }[]>();
+
+  dayKeysForYear(year).forEach((dayKey) => {
+    const planText = text(plan, dayKey);
+    const realityText = text(reality, dayKey);
+    if (!planText && !realityText) return;
+
+    const date = dayToDate(dayKey, year);
+    const note = format(date, 'yyyy-MM-dd');
+    const weekKey = dateToWeekKey(date);
+    const status = completionStatus(Boolean(planText), Boolean(realityText), date, today);
+
+    const fields: Record<string, string | number | boolean> = {
+      date: note,
+      day: dayKey,
+      week: weekKey,
+      status,
+      has_plan: Boolean(planText),
+      has_reality: Boolean(realityText),
+    };
+
+    const links = exportedWeeks.has(weekKey) ? ['', `Week: [[${weekNoteName(weekKey)}]]`] : [];
+    entries.push({
+      name: `daily/${note}.md`,
+      content: [frontMatter(fields), '', `# ${format(date, 'EEEE, MMMM d, yyyy')}`, ...links, '', sections(planText, realityText), ''].join('\n'),
+    });
+
+    daysByWeek.set(weekKey, [...(daysByWeek.get(weekKey) ?? []), { note, status }]);
+  });
+
+  weekKeys.forEach((weekKey) => {
+    const start = weekKeyToStartDate(weekKey)!;
+    const days = daysByWeek.get(weekKey) ?? [];
+    const planned = days.filter((d) => d.status !== 'unplanned').length;
+    const completed = days.filter((d) => d.status === 'completed').length;
+
+    const fields = {
+      week: weekKey,
+      start: format(start, 'yyyy-MM-dd'),
+      end: format(addDays(start, 6), 'yyyy-MM-dd'),
+      planned_days: planned,
+      completed_days: completed,
+      completion: planned > 0 ? Math.round((completed / planned) * 100) / 100 : 0,
+    };
+
+    const dayLinks = days.length > 0
+      ? ['', '## Days', '', ...days.map((d) => `- [[${d.note}]] (${d.status})`)]
+      : [];
+
+    entries.push({
+      name: `weekly/${weekNoteName(weekKey)}.md`,
+      content: [
+        frontMatter(fields),
+        '',
+        `# Week of ${format(start, 'MMMM d, yyyy')}`,
+        '',
+        sections(text(plan, weekKey), text(reality, weekKey)),
+        ...dayLinks,
+        '',
+      ].join('\n'),
+    });
+  });
+
+  return entries;
+}
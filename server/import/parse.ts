@@ -0,0 +1,201 @@
+import { dayKeysForYear, formatDayKey, getPeriodKind, DAY_KEY_PATTERN } from '@shared/calendar';
+import type { DayContents } from '@shared/schema';
+
+// Parsers for the files a user can import: the CSV layout of the database-proposal-365
+// spreadsheets (and of our own CSV export), and the JSON produced by /api/export.
+
+export type ImportEntryType = 'plan' | 'reality';
+
+export type ImportedMatrices = Partial<Record<ImportEntryType, DayContents>>;
+
+export class ImportParseError extends Error {}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Splits CSV text into rows of cells, honouring quoted cells with embedded commas, quotes and newlines
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Maps a header cell to a day key of `year`. Accepts `Jan 1`, `dec 31th 2024`, `2025-01-01`
+ * and `day_001`; cells that name another year or are not dates (`...`) map to null.
+ */
+export function headerCellToDayKey(cell: string, year: number): string | null {
+  const value = cell.trim();
+  const validDays = new Set(dayKeysForYear(year));
+
+  if (DAY_KEY_PATTERN.test(value)) {
+    return validDays.has(value) ? value : null;
+  }
+
+  let date: Date | null = null;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  const named = /^([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?$/i.exec(value);
+  if (iso) {
+    date = new Date(parseInt(iso[1]), parseInt(iso[2]) - 1, parseInt(iso[3]));
+    if (date.getMonth() !== parseInt(iso[2]) - 1) return null;
+  } else if (named) {
+    const month = MONTHS.indexOf(named[1].toLowerCase());
+    if (month < 0) return null;
+    const dayOfMonth = parseInt(named[2]);
+    date = new Date(named[3] ? parseInt(named[3]) : year, month, dayOfMonth);
+    if (date.getMonth() !== month) return null; // e.g. Feb 29 outside a leap year
+  }
+
+  if (!date || date.getFullYear() !== year) return null;
+  const dayOfYear = Math.round((date.getTime() - new Date(year, 0, 1).getTime()) / (1000 * 60 * 60 * 24)) + 1;
+  const dayKey = formatDayKey(dayOfYear);
+  return validDays.has(dayKey) ? dayKey : null;
+}
+
+function entryTypeFromLabel(label: string): ImportEntryType | null {
+  const value = label.trim().toLowerCase();
+  if (/\bplan\b/.test(value)) return 'plan';
+  if (/\breality\b/.test(value)) return 'reality';
+  return null;
+}
+
+/**
+ * Parses a plan, reality or comparison CSV. Rows are folded in chronological order so later
+ * snapshots win; plan/reality files list snapshots oldest first, comparison files newest first.
+ * Empty cells never clear a day, so an import only adds or overwrites content.
+ */
+export function parseCsvImport(text: string, year: number, type?: ImportEntryType): ImportedMatrices {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    throw new ImportParseError('CSV file is empty');
+  }
+
+  const [header, ...body] = rows;
+  const headerLabel = header[0]?.trim().toLowerCase() ?? '';
+  const isComparison = headerLabel.startsWith('comparison');
+  const fileType = type ?? entryTypeFromLabel(headerLabel);
+  if (!isComparison && !fileType) {
+    throw new ImportParseError("Could not tell whether the CSV holds plan or reality entries; pass type 'plan' or 'reality'");
+  }
+
+  const columns = header.slice(1).map((cell) => headerCellToDayKey(cell, year));
+  if (!columns.some(Boolean)) {
+    throw new ImportParseError(`CSV header has no dates in ${year}`);
+  }
+
+  const orderedRows = isComparison ? [...body].reverse() : body;
+  const result: ImportedMatrices = {};
+
+  orderedRows.forEach((row) => {
+    const rowType = isComparison ? entryTypeFromLabel(row[0] ?? '') : fileType;
+    if (!rowType) return;
+
+    row.slice(1).forEach((cell, i) => {
+      const dayKey = columns[i];
+      const content = cell.trim();
+      if (!dayKey || !content) return;
+      result[rowType] = { ...result[rowType], [dayKey]: content };
+    });
+  });
+
+  return result;
+}
+
+// Keeps the day and period keys an export row or contents map carries, dropping empty cells
+function pickImportableContents(source: Record<string, unknown> | undefined, year: number): DayContents {
+  const validDays = new Set(dayKeysForYear(year));
+  const contents: DayContents = {};
+  if (!source) return contents;
+
+  Object.entries(source).forEach(([key, value]) => {
+    if (typeof value !== 'string' || !value.trim()) return;
+    if (DAY_KEY_PATTERN.test(key) ? validDays.has(key) : getPeriodKind(key)) {
+      contents[key] = value;
+    }
+  });
+  return contents;
+}
+
+function foldSnapshots(snapshots: unknown, year: number): DayContents | undefined {
+  if (!Array.isArray(snapshots) || snapshots.length === 0) return undefined;
+
+  return snapshots.reduce<DayContents>((acc, snapshot) => {
+    const source = snapshot?.day_contents ?? snapshot;
+    return { ...acc, ...pickImportableContents(source, year) };
+  }, {});
+}
+
+/**
+ * Reads JSON uploaded as the file's text rather than parsed by the client
+ */
+export function parseJsonText(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ImportParseError('JSON import is not valid JSON');
+  }
+}
+
+/**
+ * Parses the JSON produced by /api/export. The daily snapshot holds the latest state;
+ * without it the snapshot rows are folded in order.
+ */
+export function parseJsonImport(data: unknown, year: number): ImportedMatrices {
+  if (!data || typeof data !== 'object') {
+    throw new ImportParseError('JSON import must be an object produced by /api/export');
+  }
+
+  const exportData = data as Record<string, any>;
+  const daily = exportData.dailySnapshot;
+  const result: ImportedMatrices = {};
+
+  const plan = daily
+    ? pickImportableContents(daily.latestPlanContents ?? daily.latest_plan_contents, year)
+    : foldSnapshots(exportData.planSnapshots, year);
+  const reality = daily
+    ? pickImportableContents(daily.latestRealityContents ?? daily.latest_reality_contents, year)
+    : foldSnapshots(exportData.realitySnapshots, year);
+
+  if (plan && Object.keys(plan).length > 0) result.plan = plan;
+  if (reality && Object.keys(reality).length > 0) result.reality = reality;
+
+  if (!daily && !Array.isArray(exportData.planSnapshots) && !Array.isArray(exportData.realitySnapshots)) {
+    throw new ImportParseError('JSON import has no planSnapshots, realitySnapshots or dailySnapshot');
+  }
+  return result;
+}
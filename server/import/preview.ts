@@ -0,0 +1,28 @@
+import type { DayContents, DayDiff } from '@shared/schema';
+
+// Dry-run summary of what importing one matrix would do to the current contents
+
+export interface ImportPreview {
+  imported: number; // Non-empty cells in the import
+  overwritten: DayDiff[]; // Cells that already hold different content
+  added: DayDiff[]; // Cells that are empty today
+}
+
+export function previewImport(current: DayContents | undefined, incoming: DayContents): ImportPreview {
+  const preview: ImportPreview = { imported: 0, overwritten: [], added: [] };
+
+  Object.keys(incoming).sort().forEach((key) => {
+    const after = incoming[key];
+    if (!after) return;
+    preview.imported += 1;
+
+    const before = current?.[key] ?? null;
+    if (!before) {
+      preview.added.push({ day: key, before: null, after, status: 'added' });
+    } else if (before !== after) {
+      preview.overwritten.push({ day: key, before, after, status: 'modified' });
+    }
+  });
+
+  return preview;
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { storageBackend, storageReady } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 
@@ -17,7 +18,8 @@ const corsOptions =
     };
 app.use(cors(corsOptions));
 
-app.use(express.json());
+// Full-year imports and snapshots carry up to 366 days of text
+app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -51,8 +53,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  // Initialize database connection
-  // await initializeDatabase();
+  // SQLite backends migrate their schema on startup; both SQL backends then copy unmigrated matrix rows into journal_cells
+  await storageReady;
+  log(`using ${storageBackend} storage${storageBackend === "memory" ? ", nothing is kept after a restart" : ""}`, "db");
 
   const server = await registerRoutes(app);
 
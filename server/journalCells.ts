@@ -0,0 +1,133 @@
+import { and, eq, isNull, sql, type SQL } from "drizzle-orm";
+import type { DayContents } from "@shared/schema";
+import type { DatabaseTables } from "./db";
+import { changedCells, describeChanges, diffCounts, extractDayContentsFromRow, totalChanges } from "./journalContents";
+
+// Writing journal_cells and their revisions, shared by DatabaseStorage and the backfill from the
+// wide matrix tables. A snapshot is a timeline entry plus the revisions of the cells it changed.
+
+// Keeps multi-row inserts well under the Postgres and SQLite bind parameter limits
+const CELL_BATCH_SIZE = 500;
+
+export type CellMode = 'plan' | 'reality';
+
+export interface CellWrite {
+  userId: string;
+  year: number;
+  mode: CellMode;
+  timelineId: number | SQL; // The snapshot the new revisions belong to
+  cells: DayContents; // Changed cells only; null clears one
+  at: Date;
+}
+
+// Upserts each cell, bumping its revision, and records that revision against the snapshot
+export async function writeCellRevisions(db: any, tables: DatabaseTables, write: CellWrite): Promise<void> {
+  for (const statement of cellRevisionWrites(db, tables, write)) {
+    await statement;
+  }
+}
+
+// The statements behind writeCellRevisions, for callers that run them as one atomic unit. A batch cannot
+// use what an earlier statement returned, so each revision reads its cell's id and revision back itself.
+export function cellRevisionWrites(db: any, tables: DatabaseTables, { userId, year, mode, timelineId, cells, at }: CellWrite): any[] {
+  const { journalCells, journalCellRevisions } = tables;
+  const cellOf = (dayKey: string) => and(
+    eq(journalCells.userId, userId),
+    eq(journalCells.year, year),
+    eq(journalCells.mode, mode),
+    eq(journalCells.dayKey, dayKey)
+  );
+
+  const statements = [];
+  const keys = Object.keys(cells);
+  for (let i = 0; i < keys.length; i += CELL_BATCH_SIZE) {
+    const chunk = keys.slice(i, i + CELL_BATCH_SIZE);
+    statements.push(db.insert(journalCells)
+      .values(chunk.map((dayKey) => ({ userId, year, mode, dayKey, content: cells[dayKey] || null, revision: 1, updatedAt: at })))
+      .onConflictDoUpdate({
+        target: [journalCells.userId, journalCells.year, journalCells.mode, journalCells.dayKey],
+        set: {
+          content: sql`excluded.content`,
+          revision: sql`${journalCells.revision} + 1`,
+          updatedAt: at,
+        },
+      }));
+    statements.push(db.insert(journalCellRevisions).values(chunk.map((dayKey) => ({
+      cellId: sql`(select ${journalCells.id} from ${journalCells} where ${cellOf(dayKey)})`,
+      timelineId,
+      revision: sql`(select ${journalCells.revision} from ${journalCells} where ${cellOf(dayKey)})`,
+      content: cells[dayKey] || null,
+    }))));
+  }
+  return statements;
+}
+
+/**
+ * Copies journal_plan_matrix / journal_reality_matrix rows into cells and revisions, one user's year
+ * of one mode at a time. Each row becomes a snapshot: its timeline entry (created if missing) takes the
+ * row's metadata, and every cell that differs from the row before gets a revision. The rows are kept
+ * and marked migrated by a single update once their series is copied. A run cut short leaves that
+ * series unmarked, and the next run discards its cells and copies it again from all of its rows.
+ */
+export async function backfillJournalCells(db: any, tables: DatabaseTables): Promise<void> {
+  let copied = 0;
+  for (const mode of ['plan', 'reality'] as const) {
+    const table = mode === 'plan' ? tables.journalPlanMatrix : tables.journalRealityMatrix;
+    const series: { userId: string; year: number }[] = await db.selectDistinct({ userId: table.userId, year: table.year })
+      .from(table)
+      .where(isNull(table.migratedAt));
+    for (const { userId, year } of series) {
+      copied += await backfillSeries(db, tables, mode, userId, year);
+    }
+  }
+  if (copied > 0) {
+    console.log(`Copied ${copied} matrix snapshots into journal_cells`);
+  }
+}
+
+async function backfillSeries(db: any, tables: DatabaseTables, mode: CellMode, userId: string, year: number): Promise<number> {
+  const table = mode === 'plan' ? tables.journalPlanMatrix : tables.journalRealityMatrix;
+  const rows = await db.select().from(table)
+    .where(and(eq(table.userId, userId), eq(table.year, year)))
+    .orderBy(table.snapshotTimestamp, table.id);
+
+  await db.delete(tables.journalCells).where(and(
+    eq(tables.journalCells.userId, userId),
+    eq(tables.journalCells.year, year),
+    eq(tables.journalCells.mode, mode)
+  ));
+  const entries: { id: number; timestamp: Date }[] = await db.select({ id: tables.timelineIndex.id, timestamp: tables.timelineIndex.timestamp })
+    .from(tables.timelineIndex)
+    .where(and(eq(tables.timelineIndex.userId, userId), eq(tables.timelineIndex.year, year), eq(tables.timelineIndex.entryType, mode)));
+  const entryIdAt = new Map(entries.map((entry) => [new Date(entry.timestamp).getTime(), entry.id]));
+
+  let previous: DayContents | undefined;
+  for (const row of rows) {
+    const contents = extractDayContentsFromRow(row);
+    const at = new Date(row.snapshotTimestamp);
+    let timelineId = entryIdAt.get(at.getTime());
+
+    if (timelineId !== undefined) {
+      await db.update(tables.timelineIndex).set({ metadata: row.metadata }).where(eq(tables.timelineIndex.id, timelineId));
+    } else {
+      const counts = diffCounts(previous, contents, year);
+      const [entry] = await db.insert(tables.timelineIndex).values({
+        userId,
+        timestamp: at,
+        year,
+        entryType: mode,
+        changesCount: totalChanges(counts),
+        description: describeChanges(counts, mode, row.metadata),
+        metadata: row.metadata,
+      }).returning({ id: tables.timelineIndex.id });
+      timelineId = entry.id as number;
+    }
+
+    await writeCellRevisions(db, tables, { userId, year, mode, timelineId, cells: changedCells(previous, contents), at });
+    previous = contents;
+  }
+
+  await db.update(table).set({ migratedAt: new Date() })
+    .where(and(eq(table.userId, userId), eq(table.year, year)));
+  return rows.length;
+}
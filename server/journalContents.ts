@@ -0,0 +1,156 @@
+import type { DayContents, DayDiff, EditSession, EditSessionMetadata } from "@shared/schema";
+import { dayKeysForYear, getPeriodKind, DAY_KEY_PATTERN, PERIOD_KEY_PATTERNS, type PeriodKind } from "@shared/calendar";
+
+// The journal contents logic shared by every IStorage implementation: merging partial writes
+// into the full year, counting and describing changes, and reading matrix rows back.
+
+// Each period summary kind is stored in its own jsonb column on the matrix rows
+export const PERIOD_COLUMNS: Record<PeriodKind, 'weekContents' | 'monthContents' | 'quarterContents'> = {
+  week: 'weekContents',
+  month: 'monthContents',
+  quarter: 'quarterContents',
+};
+
+// A delta written within this long of the previous one extends the same editing session,
+// so a burst of keystrokes leaves one snapshot and one timeline entry instead of dozens
+export const EDIT_SESSION_GAP_MS = 10 * 60 * 1000;
+
+// Snapshot metadata that records an editing session, or undefined for snapshots written any other way
+export function editSessionMetadata(metadata: unknown): (EditSessionMetadata & { session: EditSession }) | undefined {
+  const session = (metadata as EditSessionMetadata | null | undefined)?.session;
+  if (typeof session?.started_at !== 'string' || typeof session.edits !== 'number') return undefined;
+  return metadata as EditSessionMetadata & { session: EditSession };
+}
+
+export type ChangeCounts = Record<'day' | PeriodKind, number>;
+
+function emptyDayContents(year: number): DayContents {
+  const contents: DayContents = {};
+  for (const k of dayKeysForYear(year)) contents[k] = null;
+  return contents;
+}
+
+// Full contents hold the year's day_XXX cells plus any week/month/quarter summaries
+export function mergeFullContents(previous: DayContents | undefined, incoming: DayContents, year: number): DayContents {
+  const dayKeys = dayKeysForYear(year);
+  const validDays = new Set(dayKeys);
+  const base = previous ? { ...previous } : emptyDayContents(year);
+  for (const k of Object.keys(incoming)) {
+    // Drop day keys past the end of this year (e.g. day_366 outside a leap year) and unknown keys
+    if (DAY_KEY_PATTERN.test(k) ? !validDays.has(k) : !getPeriodKind(k)) continue;
+    base[k] = incoming[k] ?? null;
+  }
+  for (const k of dayKeys) {
+    if (!(k in base)) base[k] = null;
+  }
+  return base;
+}
+
+export function pickDayColumns(contents: DayContents, year: number): DayContents {
+  const out: DayContents = {};
+  for (const k of dayKeysForYear(year)) out[k] = contents[k] ?? null;
+  return out;
+}
+
+export function pickPeriodColumns(contents: DayContents): Record<string, DayContents> {
+  const out: Record<string, DayContents> = {};
+  for (const kind of Object.keys(PERIOD_COLUMNS) as PeriodKind[]) {
+    out[PERIOD_COLUMNS[kind]] = {};
+  }
+  for (const k of Object.keys(contents)) {
+    const kind = getPeriodKind(k);
+    if (kind && contents[k]) out[PERIOD_COLUMNS[kind]][k] = contents[k];
+  }
+  return out;
+}
+
+export function countNonEmpty(contents: DayContents, year: number): number {
+  return dayKeysForYear(year).filter((k) => {
+    const v = contents[k];
+    return v !== null && v !== undefined && v !== '';
+  }).length;
+}
+
+export function diffCounts(before: DayContents | undefined, after: DayContents, year: number): ChangeCounts {
+  const prev = before || {};
+  const counts: ChangeCounts = { day: 0, week: 0, month: 0, quarter: 0 };
+  for (const k of dayKeysForYear(year)) {
+    if ((prev[k] || null) !== (after[k] || null)) counts.day++;
+  }
+  const periodKeys = new Set([...Object.keys(prev), ...Object.keys(after)]);
+  for (const k of Array.from(periodKeys)) {
+    const kind = getPeriodKind(k);
+    if (kind && (prev[k] || null) !== (after[k] || null)) counts[kind]++;
+  }
+  return counts;
+}
+
+export function totalChanges(counts: ChangeCounts): number {
+  return counts.day + counts.week + counts.month + counts.quarter;
+}
+
+export function describeChanges(counts: ChangeCounts, entryType: string, metadata?: any): string {
+  const verb = metadata?.source === 'import' ? 'Imported' : metadata?.source === 'restore' ? 'Restored' : 'Updated';
+  const parts = [`${counts.day} days`];
+  for (const kind of Object.keys(PERIOD_KEY_PATTERNS) as PeriodKind[]) {
+    if (counts[kind] > 0) parts.push(`${counts[kind]} ${kind}s`);
+  }
+  return `${verb} ${parts.join(', ')} of ${entryType}`;
+}
+
+// Cells whose value differs between two full contents, with null for cleared ones
+export function changedCells(before: DayContents | undefined, after: DayContents): DayContents {
+  const prev = before || {};
+  const cells: DayContents = {};
+  for (const k of Array.from(new Set([...Object.keys(prev), ...Object.keys(after)]))) {
+    if ((prev[k] || null) !== (after[k] || null)) cells[k] = after[k] || null;
+  }
+  return cells;
+}
+
+export function calculateCompletionRate(planContents: DayContents, realityContents: DayContents): number {
+  const planDays = Object.keys(planContents).filter(key => planContents[key] !== null && planContents[key] !== '');
+  const realityDays = Object.keys(realityContents).filter(key => realityContents[key] !== null && realityContents[key] !== '');
+
+  if (planDays.length === 0) return 0;
+
+  const completedDays = planDays.filter(day => realityDays.includes(day));
+  return Math.round((completedDays.length / planDays.length) * 100);
+}
+
+export function generateDiff(before: DayContents, after: DayContents): DayDiff[] {
+  const allDays = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return Array.from(allDays).map(day => {
+    const beforeContent = before[day];
+    const afterContent = after[day];
+
+    if (!beforeContent && !afterContent) {
+      return { day, before: null, after: null, status: 'unchanged' as const };
+    } else if (!beforeContent && afterContent) {
+      return { day, before: null, after: afterContent, status: 'added' as const };
+    } else if (beforeContent && !afterContent) {
+      return { day, before: beforeContent, after: null, status: 'removed' as const };
+    } else if (beforeContent !== afterContent) {
+      return { day, before: beforeContent, after: afterContent, status: 'modified' as const };
+    } else {
+      return { day, before: beforeContent, after: afterContent, status: 'unchanged' as const };
+    }
+  });
+}
+
+// Day columns plus the row's period summaries, in the same shape the client sends
+export function extractDayContentsFromRow(row: any): DayContents {
+  const out: DayContents = {} as DayContents;
+  for (const key of dayKeysForYear(row.year)) {
+    const v = row[key];
+    out[key] = v ?? null;
+  }
+  for (const kind of Object.keys(PERIOD_COLUMNS) as PeriodKind[]) {
+    const periods = (row[PERIOD_COLUMNS[kind]] || {}) as DayContents;
+    for (const key of Object.keys(periods)) {
+      if (PERIOD_KEY_PATTERNS[kind].test(key)) out[key] = periods[key] ?? null;
+    }
+  }
+  return out;
+}
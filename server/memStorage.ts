@@ -0,0 +1,753 @@
+import { randomBytes } from "crypto";
+import {
+  type User,
+  type InsertUser,
+  type AuthSession,
+  type CalendarFeed,
+  type DailySnapshot,
+  type DayContents,
+  type DeltaResult,
+  type EditSessionMetadata,
+  type JournalPlanMatrix,
+  type JournalRealityMatrix,
+  type MagicLinkToken,
+  type MatrixDelta,
+  type PendingTeamInvitation,
+  type PlanSnapshot,
+  type RealitySnapshot,
+  type ShareLink,
+  type ShareMode,
+  type Team,
+  type TeamInvitation,
+  type TeamMember,
+  type TeamMemberProfile,
+  type TeamRole,
+  type TimeMachineComparison,
+  type TimeMachineSnapshot,
+  type TimelineIndex,
+  type CellRevision,
+} from "@shared/schema";
+import type { GoogleProfile, IStorage, LocalProfile, NewAuthSession, NewMatrixSnapshot } from "./storage";
+import { publishJournalChange } from "./realtime/journalEvents";
+import {
+  EDIT_SESSION_GAP_MS,
+  calculateCompletionRate,
+  changedCells,
+  countNonEmpty,
+  describeChanges,
+  diffCounts,
+  editSessionMetadata,
+  extractDayContentsFromRow,
+  generateDiff,
+  mergeFullContents,
+  pickDayColumns,
+  pickPeriodColumns,
+  totalChanges,
+} from "./journalContents";
+import { selectSnapshotsToKeep, survivorsToRecount, type RetentionCounts, type RetentionPolicy, type RetentionReport } from "./retention/policy";
+
+type EntryType = 'plan' | 'reality';
+
+// Same shape as a journal_plan_matrix / journal_reality_matrix row
+type MatrixValues = Record<string, any> & { userId: string; year: number; snapshotTimestamp: Date; metadata: any };
+type MatrixRow = MatrixValues & { id: number };
+
+const TOTAL_COLUMNS: Record<EntryType, 'totalPlannedDays' | 'totalRealityDays'> = {
+  plan: 'totalPlannedDays',
+  reality: 'totalRealityDays',
+};
+
+// Everything lives in this process and is gone on restart. Used for demo instances and the
+// HTTP suite; rows keep the database shapes, so callers cannot tell it from DatabaseStorage.
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private magicLinkTokens: MagicLinkToken[] = [];
+  private authSessions = new Map<string, AuthSession>();
+  private matrices: Record<EntryType, MatrixRow[]> = { plan: [], reality: [] };
+  private dailySnapshots: DailySnapshot[] = [];
+  private timeline: TimelineIndex[] = [];
+  private calendarFeeds: CalendarFeed[] = [];
+  private shareLinks: ShareLink[] = [];
+  private teams: Team[] = [];
+  private teamMembers: TeamMember[] = [];
+  private teamInvitations: TeamInvitation[] = [];
+  private lastIds = new Map<string, number>(); // Per-table serial counters
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    return copy(this.users.get(id));
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return copy(this.findUser((user) => user.username === username));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return this.insertUser({ ...insertUser, id: insertUser.id || crypto.randomUUID() });
+  }
+
+  // OAuth methods
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    return copy(this.findUser((user) => user.googleId === googleId));
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return copy(this.findUser((user) => user.email === email));
+  }
+
+  async createGoogleUser(profile: GoogleProfile): Promise<User> {
+    return this.insertUser({
+      id: crypto.randomUUID(),
+      username: profile.email || `google_${profile.id}`,
+      password: null,
+      googleId: profile.id,
+      email: profile.email,
+      displayName: profile.displayName,
+      avatarUrl: profile.photos?.[0]?.value,
+      authProvider: 'google',
+      lastLogin: new Date(),
+    });
+  }
+
+  async updateUserLastLogin(userId: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) Object.assign(user, { lastLogin: new Date(), updatedAt: new Date() });
+  }
+
+  // Email/password and magic-link methods
+  async createLocalUser(profile: LocalProfile): Promise<User> {
+    return this.insertUser({
+      id: crypto.randomUUID(),
+      username: profile.email,
+      password: profile.passwordHash,
+      email: profile.email,
+      displayName: profile.displayName ?? profile.email.split('@')[0],
+      authProvider: 'local',
+      lastLogin: new Date(),
+    });
+  }
+
+  async createMagicLinkToken(email: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    this.magicLinkTokens.push({ id: this.nextId('magic_link_tokens'), email, tokenHash, expiresAt, usedAt: null, createdAt: new Date() });
+  }
+
+  async consumeMagicLinkToken(tokenHash: string): Promise<string | undefined> {
+    const token = this.magicLinkTokens.find((t) => t.tokenHash === tokenHash && !t.usedAt && t.expiresAt > new Date());
+    if (!token) return undefined;
+    token.usedAt = new Date();
+    return token.email;
+  }
+
+  // Auth session methods
+  async createAuthSession(session: NewAuthSession): Promise<AuthSession> {
+    const now = new Date();
+    const row: AuthSession = {
+      ...session,
+      id: crypto.randomUUID(),
+      previousRefreshTokenHash: null,
+      createdAt: now,
+      lastSeenAt: now,
+      rotatedAt: now,
+      revokedAt: null,
+    };
+    this.authSessions.set(row.id, row);
+    return { ...row };
+  }
+
+  async getAuthSession(id: string): Promise<AuthSession | undefined> {
+    return copy(this.authSessions.get(id));
+  }
+
+  async getAuthSessionByRefreshToken(tokenHash: string): Promise<AuthSession | undefined> {
+    const sessions = Array.from(this.authSessions.values());
+    return copy(sessions.find((s) => s.refreshTokenHash === tokenHash || s.previousRefreshTokenHash === tokenHash));
+  }
+
+  async rotateAuthSession(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<AuthSession | undefined> {
+    const session = this.authSessions.get(id);
+    if (!session || session.refreshTokenHash !== currentHash || session.revokedAt) return undefined;
+
+    const now = new Date();
+    Object.assign(session, { refreshTokenHash: nextHash, previousRefreshTokenHash: currentHash, rotatedAt: now, lastSeenAt: now, expiresAt });
+    return { ...session };
+  }
+
+  async touchAuthSession(id: string): Promise<void> {
+    const session = this.authSessions.get(id);
+    if (session) session.lastSeenAt = new Date();
+  }
+
+  async getAuthSessions(userId: string): Promise<AuthSession[]> {
+    const now = new Date();
+    return Array.from(this.authSessions.values())
+      .filter((s) => s.userId === userId && !s.revokedAt && s.expiresAt > now)
+      .sort((a, b) => time(b.lastSeenAt) - time(a.lastSeenAt))
+      .map((s) => ({ ...s }));
+  }
+
+  async revokeAuthSession(userId: string, id: string): Promise<boolean> {
+    const session = this.authSessions.get(id);
+    if (!session || session.userId !== userId || session.revokedAt) return false;
+    session.revokedAt = new Date();
+    return true;
+  }
+
+  async revokeAllAuthSessions(userId: string): Promise<number> {
+    const active = Array.from(this.authSessions.values()).filter((s) => s.userId === userId && !s.revokedAt);
+    active.forEach((s) => { s.revokedAt = new Date(); });
+    return active.length;
+  }
+
+  // Matrix journal operations
+  async createPlanSnapshot(entry: NewMatrixSnapshot): Promise<JournalPlanMatrix> {
+    return this.createSnapshot('plan', entry);
+  }
+
+  async createRealitySnapshot(entry: NewMatrixSnapshot): Promise<JournalRealityMatrix> {
+    return this.createSnapshot('reality', entry);
+  }
+
+  async applyPlanDelta(userId: string, year: number, changes: MatrixDelta, origin?: string): Promise<DeltaResult> {
+    return this.applyDelta('plan', userId, year, changes, origin);
+  }
+
+  async applyRealityDelta(userId: string, year: number, changes: MatrixDelta, origin?: string): Promise<DeltaResult> {
+    return this.applyDelta('reality', userId, year, changes, origin);
+  }
+
+  async getPlanSnapshot(userId: string, timestamp: string): Promise<JournalPlanMatrix | undefined> {
+    return this.getSnapshot('plan', userId, timestamp);
+  }
+
+  async getRealitySnapshot(userId: string, timestamp: string): Promise<JournalRealityMatrix | undefined> {
+    return this.getSnapshot('reality', userId, timestamp);
+  }
+
+  async getPlanSnapshotAt(userId: string, year: number, timestamp: string): Promise<JournalPlanMatrix | undefined> {
+    return withContents(this.rowAt('plan', userId, year, new Date(timestamp)));
+  }
+
+  async getRealitySnapshotAt(userId: string, year: number, timestamp: string): Promise<JournalRealityMatrix | undefined> {
+    return withContents(this.rowAt('reality', userId, year, new Date(timestamp)));
+  }
+
+  async getAllPlanSnapshots(userId: string, year: number): Promise<PlanSnapshot[]> {
+    return this.series('plan', userId, year).map((row) => withContents(row)!);
+  }
+
+  async getAllRealitySnapshots(userId: string, year: number): Promise<RealitySnapshot[]> {
+    return this.series('reality', userId, year).map((row) => withContents(row)!);
+  }
+
+  // Daily snapshot operations
+  async getDailySnapshot(userId: string, year: number): Promise<DailySnapshot | undefined> {
+    return copy(this.latestDailySnapshot(userId, year));
+  }
+
+  async updateDailySnapshot(snapshot: any): Promise<DailySnapshot> {
+    const completionRate = calculateCompletionRate(snapshot.latestPlanContents as DayContents, snapshot.latestRealityContents as DayContents);
+    const existing = this.latestDailySnapshot(snapshot.userId, snapshot.year);
+
+    if (existing) {
+      Object.assign(existing, snapshot, { completionRate, snapshotDate: new Date(), id: existing.id });
+      return { ...existing };
+    }
+
+    const created: DailySnapshot = {
+      planLastUpdated: null,
+      realityLastUpdated: null,
+      ...snapshot,
+      id: this.nextId('daily_snapshots'),
+      completionRate,
+    };
+    this.dailySnapshots.push(created);
+    return { ...created };
+  }
+
+  // Time Machine operations
+  async getTimeline(userId: string, year: number): Promise<TimelineIndex[]> {
+    return this.timeline
+      .filter((entry) => entry.userId === userId && entry.year === year)
+      .sort((a, b) => time(a.timestamp) - time(b.timestamp))
+      .map((entry) => ({ ...entry }));
+  }
+
+  async getTimeMachineSnapshot(userId: string, timestamp: string, year: number): Promise<TimeMachineSnapshot> {
+    const planSnapshot = await this.getPlanSnapshotAt(userId, year, timestamp);
+    const realitySnapshot = await this.getRealitySnapshotAt(userId, year, timestamp);
+
+    return {
+      timestamp,
+      year,
+      plan_contents: planSnapshot ? (planSnapshot as any).day_contents : {},
+      reality_contents: realitySnapshot ? (realitySnapshot as any).day_contents : {},
+      metadata: (planSnapshot?.metadata as Record<string, any> | undefined) || (realitySnapshot?.metadata as Record<string, any> | undefined),
+    };
+  }
+
+  async compareTimeMachineSnapshots(userId: string, timestamp1: string, timestamp2: string, year: number): Promise<TimeMachineComparison> {
+    const snapshot1 = await this.getTimeMachineSnapshot(userId, timestamp1, year);
+    const snapshot2 = await this.getTimeMachineSnapshot(userId, timestamp2, year);
+
+    return {
+      timestamp1,
+      timestamp2,
+      year,
+      plan_diff: generateDiff(snapshot1.plan_contents, snapshot2.plan_contents).filter((d) => d.status !== 'unchanged'),
+      reality_diff: generateDiff(snapshot1.reality_contents, snapshot2.reality_contents).filter((d) => d.status !== 'unchanged'),
+    };
+  }
+
+  async exportYearData(userId: string, year: number) {
+    return {
+      planSnapshots: await this.getAllPlanSnapshots(userId, year),
+      realitySnapshots: await this.getAllRealitySnapshots(userId, year),
+      dailySnapshot: await this.getDailySnapshot(userId, year),
+      timeline: await this.getTimeline(userId, year),
+    };
+  }
+
+  // Calendar feed operations
+  async getDailySnapshotsForUser(userId: string): Promise<DailySnapshot[]> {
+    const years = Array.from(new Set(this.dailySnapshots.filter((s) => s.userId === userId).map((s) => s.year)));
+    return years
+      .map((year) => ({ ...this.latestDailySnapshot(userId, year)! }))
+      .sort((a, b) => time(b.snapshotDate) - time(a.snapshotDate));
+  }
+
+  async getCalendarFeed(userId: string): Promise<CalendarFeed | undefined> {
+    return copy(this.calendarFeeds.find((feed) => feed.userId === userId));
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    return copy(this.calendarFeeds.find((feed) => feed.token === token));
+  }
+
+  async createOrRotateCalendarFeed(userId: string): Promise<CalendarFeed> {
+    const token = randomBytes(24).toString('base64url');
+    const existing = this.calendarFeeds.find((feed) => feed.userId === userId);
+
+    if (existing) {
+      Object.assign(existing, { token, createdAt: new Date() });
+      return { ...existing };
+    }
+
+    const feed: CalendarFeed = { id: this.nextId('calendar_feeds'), userId, token, createdAt: new Date() };
+    this.calendarFeeds.push(feed);
+    return { ...feed };
+  }
+
+  // Share link operations
+  async createShareLink(link: { userId: string; year: number; startDay: number | null; endDay: number | null; mode: ShareMode; expiresAt: Date | null }): Promise<ShareLink> {
+    const created: ShareLink = {
+      ...link,
+      id: this.nextId('share_links'),
+      token: randomBytes(24).toString('base64url'),
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.shareLinks.push(created);
+    return { ...created };
+  }
+
+  async getShareLinks(userId: string): Promise<ShareLink[]> {
+    return this.shareLinks
+      .filter((link) => link.userId === userId && !link.revokedAt)
+      .sort((a, b) => time(b.createdAt) - time(a.createdAt) || b.id - a.id)
+      .map((link) => ({ ...link }));
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    return copy(this.shareLinks.find((link) => link.token === token));
+  }
+
+  async revokeShareLink(userId: string, id: number): Promise<boolean> {
+    const link = this.shareLinks.find((l) => l.id === id && l.userId === userId && !l.revokedAt);
+    if (!link) return false;
+    link.revokedAt = new Date();
+    return true;
+  }
+
+  // Team operations
+  async createTeam(name: string, ownerId: string): Promise<Team> {
+    const team: Team = { id: this.nextId('teams'), name, createdBy: ownerId, createdAt: new Date() };
+    this.teams.push(team);
+    await this.addTeamMember(team.id, ownerId, 'owner');
+    return { ...team };
+  }
+
+  async getTeamsForUser(userId: string): Promise<(Team & { role: TeamRole })[]> {
+    return this.teamMembers
+      .filter((member) => member.userId === userId)
+      .map((member) => ({ ...this.teams.find((team) => team.id === member.teamId)!, role: member.role as TeamRole }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTeam(teamId: number): Promise<Team | undefined> {
+    return copy(this.teams.find((team) => team.id === teamId));
+  }
+
+  async getTeamMember(teamId: number, userId: string): Promise<TeamMember | undefined> {
+    return copy(this.findTeamMember(teamId, userId));
+  }
+
+  async getTeamMembers(teamId: number): Promise<TeamMemberProfile[]> {
+    return this.teamMembers
+      .filter((member) => member.teamId === teamId)
+      .sort((a, b) => time(a.joinedAt) - time(b.joinedAt))
+      .map((member) => {
+        const user = this.users.get(member.userId)!;
+        return { ...member, username: user.username, displayName: user.displayName, email: user.email };
+      });
+  }
+
+  async addTeamMember(teamId: number, userId: string, role: TeamRole): Promise<TeamMember> {
+    if (this.findTeamMember(teamId, userId)) {
+      throw new Error(`User ${userId} is already a member of team ${teamId}`);
+    }
+    const member: TeamMember = { id: this.nextId('team_members'), teamId, userId, role, joinedAt: new Date() };
+    this.teamMembers.push(member);
+    return { ...member };
+  }
+
+  async updateTeamMemberRole(teamId: number, userId: string, role: TeamRole): Promise<TeamMember | undefined> {
+    const member = this.findTeamMember(teamId, userId);
+    if (!member) return undefined;
+    member.role = role;
+    return { ...member };
+  }
+
+  async removeTeamMember(teamId: number, userId: string): Promise<boolean> {
+    const member = this.findTeamMember(teamId, userId);
+    if (!member) return false;
+    this.teamMembers = this.teamMembers.filter((other) => other !== member);
+    return true;
+  }
+
+  // Team invitation operations
+  async createTeamInvitation(teamId: number, email: string, role: TeamRole, invitedBy: string): Promise<TeamInvitation> {
+    const existing = this.teamInvitations.find((invitation) => invitation.teamId === teamId && invitation.email === email);
+    if (existing) {
+      Object.assign(existing, { role, invitedBy, createdAt: new Date() });
+      return { ...existing };
+    }
+    const invitation: TeamInvitation = { id: this.nextId('team_invitations'), teamId, email, role, invitedBy, createdAt: new Date() };
+    this.teamInvitations.push(invitation);
+    return { ...invitation };
+  }
+
+  async getTeamInvitations(teamId: number): Promise<TeamInvitation[]> {
+    return this.teamInvitations
+      .filter((invitation) => invitation.teamId === teamId)
+      .sort((a, b) => time(a.createdAt) - time(b.createdAt))
+      .map((invitation) => ({ ...invitation }));
+  }
+
+  async getInvitationsForEmail(email: string): Promise<PendingTeamInvitation[]> {
+    return this.teamInvitations
+      .filter((invitation) => invitation.email === email)
+      .sort((a, b) => time(a.createdAt) - time(b.createdAt))
+      .map((invitation) => ({ ...invitation, teamName: this.teams.find((team) => team.id === invitation.teamId)!.name }));
+  }
+
+  async acceptTeamInvitation(id: number, userId: string, email: string): Promise<TeamMember | undefined> {
+    const invitation = this.teamInvitations.find((other) => other.id === id && other.email === email);
+    if (!invitation) return undefined;
+    this.teamInvitations = this.teamInvitations.filter((other) => other !== invitation);
+    if (!this.findTeamMember(invitation.teamId, userId)) {
+      await this.addTeamMember(invitation.teamId, userId, invitation.role as TeamRole);
+    }
+    return copy(this.findTeamMember(invitation.teamId, userId));
+  }
+
+  async declineTeamInvitation(id: number, email: string): Promise<boolean> {
+    const before = this.teamInvitations.length;
+    this.teamInvitations = this.teamInvitations.filter((invitation) => !(invitation.id === id && invitation.email === email));
+    return this.teamInvitations.length < before;
+  }
+
+  async cancelTeamInvitation(teamId: number, id: number): Promise<boolean> {
+    const before = this.teamInvitations.length;
+    this.teamInvitations = this.teamInvitations.filter((invitation) => !(invitation.id === id && invitation.teamId === teamId));
+    return this.teamInvitations.length < before;
+  }
+
+  // Snapshots hold whole rows here, so a cell's history is every snapshot where it differs from the one before
+  async getCellRevisions(userId: string, year: number, entryType: EntryType, dayKey: string): Promise<CellRevision[]> {
+    const revisions: CellRevision[] = [];
+    let previous: string | null = null;
+    for (const row of this.series(entryType, userId, year)) {
+      const content = extractDayContentsFromRow(row)[dayKey] || null;
+      if (content === previous) continue;
+      revisions.push({ revision: revisions.length + 1, content, timestamp: row.snapshotTimestamp });
+      previous = content;
+    }
+    return revisions;
+  }
+
+  // Retention operations
+  async pruneSnapshots(policy: RetentionPolicy, options: { now?: Date; dryRun?: boolean } = {}): Promise<RetentionReport> {
+    const now = options.now ?? new Date();
+    const dryRun = options.dryRun ?? false;
+    return {
+      dryRun,
+      policy,
+      plan: this.pruneMatrixSnapshots('plan', policy, now, dryRun),
+      reality: this.pruneMatrixSnapshots('reality', policy, now, dryRun),
+    };
+  }
+
+  // Helper methods
+
+  private nextId(table: string): number {
+    const id = (this.lastIds.get(table) ?? 0) + 1;
+    this.lastIds.set(table, id);
+    return id;
+  }
+
+  private findUser(predicate: (user: User) => boolean): User | undefined {
+    return Array.from(this.users.values()).find(predicate);
+  }
+
+  // Enforces the same unique columns as the users table
+  private insertUser(values: InsertUser & { id: string }): User {
+    for (const column of ['id', 'username', 'googleId', 'email'] as const) {
+      const value = values[column];
+      if (value && this.findUser((user) => user[column] === value)) {
+        throw new Error(`A user with this ${column} already exists`);
+      }
+    }
+
+    const now = new Date();
+    const user: User = {
+      password: null,
+      googleId: null,
+      email: null,
+      displayName: null,
+      avatarUrl: null,
+      authProvider: 'local',
+      createdAt: now,
+      updatedAt: now,
+      lastLogin: null,
+      ...values,
+    };
+    this.users.set(user.id, user);
+    return { ...user };
+  }
+
+  private findTeamMember(teamId: number, userId: string): TeamMember | undefined {
+    return this.teamMembers.find((member) => member.teamId === teamId && member.userId === userId);
+  }
+
+  private latestDailySnapshot(userId: string, year: number): DailySnapshot | undefined {
+    return this.dailySnapshots
+      .filter((s) => s.userId === userId && s.year === year)
+      .sort((a, b) => time(b.snapshotDate) - time(a.snapshotDate))[0];
+  }
+
+  // One user's rows for a year, oldest first
+  private series(entryType: EntryType, userId: string, year: number): MatrixRow[] {
+    return this.matrices[entryType]
+      .filter((row) => row.userId === userId && row.year === year)
+      .sort(byTimestamp);
+  }
+
+  private latestRow(entryType: EntryType, userId: string, year: number): MatrixRow | undefined {
+    const rows = this.series(entryType, userId, year);
+    return rows[rows.length - 1];
+  }
+
+  private rowAt(entryType: EntryType, userId: string, year: number, at: Date): MatrixRow | undefined {
+    const rows = this.series(entryType, userId, year).filter((row) => row.snapshotTimestamp <= at);
+    return rows[rows.length - 1];
+  }
+
+  private getSnapshot(entryType: EntryType, userId: string, timestamp: string): any {
+    const at = new Date(timestamp).getTime();
+    return withContents(this.matrices[entryType].find((row) => row.userId === userId && row.snapshotTimestamp.getTime() === at));
+  }
+
+  private insertMatrixRow(entryType: EntryType, values: MatrixValues): MatrixRow {
+    const row: MatrixRow = { ...values, id: this.nextId(entryType), createdAt: new Date() };
+    this.matrices[entryType].push(row);
+    return row;
+  }
+
+  private addTimelineEntry(userId: string, year: number, timestamp: Date, entryType: EntryType, changesCount: number, description: string, metadata: any): TimelineIndex {
+    const entry: TimelineIndex = { id: this.nextId('timeline_index'), userId, timestamp, year, entryType, changesCount, description, metadata };
+    this.timeline.push(entry);
+    return { ...entry };
+  }
+
+  private findTimelineEntry(userId: string, year: number, entryType: EntryType, timestamp: Date): TimelineIndex | undefined {
+    return this.timeline.find((entry) =>
+      entry.userId === userId && entry.year === year && entry.entryType === entryType && time(entry.timestamp) === time(timestamp)
+    );
+  }
+
+  private async createSnapshot(entryType: EntryType, input: NewMatrixSnapshot): Promise<any> {
+    const { userId } = input;
+
+    const latestRow = this.latestRow(entryType, userId, input.year);
+    const latestContents = latestRow ? extractDayContentsFromRow(latestRow) : undefined;
+    const fullContents = mergeFullContents(latestContents, input.day_contents || {}, input.year);
+
+    const row = this.insertMatrixRow(entryType, {
+      userId,
+      snapshotTimestamp: new Date(),
+      year: input.year,
+      ...pickDayColumns(fullContents, input.year),
+      ...pickPeriodColumns(fullContents),
+      [TOTAL_COLUMNS[entryType]]: countNonEmpty(fullContents, input.year),
+      metadata: input.metadata ?? null,
+    });
+
+    const counts = diffCounts(latestContents, fullContents, input.year);
+    const timeline = this.addTimelineEntry(userId, input.year, row.snapshotTimestamp, entryType, totalChanges(counts), describeChanges(counts, entryType, input.metadata), row.metadata);
+    publishJournalChange({
+      userId,
+      year: input.year,
+      entryType,
+      cells: changedCells(latestContents, fullContents),
+      timeline,
+      replacesTimestamp: null,
+      origin: input.metadata?.client_id ?? null,
+    });
+
+    await this.updateDailySnapshotAfter(entryType, userId, input.year, fullContents);
+
+    return { ...row, day_contents: fullContents };
+  }
+
+  // Same rules as DatabaseStorage: cells apply only while their base matches, and a write soon
+  // after the previous one rewrites that session's row and timeline entry in place
+  private async applyDelta(entryType: EntryType, userId: string, year: number, changes: MatrixDelta, origin?: string): Promise<DeltaResult> {
+    const latestRow = this.latestRow(entryType, userId, year);
+    const latestContents = latestRow ? extractDayContentsFromRow(latestRow) : undefined;
+
+    const result: DeltaResult = { applied: [], conflicts: [], snapshot_timestamp: latestRow?.snapshotTimestamp.toISOString() ?? null };
+    const incoming: DayContents = {};
+    for (const [key, change] of Object.entries(changes)) {
+      const current = latestContents?.[key] || null;
+      if (current === (change.content || null)) {
+        result.applied.push(key);
+      } else if (current === (change.base || null)) {
+        incoming[key] = change.content || null;
+        result.applied.push(key);
+      } else {
+        result.conflicts.push({ key, base: change.base, content: change.content, current });
+      }
+    }
+    if (Object.keys(incoming).length === 0) return result;
+
+    const fullContents = mergeFullContents(latestContents, incoming, year);
+    const now = new Date();
+    const columns = {
+      ...pickDayColumns(fullContents, year),
+      ...pickPeriodColumns(fullContents),
+      [TOTAL_COLUMNS[entryType]]: countNonEmpty(fullContents, year),
+      snapshotTimestamp: now,
+    };
+
+    let timeline: TimelineIndex | undefined;
+    let replacesTimestamp: string | null = null;
+    const sessionMetadata = editSessionMetadata(latestRow?.metadata);
+    const continuesSession = latestRow && sessionMetadata && now.getTime() - latestRow.snapshotTimestamp.getTime() < EDIT_SESSION_GAP_MS;
+
+    if (continuesSession) {
+      const { session } = sessionMetadata;
+      const previousTimestamp = latestRow.snapshotTimestamp;
+      const metadata: EditSessionMetadata = { ...sessionMetadata, session: { ...session, edits: session.edits + 1 } };
+      Object.assign(latestRow, columns, { metadata });
+
+      const beforeRow = this.rowAt(entryType, userId, year, new Date(new Date(session.started_at).getTime() - 1));
+      const counts = diffCounts(beforeRow ? extractDayContentsFromRow(beforeRow) : undefined, fullContents, year);
+      const entry = this.findTimelineEntry(userId, year, entryType, previousTimestamp);
+      if (entry) {
+        Object.assign(entry, { timestamp: now, changesCount: totalChanges(counts), description: describeChanges(counts, entryType, metadata), metadata });
+        timeline = { ...entry };
+      }
+      replacesTimestamp = previousTimestamp.toISOString();
+    } else {
+      const metadata: EditSessionMetadata = { source: 'delta', session: { started_at: now.toISOString(), edits: 1 } };
+      this.insertMatrixRow(entryType, { ...columns, userId, year, metadata });
+
+      const counts = diffCounts(latestContents, fullContents, year);
+      timeline = this.addTimelineEntry(userId, year, now, entryType, totalChanges(counts), describeChanges(counts, entryType, metadata), metadata);
+    }
+
+    await this.updateDailySnapshotAfter(entryType, userId, year, fullContents);
+
+    if (timeline) {
+      publishJournalChange({ userId, year, entryType, cells: incoming, timeline, replacesTimestamp, origin: origin ?? null });
+    }
+
+    return { ...result, snapshot_timestamp: now.toISOString() };
+  }
+
+  private async updateDailySnapshotAfter(entryType: EntryType, userId: string, year: number, dayContents: DayContents): Promise<void> {
+    const existing = this.latestDailySnapshot(userId, year);
+    const now = new Date();
+
+    await this.updateDailySnapshot({
+      userId,
+      snapshotDate: now,
+      year,
+      latestPlanContents: entryType === 'plan' ? dayContents : existing?.latestPlanContents || {},
+      latestRealityContents: entryType === 'reality' ? dayContents : existing?.latestRealityContents || {},
+      planLastUpdated: entryType === 'plan' ? now : existing?.planLastUpdated || null,
+      realityLastUpdated: entryType === 'reality' ? now : existing?.realityLastUpdated || null,
+    });
+  }
+
+  private pruneMatrixSnapshots(entryType: EntryType, policy: RetentionPolicy, now: Date, dryRun: boolean): RetentionCounts {
+    const rows = this.matrices[entryType];
+    const counts: RetentionCounts = { scanned: rows.length, deleted: 0, timelineDeleted: 0, bytesReclaimed: 0 };
+
+    const series = new Map<string, MatrixRow[]>();
+    rows.forEach((row) => {
+      const key = `${row.userId}:${row.year}`;
+      series.set(key, [...(series.get(key) ?? []), row]);
+    });
+
+    for (const snapshots of Array.from(series.values())) {
+      snapshots.sort(byTimestamp);
+      const { userId, year } = snapshots[0];
+      const keep = selectSnapshotsToKeep(snapshots, policy, now);
+      const dropped = snapshots.filter((row) => !keep.has(row.id));
+      if (dropped.length === 0) continue;
+
+      const droppedEntries = dropped
+        .map((row) => this.findTimelineEntry(userId, year, entryType, row.snapshotTimestamp))
+        .filter((entry): entry is TimelineIndex => !!entry);
+      counts.deleted += dropped.length;
+      counts.timelineDeleted += droppedEntries.length;
+      counts.bytesReclaimed += [...dropped, ...droppedEntries].reduce((sum, row) => sum + Buffer.byteLength(JSON.stringify(row)), 0);
+      if (dryRun) continue;
+
+      for (const { survivor, previous } of survivorsToRecount(snapshots, keep)) {
+        const changes = diffCounts(previous ? extractDayContentsFromRow(previous) : undefined, extractDayContentsFromRow(survivor), year);
+        const entry = this.findTimelineEntry(userId, year, entryType, survivor.snapshotTimestamp);
+        if (entry) Object.assign(entry, { changesCount: totalChanges(changes), description: describeChanges(changes, entryType, survivor.metadata) });
+      }
+
+      this.matrices[entryType] = this.matrices[entryType].filter((row) => !dropped.includes(row));
+      this.timeline = this.timeline.filter((entry) => !droppedEntries.includes(entry));
+    }
+
+    return counts;
+  }
+}
+
+const time = (date: Date | null) => date?.getTime() ?? 0;
+
+const byTimestamp = (a: MatrixRow, b: MatrixRow) => time(a.snapshotTimestamp) - time(b.snapshotTimestamp) || a.id - b.id;
+
+// Stored rows are handed out as copies so callers cannot change them behind the storage's back
+function copy<T extends object>(row: T | undefined): T | undefined {
+  return row ? { ...row } : undefined;
+}
+
+function withContents(row: MatrixRow | undefined): any {
+  return row ? { ...row, day_contents: extractDayContentsFromRow(row) } : undefined;
+}
@@ -0,0 +1,33 @@
+import { EventEmitter } from 'events';
+import type { DayContents, TimelineIndex } from '@shared/schema';
+
+// In-process fan-out of journal writes to every open event stream of the same user.
+// A single server process holds all connections, so no broker is involved.
+
+export interface JournalChangeEvent {
+  userId: string;
+  year: number;
+  entryType: 'plan' | 'reality';
+  cells: DayContents; // Changed cells only; null means the cell was cleared
+  timeline: TimelineIndex; // Entry written for this change
+  replacesTimestamp: string | null; // Previous timeline entry when an editing session rewrote it
+  origin: string | null; // Client id of the tab that made the change, so it can skip its own echo
+}
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open tab
+
+const channel = (userId: string) => `user:${userId}`;
+
+export function publishJournalChange(event: JournalChangeEvent): void {
+  if (Object.keys(event.cells).length === 0) return;
+  emitter.emit(channel(event.userId), event);
+}
+
+// Returns the unsubscribe function
+export function subscribeToJournalChanges(userId: string, listener: (event: JournalChangeEvent) => void): () => void {
+  emitter.on(channel(userId), listener);
+  return () => {
+    emitter.off(channel(userId), listener);
+  };
+}
@@ -0,0 +1,83 @@
+// Decides which matrix snapshots survive a retention run. Recent history is kept whole; older
+// history is thinned to the last snapshot of each hour, then of each day, so the Time Machine
+// can still step back to how every day ended.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface RetentionPolicy {
+  keepAllDays: number; // Every snapshot younger than this is kept
+  hourlyDays: number; // Then the last snapshot of each hour, up to this age; older ones keep one per day
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = { keepAllDays: 7, hourlyDays: 30 };
+
+export interface RetainedSnapshot {
+  id: number;
+  snapshotTimestamp: Date;
+}
+
+function readDays(value: string | undefined, fallback: number): number {
+  const days = value === undefined ? NaN : Number(value);
+  return Number.isFinite(days) && days >= 0 ? days : fallback;
+}
+
+// RETENTION_KEEP_ALL_DAYS / RETENTION_HOURLY_DAYS override the defaults
+export function retentionPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): RetentionPolicy {
+  const keepAllDays = readDays(env.RETENTION_KEEP_ALL_DAYS, DEFAULT_RETENTION_POLICY.keepAllDays);
+  const hourlyDays = readDays(env.RETENTION_HOURLY_DAYS, DEFAULT_RETENTION_POLICY.hourlyDays);
+  return { keepAllDays, hourlyDays: Math.max(keepAllDays, hourlyDays) };
+}
+
+/**
+ * Returns the ids to keep from one user's snapshots of one year and one entry type.
+ * Each hour or day bucket keeps its newest snapshot, and the latest snapshot is always kept.
+ */
+export function selectSnapshotsToKeep(snapshots: RetainedSnapshot[], policy: RetentionPolicy, now: Date): Set<number> {
+  const sorted = [...snapshots].sort((a, b) => a.snapshotTimestamp.getTime() - b.snapshotTimestamp.getTime() || a.id - b.id);
+  const newestPerBucket = new Map<string, number>();
+
+  sorted.forEach(({ id, snapshotTimestamp }) => {
+    const time = snapshotTimestamp.getTime();
+    const age = now.getTime() - time;
+    const bucket = age < policy.keepAllDays * DAY_MS
+      ? `snapshot:${id}`
+      : age < policy.hourlyDays * DAY_MS
+        ? `hour:${Math.floor(time / HOUR_MS)}`
+        : `day:${Math.floor(time / DAY_MS)}`;
+    newestPerBucket.set(bucket, id); // Sorted oldest first, so the last write wins
+  });
+
+  const keep = new Set(newestPerBucket.values());
+  if (sorted.length > 0) keep.add(sorted[sorted.length - 1].id);
+  return keep;
+}
+
+/**
+ * Survivors with dropped snapshots just before them, paired with the survivor before that.
+ * Their timeline entries now stand for every change since that previous survivor and need recounting.
+ */
+export function survivorsToRecount<T extends RetainedSnapshot>(snapshots: T[], keep: Set<number>): { survivor: T; previous: T | undefined }[] {
+  const survivors = snapshots.filter((row) => keep.has(row.id));
+  return survivors
+    .map((survivor, index) => ({ survivor, previous: index > 0 ? survivors[index - 1] : undefined }))
+    .filter(({ survivor, previous }) => snapshots.some((row) =>
+      !keep.has(row.id)
+      && row.snapshotTimestamp < survivor.snapshotTimestamp
+      && (!previous || row.snapshotTimestamp > previous.snapshotTimestamp)
+    ));
+}
+
+export interface RetentionCounts {
+  scanned: number;
+  deleted: number;
+  timelineDeleted: number;
+  bytesReclaimed: number; // Size of the deleted rows; the table shrinks on disk once Postgres vacuums it
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  plan: RetentionCounts;
+  reality: RetentionCounts;
+}
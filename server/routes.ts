@@ -1,23 +1,90 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, storageBackend, type NewMatrixSnapshot } from "./storage";
 import { z } from "zod";
 import cookieParser from 'cookie-parser';
-import { requireAuth, optionalAuth } from './auth/middleware';
+import { requireAuth, requireOwnUser, optionalAuth } from './auth/middleware';
+import { requireTeamRole } from './auth/teams';
 import { handleGoogleOneTap } from './auth/google-one-tap';
+import { handleLogin, handleMagicLinkRequest, handleMagicLinkVerify, handleRegister } from './auth/local';
+import { clearAuthCookies, describeUserAgent, handleRefresh, isSessionActive } from './auth/sessions';
 import dotenv from 'dotenv';
+import { generateMatrixCSV, isCsvExportVariant } from './export/csv';
+import { generateMarkdownVault } from './export/markdown';
+import { createZip } from './export/zip';
+import { generatePlanCalendar } from './export/ics';
+import { parseCsvImport, parseJsonImport, parseJsonText, ImportParseError, type ImportEntryType } from './import/parse';
+import { previewImport, type ImportPreview } from './import/preview';
+import { daysInYear, isMatrixKey } from '@shared/calendar';
+import { TEAM_ROLES, type DayContents, type PlanSnapshot, type RealitySnapshot, type ShareLink, type Team, type TeamInvitation, type TeamMemberProfile, type TeamRole } from '@shared/schema';
+import { subscribeToJournalChanges } from './realtime/journalEvents';
+import { buildSharedView, isShareLinkActive } from './share/view';
 
 // Load environment variables
 dotenv.config();
 
+// Comment lines keep idle event streams from being closed by proxies
+const EVENT_STREAM_HEARTBEAT_MS = 25000;
+
 // Validation schemas for API requests
 const matrixUpdateSchema = z.object({
   user_id: z.string(),
   year: z.number(),
-  day_contents: z.record(z.string().nullable()), // { day_001: "content" }
+  day_contents: z.record(z.string().nullable()), // { day_001: "content", week_2025_07: "content", month_2025_03: "content" }
   metadata: z.any().optional(),
 });
 
+const matrixDeltaSchema = z.object({
+  year: z.number(),
+  changes: z.record(z.object({
+    base: z.string().nullable(), // Value the client last saw for this cell
+    content: z.string().nullable(), // null clears the cell
+  })),
+  client_id: z.string().optional(), // Lets the sending tab skip the echo on its event stream
+}).refine(
+  ({ year, changes }) => Object.keys(changes).every((key) => isMatrixKey(key, year)),
+  { message: "Unknown day or period key", path: ["changes"] }
+);
+
+const shareLinkSchema = z.object({
+  year: z.number().int(),
+  start_day: z.number().int().min(1).optional(), // Omit to share from Jan 1
+  end_day: z.number().int().min(1).optional(), // Inclusive; omit to share through Dec 31
+  mode: z.enum(['plan', 'reality', 'both']).default('both'),
+  expires_in_days: z.number().int().positive().optional(), // Omit for a link that lasts until revoked
+}).refine(
+  ({ year, start_day = 1, end_day = daysInYear(year) }) => start_day <= end_day && end_day <= daysInYear(year),
+  { message: "Day range must fall within the year and start before it ends", path: ["start_day"] }
+);
+
+const teamSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+const teamInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(TEAM_ROLES).default('editor'),
+});
+
+const teamRoleSchema = z.object({
+  role: z.enum(TEAM_ROLES),
+});
+
+// CSV arrives as text; JSON either as the parsed /api/export object or as the file's text
+const importSchema = z.discriminatedUnion('format', [
+  z.object({
+    format: z.literal('csv'),
+    type: z.enum(['plan', 'reality']).optional(), // Only needed when the CSV header does not say
+    data: z.string(),
+    dry_run: z.boolean().default(false),
+  }),
+  z.object({
+    format: z.literal('json'),
+    data: z.union([z.string(), z.record(z.any())]),
+    dry_run: z.boolean().default(false),
+  }),
+]);
+
 export async function registerRoutes(app: Express): Promise<Server> {
 
   // ==================== SETUP ====================
@@ -30,10 +97,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Google One Tap Sign-In (Modern approach)
   app.post('/api/auth/google', handleGoogleOneTap);
 
-  // Logout
-  app.post('/api/auth/logout', (req, res) => {
-    res.clearCookie('auth_token');
-    res.json({ message: 'Logged out successfully' });
+  // Email/password registration and login
+  app.post('/api/auth/register', handleRegister);
+  app.post('/api/auth/login', handleLogin);
+
+  // Passwordless: email a single-use link, then sign in when it is opened
+  app.post('/api/auth/magic-link', handleMagicLinkRequest);
+  app.get('/api/auth/magic-link/verify', handleMagicLinkVerify);
+
+  // Swap the refresh cookie for a new access token (and a rotated refresh token)
+  app.post('/api/auth/refresh', handleRefresh);
+
+  // Logout - ends this device's session, not just its cookies
+  app.post('/api/auth/logout', optionalAuth, async (req, res) => {
+    try {
+      if (req.userId && req.sessionId) {
+        await storage.revokeAuthSession(req.userId, req.sessionId);
+      }
+      clearAuthCookies(res);
+      res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+      console.error("Error logging out:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GET /api/auth/sessions - Signed-in devices with when they were last seen
+  app.get('/api/auth/sessions', requireAuth, async (req, res) => {
+    try {
+      const sessions = await storage.getAuthSessions(req.userId!);
+      res.json(sessions.map((session) => ({
+        id: session.id,
+        device: describeUserAgent(session.userAgent),
+        ip_address: session.ipAddress,
+        created_at: session.createdAt,
+        last_seen_at: session.lastSeenAt,
+        current: session.id === req.sessionId,
+      })));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // DELETE /api/auth/sessions/:id - Sign one device out
+  app.delete('/api/auth/sessions/:id', requireAuth, async (req, res) => {
+    try {
+      const revoked = await storage.revokeAuthSession(req.userId!, req.params.id);
+
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      if (req.params.id === req.sessionId) {
+        clearAuthCookies(res);
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // DELETE /api/auth/sessions - Sign out everywhere, this device included
+  app.delete('/api/auth/sessions', requireAuth, async (req, res) => {
+    try {
+      const revoked = await storage.revokeAllAuthSessions(req.userId!);
+      clearAuthCookies(res);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
   });
 
   // Get current user from JWT
@@ -57,7 +192,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Map snake_case API to camelCase Schema
-      const entry: any = {
+      const entry: NewMatrixSnapshot = {
         userId: validated.user_id,
         year: validated.year,
         day_contents: validated.day_contents,
@@ -85,7 +220,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         user_id: userId,
       });
 
-      const entry: any = {
+      const entry: NewMatrixSnapshot = {
         userId: validated.user_id,
         year: validated.year,
         day_contents: validated.day_contents,
@@ -103,10 +238,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // PATCH /api/matrix/plan - Apply changed plan cells; cells edited elsewhere come back as conflicts
+  app.patch("/api/matrix/plan", requireAuth, async (req, res) => {
+    try {
+      const { year, changes, client_id } = matrixDeltaSchema.parse(req.body);
+      const result = await storage.applyPlanDelta(req.userId!, year, changes, client_id);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error applying plan delta:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/matrix/reality - Apply changed reality cells
+  app.patch("/api/matrix/reality", requireAuth, async (req, res) => {
+    try {
+      const { year, changes, client_id } = matrixDeltaSchema.parse(req.body);
+      const result = await storage.applyRealityDelta(req.userId!, year, changes, client_id);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error applying reality delta:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // GET /api/matrix/:userId/:year/daily - Get daily snapshot (latest plan/reality)
-  app.get("/api/matrix/:userId/:year/daily", async (req, res) => {
+  app.get("/api/matrix/:userId/:year/daily", requireAuth, requireOwnUser, async (req, res) => {
     try {
-      const { userId, year } = req.params;
+      const { year } = req.params;
+      const userId = req.userId!;
       const yearNum = parseInt(year);
 
       if (isNaN(yearNum)) {
@@ -126,71 +292,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // GET /api/matrix/:userId/:year/plans - Get all plan snapshots for year
-  // NOTE: In the new schema, we don't return "snapshots" (history rows) in the same way.
-  // We return the current state. The frontend might expect an array.
-  // If the frontend expects an array of snapshots, we might need to adjust.
-  // But `getAllPlanSnapshots` in previous storage returned `JournalPlanMatrix[]`.
-  // Let's see what `storage.getPlanMatrix` returns. It returns `JournalMatrix` (single object).
-  // If the frontend expects an array, we should wrap it or change frontend.
-  // The previous code: `return rows.map(...)`.
-  // The frontend `getAllSnapshots` expects `JournalSnapshot[]`.
-  // If we only have the latest state, we return an array of 1?
-  app.get("/api/matrix/:userId/:year/plans", async (req, res) => {
+  // GET /api/matrix/:userId/:year/plans - Get all plan snapshots for year, oldest first
+  app.get("/api/matrix/:userId/:year/plans", requireAuth, requireOwnUser, async (req, res) => {
     try {
-      const { userId, year } = req.params;
+      const { year } = req.params;
+      const userId = req.userId!;
       const yearNum = parseInt(year);
 
       if (isNaN(yearNum)) {
         return res.status(400).json({ message: "Invalid year" });
       }
 
-      const matrix = await storage.getPlanMatrix(userId, yearNum);
-      // Wrap in array to maintain API compatibility if possible, 
-      // though the "snapshot" concept is slightly different now.
-      // We construct a "snapshot" looking object.
-      const snapshot = {
-        ...matrix,
-        snapshot_timestamp: new Date(), // Fake timestamp for now
-        day_contents: matrix.dayContents
-      };
-
-      res.json([snapshot]);
+      const snapshots = await storage.getAllPlanSnapshots(userId, yearNum);
+      res.json(snapshots.map(snapshotResponse));
     } catch (error) {
       console.error("Error fetching plan snapshots:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // GET /api/matrix/:userId/:year/realities - Get all reality snapshots for year
-  app.get("/api/matrix/:userId/:year/realities", async (req, res) => {
+  // GET /api/matrix/:userId/:year/realities - Get all reality snapshots for year, oldest first
+  app.get("/api/matrix/:userId/:year/realities", requireAuth, requireOwnUser, async (req, res) => {
     try {
-      const { userId, year } = req.params;
+      const { year } = req.params;
+      const userId = req.userId!;
       const yearNum = parseInt(year);
 
       if (isNaN(yearNum)) {
         return res.status(400).json({ message: "Invalid year" });
       }
 
-      const matrix = await storage.getRealityMatrix(userId, yearNum);
-      const snapshot = {
-        ...matrix,
-        snapshot_timestamp: new Date(),
-        day_contents: matrix.dayContents
-      };
-      res.json([snapshot]);
+      const snapshots = await storage.getAllRealitySnapshots(userId, yearNum);
+      res.json(snapshots.map(snapshotResponse));
     } catch (error) {
       console.error("Error fetching reality snapshots:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // GET /api/matrix/:userId/:year/:mode/:dayKey/revisions - Every value one cell has held, oldest first
+  app.get("/api/matrix/:userId/:year/:mode/:dayKey/revisions", requireAuth, requireOwnUser, async (req, res) => {
+    try {
+      const { year, mode, dayKey } = req.params;
+      const userId = req.userId!;
+      const yearNum = parseInt(year);
+
+      if (isNaN(yearNum)) {
+        return res.status(400).json({ message: "Invalid year" });
+      }
+
+      if (mode !== 'plan' && mode !== 'reality') {
+        return res.status(400).json({ message: "Mode must be 'plan' or 'reality'" });
+      }
+
+      if (!isMatrixKey(dayKey, yearNum)) {
+        return res.status(400).json({ message: "Unknown day or period key" });
+      }
+
+      const revisions = await storage.getCellRevisions(userId, yearNum, mode, dayKey);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching cell revisions:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ==================== REALTIME ROUTES ====================
+
+  // GET /api/events - Server-sent stream of changed cells and timeline entries from the user's other sessions
+  app.get("/api/events", requireAuth, (req, res) => {
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    const unsubscribe = subscribeToJournalChanges(req.userId!, (event) => {
+      const payload = {
+        year: event.year,
+        entry_type: event.entryType,
+        cells: event.cells,
+        timeline: event.timeline,
+        replaces_timestamp: event.replacesTimestamp,
+        origin: event.origin,
+      };
+      res.write(`event: journal-change\ndata: ${JSON.stringify(payload)}\n\n`);
+    });
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    // requireAuth only checked the session when the stream opened; once it is signed out or revoked the
+    // stream ends, and the client's reconnect gets a 401
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!isSessionActive(await storage.getAuthSession(req.sessionId!))) return close();
+        res.write(": heartbeat\n\n");
+      } catch (error) {
+        console.error("Error checking event stream session:", error);
+      }
+    }, EVENT_STREAM_HEARTBEAT_MS);
+
+    req.on("close", close);
+  });
+
   // ==================== TIME MACHINE ROUTES ====================
 
   // GET /api/timemachine/:userId/:year/timeline - Get timeline for Time Machine scrubbing
-  app.get("/api/timemachine/:userId/:year/timeline", async (req, res) => {
+  app.get("/api/timemachine/:userId/:year/timeline", requireAuth, requireOwnUser, async (req, res) => {
     try {
-      const { userId, year } = req.params;
+      const { year } = req.params;
+      const userId = req.userId!;
       const yearNum = parseInt(year);
 
       if (isNaN(yearNum)) {
@@ -205,55 +420,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // GET /api/timemachine/:userId/:year/snapshot/:timestamp
-  // This is harder now. We are not storing full snapshots for every edit.
-  // We are storing individual entries.
-  // To reconstruct a snapshot at a time T, we need to query journal_entries where updatedAt <= T.
-  // This is complex "temporal database" stuff.
-  // For now, we might just return the current state and warn, or implement a basic version.
-  // Given the scope, let's return the current state but maybe TODO: implement real time travel.
-  // OR, since we kept `timelineIndex`, we have the markers.
-  // But we didn't implement `getTimeMachineSnapshot` in `DatabaseStorage` yet.
-  // Let's add a placeholder or simple implementation.
-  app.get("/api/timemachine/:userId/:year/snapshot/:timestamp", async (req, res) => {
-    // Placeholder: return current state
-    const { userId, year } = req.params;
-    const yearNum = parseInt(year);
-    const plan = await storage.getPlanMatrix(userId, yearNum);
-    const reality = await storage.getRealityMatrix(userId, yearNum);
+  // GET /api/timemachine/:userId/:year/snapshot/:timestamp - Plan/reality matrices as they stood at a point in time
+  app.get("/api/timemachine/:userId/:year/snapshot/:timestamp", requireAuth, requireOwnUser, async (req, res) => {
+    try {
+      const { year, timestamp } = req.params;
+      const userId = req.userId!;
+      const yearNum = parseInt(year);
+
+      if (isNaN(yearNum)) {
+        return res.status(400).json({ message: "Invalid year" });
+      }
 
-    res.json({
-      timestamp: req.params.timestamp,
-      year: yearNum,
-      plan_contents: plan.dayContents,
-      reality_contents: reality.dayContents,
-      metadata: {}
-    });
+      if (isNaN(new Date(timestamp).getTime())) {
+        return res.status(400).json({ message: "Invalid timestamp" });
+      }
+
+      const snapshot = await storage.getTimeMachineSnapshot(userId, timestamp, yearNum);
+      res.json(snapshot);
+    } catch (error) {
+      console.error("Error fetching time machine snapshot:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GET /api/timemachine/:userId/:year/compare?from=&to= - Day-level diff between two timeline points
+  app.get("/api/timemachine/:userId/:year/compare", requireAuth, requireOwnUser, async (req, res) => {
+    try {
+      const { year } = req.params;
+      const userId = req.userId!;
+      const yearNum = parseInt(year);
+
+      if (isNaN(yearNum)) {
+        return res.status(400).json({ message: "Invalid year" });
+      }
+
+      const from = typeof req.query.from === 'string' ? req.query.from : '';
+      const to = typeof req.query.to === 'string' ? req.query.to : '';
+
+      if (isNaN(new Date(from).getTime()) || isNaN(new Date(to).getTime())) {
+        return res.status(400).json({ message: "Both 'from' and 'to' must be valid timestamps" });
+      }
+
+      const comparison = await storage.compareTimeMachineSnapshots(userId, from, to, yearNum);
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error comparing time machine snapshots:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
   });
 
   // ==================== EXPORT ROUTES ====================
 
-  // GET /api/export/:userId/:year - Export full year data
-  app.get("/api/export/:userId/:year", async (req, res) => {
+  // GET /api/export/:userId/:year?format=json|csv|markdown&variant=plan|reality|comparison - Export full year data
+  app.get("/api/export/:userId/:year", requireAuth, requireOwnUser, async (req, res) => {
     try {
-      const { userId, year } = req.params;
-      const { format = 'json' } = req.query;
+      const { year } = req.params;
+      const userId = req.userId!;
+      const { format = 'json', variant = 'plan' } = req.query;
       const yearNum = parseInt(year);
 
       if (isNaN(yearNum)) {
         return res.status(400).json({ message: "Invalid year" });
       }
 
+      if (format === 'csv' && !isCsvExportVariant(variant)) {
+        return res.status(400).json({ message: "Invalid CSV variant, expected plan, reality or comparison" });
+      }
+
       const exportData = await storage.exportYearData(userId, yearNum);
 
-      if (format === 'csv') {
-        // Generate CSV format for matrix data
-        // We need to adapt generateMatrixCSV to the new data structure
-        // const csvData = generateMatrixCSV(exportData);
-        // res.setHeader('Content-Type', 'text/csv');
-        // res.setHeader('Content-Disposition', `attachment; filename="journal-${userId}-${year}.csv"`);
-        // res.send(csvData);
-        res.status(501).send("CSV export temporarily unavailable during migration");
+      if (format === 'csv' && isCsvExportVariant(variant)) {
+        const csvData = generateMatrixCSV(exportData, yearNum, variant);
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="journal-${userId}-${yearNum}-${variant}.csv"`);
+        res.send(csvData);
+      } else if (format === 'markdown') {
+        const vault = createZip(generateMarkdownVault(exportData, yearNum));
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="journal-${userId}-${yearNum}-markdown.zip"`);
+        res.send(vault);
       } else {
         // JSON format
         res.json(exportData);
@@ -264,6 +509,421 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ==================== CALENDAR ROUTES ====================
+
+  // GET /api/calendar/feed - Get (creating on first use) the signed-in user's subscription URL
+  app.get("/api/calendar/feed", requireAuth, async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const feed = await storage.getCalendarFeed(userId) ?? await storage.createOrRotateCalendarFeed(userId);
+      res.json(calendarFeedResponse(req, feed.token));
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // POST /api/calendar/feed/rotate - Replace the token so previously shared URLs stop working
+  app.post("/api/calendar/feed/rotate", requireAuth, async (req, res) => {
+    try {
+      const feed = await storage.createOrRotateCalendarFeed(req.userId!);
+      res.json(calendarFeedResponse(req, feed.token));
+    } catch (error) {
+      console.error("Error rotating calendar feed:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GET /api/calendar/:token/plan.ics?reality=true - Subscribable all-day plan events (token is the only credential)
+  app.get("/api/calendar/:token/plan.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+
+      if (!feed) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      const snapshots = await storage.getDailySnapshotsForUser(feed.userId);
+      const includeReality = req.query.reality === 'true' || req.query.reality === '1';
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="plan.ics"');
+      res.send(generatePlanCalendar(feed.userId, snapshots, { includeReality }));
+    } catch (error) {
+      console.error("Error generating calendar feed:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ==================== SHARE ROUTES ====================
+
+  // GET /api/share - List the signed-in user's share links that have not been revoked
+  app.get("/api/share", requireAuth, async (req, res) => {
+    try {
+      const links = await storage.getShareLinks(req.userId!);
+      res.json(links.map(shareLinkResponse));
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // POST /api/share - Create a read-only link to a year, optionally a day range and a single mode
+  app.post("/api/share", requireAuth, async (req, res) => {
+    try {
+      const validated = shareLinkSchema.parse(req.body);
+      const link = await storage.createShareLink({
+        userId: req.userId!,
+        year: validated.year,
+        startDay: validated.start_day ?? null,
+        endDay: validated.end_day ?? null,
+        mode: validated.mode,
+        expiresAt: validated.expires_in_days
+          ? new Date(Date.now() + validated.expires_in_days * 24 * 60 * 60 * 1000)
+          : null,
+      });
+      res.status(201).json(shareLinkResponse(link));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating share link:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // DELETE /api/share/:id - Revoke a share link; anyone holding the URL loses access immediately
+  app.delete("/api/share/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid share link id" });
+      }
+
+      const revoked = await storage.revokeShareLink(req.userId!, id);
+
+      if (!revoked) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GET /api/share/:token/view - Shared journal contents (token is the only credential)
+  app.get("/api/share/:token/view", async (req, res) => {
+    try {
+      const link = await storage.getShareLinkByToken(req.params.token);
+
+      if (!link || link.revokedAt) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      if (!isShareLinkActive(link)) {
+        return res.status(410).json({ message: "Share link has expired" });
+      }
+
+      const owner = await storage.getUser(link.userId);
+      const snapshot = await storage.getDailySnapshot(link.userId, link.year);
+      res.json(buildSharedView(link, snapshot, owner?.displayName ?? owner?.username ?? null));
+    } catch (error) {
+      console.error("Error fetching shared journal:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ==================== TEAM ROUTES ====================
+
+  // GET /api/teams - Teams the signed-in user belongs to, with their role in each
+  app.get("/api/teams", requireAuth, async (req, res) => {
+    try {
+      const teams = await storage.getTeamsForUser(req.userId!);
+      res.json(teams.map((team) => teamResponse(team, team.role)));
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // POST /api/teams - Create a team owned by the signed-in user
+  app.post("/api/teams", requireAuth, async (req, res) => {
+    try {
+      const { name } = teamSchema.parse(req.body);
+      const team = await storage.createTeam(name, req.userId!);
+      res.status(201).json(teamResponse(team, 'owner'));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating team:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GET /api/teams/:teamId/members - Members and roles (any member)
+  app.get("/api/teams/:teamId/members", requireAuth, requireTeamRole(), async (req, res) => {
+    try {
+      const members = await storage.getTeamMembers(req.teamMember!.teamId);
+      res.json(members.map(teamMemberResponse));
+    } catch (error) {
+      console.error("Error fetching team members:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/teams/:teamId/members/:userId - Change a member's role (owners only)
+  app.patch("/api/teams/:teamId/members/:userId", requireAuth, requireTeamRole('owner'), async (req, res) => {
+    try {
+      const { role } = teamRoleSchema.parse(req.body);
+      const teamId = req.teamMember!.teamId;
+
+      if (role !== 'owner' && await isLastOwner(teamId, req.params.userId)) {
+        return res.status(400).json({ message: "A team needs at least one owner" });
+      }
+
+      const member = await storage.updateTeamMemberRole(teamId, req.params.userId, role);
+
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+
+      res.json(await findTeamMemberResponse(teamId, member.userId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating team member:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // DELETE /api/teams/:teamId/members/:userId - Remove a member (owners), or leave the team (anyone, for themselves)
+  app.delete("/api/teams/:teamId/members/:userId", requireAuth, requireTeamRole(), async (req, res) => {
+    try {
+      const teamId = req.teamMember!.teamId;
+      const isSelf = req.params.userId === req.userId;
+
+      if (!isSelf && req.teamMember!.role !== 'owner') {
+        return res.status(403).json({ message: "Access denied", code: "FORBIDDEN" });
+      }
+
+      if (await isLastOwner(teamId, req.params.userId)) {
+        return res.status(400).json({ message: "A team needs at least one owner" });
+      }
+
+      const removed = await storage.removeTeamMember(teamId, req.params.userId);
+
+      if (!removed) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error removing team member:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GET /api/teams/:teamId/invitations - Invitations nobody has answered yet (owners only)
+  app.get("/api/teams/:teamId/invitations", requireAuth, requireTeamRole('owner'), async (req, res) => {
+    try {
+      const invitations = await storage.getTeamInvitations(req.teamMember!.teamId);
+      res.json(invitations.map(teamInvitationResponse));
+    } catch (error) {
+      console.error("Error fetching team invitations:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // POST /api/teams/:teamId/invitations - Invite an email address to join (owners only).
+  // Answers the same whether or not the address has an account; nobody joins until they accept.
+  app.post("/api/teams/:teamId/invitations", requireAuth, requireTeamRole('owner'), async (req, res) => {
+    try {
+      const { email, role } = teamInvitationSchema.parse(req.body);
+      const teamId = req.teamMember!.teamId;
+      const members = await storage.getTeamMembers(teamId);
+
+      // Owners already see members' emails, so this reveals nothing new
+      if (members.some((member) => member.email?.toLowerCase() === email)) {
+        return res.status(409).json({ message: "Already a member of this team" });
+      }
+
+      const invitation = await storage.createTeamInvitation(teamId, email, role, req.userId!);
+      res.status(201).json(teamInvitationResponse(invitation));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error inviting team member:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // DELETE /api/teams/:teamId/invitations/:invitationId - Withdraw an invitation (owners only)
+  app.delete("/api/teams/:teamId/invitations/:invitationId", requireAuth, requireTeamRole('owner'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.invitationId);
+
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid invitation id" });
+      }
+
+      const cancelled = await storage.cancelTeamInvitation(req.teamMember!.teamId, id);
+
+      if (!cancelled) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error cancelling team invitation:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GET /api/team-invitations - Invitations sent to the signed-in user's email
+  app.get("/api/team-invitations", requireAuth, async (req, res) => {
+    try {
+      const email = await signedInEmail(req.userId!);
+      const invitations = email ? await storage.getInvitationsForEmail(email) : [];
+      res.json(invitations.map((invitation) => ({ ...teamInvitationResponse(invitation), team_name: invitation.teamName })));
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // POST /api/team-invitations/:invitationId/accept - Join the team with the invited role
+  app.post("/api/team-invitations/:invitationId/accept", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.invitationId);
+
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid invitation id" });
+      }
+
+      const email = await signedInEmail(req.userId!);
+      const member = email ? await storage.acceptTeamInvitation(id, req.userId!, email) : undefined;
+
+      if (!member) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      const team = (await storage.getTeam(member.teamId))!;
+      res.json(teamResponse(team, member.role as TeamRole));
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // DELETE /api/team-invitations/:invitationId - Decline an invitation
+  app.delete("/api/team-invitations/:invitationId", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.invitationId);
+
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid invitation id" });
+      }
+
+      const email = await signedInEmail(req.userId!);
+      const declined = email ? await storage.declineTeamInvitation(id, email) : false;
+
+      if (!declined) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error declining invitation:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GET /api/teams/:teamId/journal/:year - Latest plan/reality of every owner and editor (any member)
+  app.get("/api/teams/:teamId/journal/:year", requireAuth, requireTeamRole(), async (req, res) => {
+    try {
+      const yearNum = parseInt(req.params.year);
+
+      if (isNaN(yearNum)) {
+        return res.status(400).json({ message: "Invalid year" });
+      }
+
+      const teamId = req.teamMember!.teamId;
+      const team = (await storage.getTeam(teamId))!;
+      const contributors = (await storage.getTeamMembers(teamId)).filter((member) => member.role !== 'viewer');
+
+      const members = [];
+      for (const member of contributors) {
+        const snapshot = await storage.getDailySnapshot(member.userId, yearNum);
+        members.push({
+          ...teamMemberResponse(member),
+          plan_contents: nonEmptyCells(snapshot?.latestPlanContents),
+          reality_contents: nonEmptyCells(snapshot?.latestRealityContents),
+        });
+      }
+
+      res.json({ team: teamResponse(team, req.teamMember!.role as TeamRole), year: yearNum, members });
+    } catch (error) {
+      console.error("Error fetching team journal:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // ==================== IMPORT ROUTES ====================
+
+  // POST /api/import/:year - Import a plan/reality CSV or an /api/export JSON file (dry_run previews only)
+  app.post("/api/import/:year", requireAuth, async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const yearNum = parseInt(req.params.year);
+
+      if (isNaN(yearNum)) {
+        return res.status(400).json({ message: "Invalid year" });
+      }
+
+      const validated = importSchema.parse(req.body);
+      const matrices = validated.format === 'csv'
+        ? parseCsvImport(validated.data, yearNum, validated.type)
+        : parseJsonImport(typeof validated.data === 'string' ? parseJsonText(validated.data) : validated.data, yearNum);
+
+      if (!matrices.plan && !matrices.reality) {
+        return res.status(400).json({ message: "Import contains no entries for this year" });
+      }
+
+      const dailySnapshot = await storage.getDailySnapshot(userId, yearNum);
+      const preview: Record<ImportEntryType, ImportPreview | null> = {
+        plan: matrices.plan ? previewImport(dailySnapshot?.latestPlanContents, matrices.plan) : null,
+        reality: matrices.reality ? previewImport(dailySnapshot?.latestRealityContents, matrices.reality) : null,
+      };
+
+      if (!validated.dry_run) {
+        const metadata = { source: 'import', format: validated.format };
+        if (matrices.plan) {
+          await storage.createPlanSnapshot({ userId, year: yearNum, day_contents: matrices.plan, metadata });
+        }
+        if (matrices.reality) {
+          await storage.createRealitySnapshot({ userId, year: yearNum, day_contents: matrices.reality, metadata });
+        }
+      }
+
+      res.json({ year: yearNum, dry_run: validated.dry_run, ...preview });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ImportParseError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing year data:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // ==================== UTILITY ROUTES ====================
 
   // GET /api/health - Health check
@@ -271,7 +931,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({
       status: "ok",
       timestamp: new Date().toISOString(),
-      features: ["matrix-journal", "postgres-backend"]
+      features: ["matrix-journal", `${storageBackend}-backend`]
     });
   });
 
@@ -279,46 +939,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
-// Helper function to generate CSV from matrix data
-function generateMatrixCSV(exportData: any): string {
-  const lines: string[] = [];
-
-  // Header row - dates
-  const dates = Array.from({ length: 365 }, (_, i) => {
-    const date = new Date(2025, 0, 1); // Jan 1, 2025
-    date.setDate(date.getDate() + i);
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  });
-
-  lines.push(['timestamp', 'type', ...dates].join(','));
-
-  // Plan snapshots
-  exportData.planSnapshots.forEach((snapshot: any) => {
-    const row = [
-      snapshot.snapshot_timestamp,
-      'plan',
-      ...Array.from({ length: 365 }, (_, i) => {
-        const dayKey = `day_${String(i + 1).padStart(3, '0')}`;
-        const content = snapshot.day_contents[dayKey] || '';
-        return `"${content.replace(/"/g, '""')}"`;
-      })
-    ];
-    lines.push(row.join(','));
-  });
-
-  // Reality snapshots
-  exportData.realitySnapshots.forEach((snapshot: any) => {
-    const row = [
-      snapshot.snapshot_timestamp,
-      'reality',
-      ...Array.from({ length: 365 }, (_, i) => {
-        const dayKey = `day_${String(i + 1).padStart(3, '0')}`;
-        const content = snapshot.day_contents[dayKey] || '';
-        return `"${content.replace(/"/g, '""')}"`;
-      })
-    ];
-    lines.push(row.join(','));
-  });
-
-  return lines.join('\n');
+// The client's JournalSnapshot shape, without the wide day_XXX columns
+function snapshotResponse(snapshot: PlanSnapshot | RealitySnapshot) {
+  return {
+    id: snapshot.id,
+    user_id: snapshot.userId,
+    snapshot_timestamp: snapshot.snapshotTimestamp,
+    year: snapshot.year,
+    day_contents: snapshot.day_contents,
+    metadata: snapshot.metadata,
+  };
+}
+
+function teamResponse(team: Team, role: TeamRole) {
+  return {
+    id: team.id,
+    name: team.name,
+    role,
+    created_at: team.createdAt,
+  };
+}
+
+function teamMemberResponse(member: TeamMemberProfile) {
+  return {
+    user_id: member.userId,
+    name: member.displayName ?? member.username,
+    email: member.email,
+    role: member.role,
+    joined_at: member.joinedAt,
+  };
+}
+
+async function findTeamMemberResponse(teamId: number, userId: string) {
+  const members = await storage.getTeamMembers(teamId);
+  return teamMemberResponse(members.find((member) => member.userId === userId)!);
+}
+
+function teamInvitationResponse(invitation: TeamInvitation) {
+  return {
+    id: invitation.id,
+    team_id: invitation.teamId,
+    email: invitation.email,
+    role: invitation.role,
+    created_at: invitation.createdAt,
+  };
+}
+
+// Invitations are addressed by email, so only the account holding that address can answer them
+async function signedInEmail(userId: string): Promise<string | undefined> {
+  const user = await storage.getUser(userId);
+  return user?.email?.toLowerCase();
+}
+
+async function isLastOwner(teamId: number, userId: string): Promise<boolean> {
+  const owners = (await storage.getTeamMembers(teamId)).filter((member) => member.role === 'owner');
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+function nonEmptyCells(contents: DayContents | undefined): Record<string, string> {
+  const cells: Record<string, string> = {};
+  Object.entries(contents ?? {}).forEach(([key, value]) => {
+    if (value) cells[key] = value;
+  });
+  return cells;
+}
+
+// The share page lives on the client, so only the token is returned for it to build the URL
+function shareLinkResponse(link: ShareLink) {
+  return {
+    id: link.id,
+    token: link.token,
+    year: link.year,
+    start_day: link.startDay,
+    end_day: link.endDay,
+    mode: link.mode,
+    expires_at: link.expiresAt,
+    created_at: link.createdAt,
+  };
+}
+
+// Absolute URLs so the client can hand them straight to a calendar app
+function calendarFeedResponse(req: Request, token: string) {
+  const url = `${req.protocol}://${req.get('host')}/api/calendar/${token}/plan.ics`;
+  return { token, url, url_with_reality: `${url}?reality=true` };
 }
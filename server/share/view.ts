@@ -0,0 +1,51 @@
+import { daysInYear, getPeriodDayRange, parseDayKey } from '@shared/calendar';
+import type { DailySnapshot, DayContents, ShareLink, ShareMode } from '@shared/schema';
+
+// What a share link exposes: the latest contents of the shared mode(s), cut down to the shared
+// days plus any week/month/quarter summaries that overlap them.
+
+export interface SharedJournalView {
+  year: number;
+  start_day: number;
+  end_day: number;
+  mode: ShareMode;
+  owner: string | null;
+  expires_at: Date | null;
+  plan_contents: DayContents | null; // null when the link does not share this mode
+  reality_contents: DayContents | null;
+}
+
+export function isShareLinkActive(link: ShareLink, now: Date = new Date()): boolean {
+  return !link.revokedAt && (!link.expiresAt || new Date(link.expiresAt) > now);
+}
+
+function pickSharedCells(contents: DayContents | undefined, year: number, startDay: number, endDay: number): DayContents {
+  const shared: DayContents = {};
+  Object.entries(contents ?? {}).forEach(([key, value]) => {
+    if (!value) return;
+    const dayNumber = parseDayKey(key);
+    const period = dayNumber === null ? getPeriodDayRange(key, year) : null;
+    const visible = dayNumber !== null
+      ? dayNumber >= startDay && dayNumber <= endDay
+      : !!period && period.start <= endDay && period.end >= startDay;
+    if (visible) shared[key] = value;
+  });
+  return shared;
+}
+
+export function buildSharedView(link: ShareLink, snapshot: DailySnapshot | undefined, owner: string | null): SharedJournalView {
+  const mode = link.mode as ShareMode;
+  const startDay = link.startDay ?? 1;
+  const endDay = link.endDay ?? daysInYear(link.year);
+
+  return {
+    year: link.year,
+    start_day: startDay,
+    end_day: endDay,
+    mode,
+    owner,
+    expires_at: link.expiresAt,
+    plan_contents: mode === 'reality' ? null : pickSharedCells(snapshot?.latestPlanContents, link.year, startDay, endDay),
+    reality_contents: mode === 'plan' ? null : pickSharedCells(snapshot?.latestRealityContents, link.year, startDay, endDay),
+  };
+}
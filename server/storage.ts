@@ -4,21 +4,80 @@ import {
   type DailySnapshot,
   type TimelineIndex,
   type InsertDailySnapshot,
-  users,
-  journalPlanMatrix,
-  journalRealityMatrix,
-  dailySnapshots,
-  timelineIndex,
+  type AuthSession,
+  type CalendarFeed,
+  type PendingTeamInvitation,
+  type Team,
+  type TeamInvitation,
+  type TeamMember,
+  type TeamMemberProfile,
+  type TeamRole,
+  type ShareLink,
+  type ShareMode,
   type DayContents,
-  type InsertJournalPlanMatrix,
-  type InsertJournalRealityMatrix,
   type JournalPlanMatrix,
   type JournalRealityMatrix,
+  type PlanSnapshot,
+  type RealitySnapshot,
   type TimeMachineSnapshot,
-  type TimeMachineComparison
+  type TimeMachineComparison,
+  type MatrixDelta,
+  type DeltaResult,
+  type CellRevision,
+  type EditSessionMetadata
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { connectDatabase, storageBackendFromEnv, type DatabaseConnection, type DatabaseTables, type SqlDialect } from "./db";
+import { MemStorage } from "./memStorage";
+import { cellRevisionWrites, type CellMode } from "./journalCells";
+import { randomBytes } from "crypto";
+import { eq, and, or, desc, gt, lte, inArray, isNull, sql, getTableColumns, type AnyColumn, type SQL } from "drizzle-orm";
+import { publishJournalChange } from "./realtime/journalEvents";
+import {
+  EDIT_SESSION_GAP_MS,
+  calculateCompletionRate,
+  changedCells,
+  countNonEmpty,
+  describeChanges,
+  diffCounts,
+  editSessionMetadata,
+  extractDayContentsFromRow,
+  generateDiff,
+  mergeFullContents,
+  pickDayColumns,
+  pickPeriodColumns,
+  totalChanges,
+} from "./journalContents";
+import { selectSnapshotsToKeep, survivorsToRecount, type RetentionCounts, type RetentionPolicy, type RetentionReport } from "./retention/policy";
+
+// Keeps IN lists well under the Postgres and SQLite bind parameter limits
+const DELETE_BATCH_SIZE = 1000;
+
+// A delta that keeps losing races to other writes gives up after this many tries
+const DELTA_ATTEMPTS = 3;
+
+// A journal cell as a delta read it, before deciding what to write
+interface StoredCell {
+  id: number;
+  dayKey: string;
+  content: string | null;
+  revision: number;
+}
+
+// The new value of a NOT NULL column, or NULL once `check` no longer holds. The NULL fails the statement
+// and with it the whole atomic write: batches cannot branch on what they read, so this is how they abort.
+function unlessMovedOn(check: SQL, column: AnyColumn, value: unknown): SQL {
+  return sql`case when ${check} then ${sql.param(value, column)} end`;
+}
+
+// The constraint failures a delta raises when a cell moved on: NOT NULL from unlessMovedOn, UNIQUE when
+// another write created the same cell first
+function isStaleWrite(error: unknown): boolean {
+  for (let cause: any = error; cause; cause = cause.cause) {
+    if (cause.code === '23502' || cause.code === '23505') return true; // Postgres
+    if (/(NOT NULL|UNIQUE) constraint failed/.test(String(cause.message))) return true; // SQLite
+  }
+  return false;
+}
 
 // Google OAuth Profile interface
 export interface GoogleProfile {
@@ -28,6 +87,29 @@ export interface GoogleProfile {
   photos?: Array<{ value: string }>;
 }
 
+export interface NewAuthSession {
+  userId: string;
+  refreshTokenHash: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  expiresAt: Date;
+}
+
+// A plan or reality write: the cells it sets, merged into the latest contents to form the new snapshot
+export interface NewMatrixSnapshot {
+  userId: string;
+  year: number;
+  day_contents: DayContents; // day_XXX and period keys; null clears a cell
+  metadata?: Record<string, any>;
+}
+
+// Email sign-up; passwordHash is null for accounts created through a magic link
+export interface LocalProfile {
+  email: string;
+  passwordHash: string | null;
+  displayName?: string;
+}
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
@@ -40,17 +122,43 @@ export interface IStorage {
   createGoogleUser(profile: GoogleProfile): Promise<User>;
   updateUserLastLogin(userId: string): Promise<void>;
 
+  // Email/password and magic-link operations
+  createLocalUser(profile: LocalProfile): Promise<User>;
+  createMagicLinkToken(email: string, tokenHash: string, expiresAt: Date): Promise<void>;
+  // Marks the token used and returns its email, or undefined when it is unknown, used or expired
+  consumeMagicLinkToken(tokenHash: string): Promise<string | undefined>;
+
+  // Auth session operations
+  createAuthSession(session: NewAuthSession): Promise<AuthSession>;
+  getAuthSession(id: string): Promise<AuthSession | undefined>;
+  // Matches the current or the previous refresh token, so callers can detect reuse
+  getAuthSessionByRefreshToken(tokenHash: string): Promise<AuthSession | undefined>;
+  // Swaps the refresh token only if it is still the one presented; undefined when another request won
+  rotateAuthSession(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<AuthSession | undefined>;
+  touchAuthSession(id: string): Promise<void>;
+  getAuthSessions(userId: string): Promise<AuthSession[]>; // Active ones, most recently seen first
+  revokeAuthSession(userId: string, id: string): Promise<boolean>;
+  revokeAllAuthSessions(userId: string): Promise<number>;
+
   // Matrix journal operations
-  createPlanSnapshot(entry: InsertJournalPlanMatrix): Promise<JournalPlanMatrix>;
-  createRealitySnapshot(entry: InsertJournalRealityMatrix): Promise<JournalRealityMatrix>;
+  createPlanSnapshot(entry: NewMatrixSnapshot): Promise<JournalPlanMatrix>;
+  createRealitySnapshot(entry: NewMatrixSnapshot): Promise<JournalRealityMatrix>;
+
+  // Delta writes: only the changed cells, each checked against the value the client based it on
+  applyPlanDelta(userId: string, year: number, changes: MatrixDelta, origin?: string): Promise<DeltaResult>;
+  applyRealityDelta(userId: string, year: number, changes: MatrixDelta, origin?: string): Promise<DeltaResult>;
 
   // Get specific snapshots
   getPlanSnapshot(userId: string, timestamp: string): Promise<JournalPlanMatrix | undefined>;
   getRealitySnapshot(userId: string, timestamp: string): Promise<JournalRealityMatrix | undefined>;
 
+  // Get the snapshot in effect at a point in time (latest at or before the timestamp)
+  getPlanSnapshotAt(userId: string, year: number, timestamp: string): Promise<JournalPlanMatrix | undefined>;
+  getRealitySnapshotAt(userId: string, year: number, timestamp: string): Promise<JournalRealityMatrix | undefined>;
+
   // Get all snapshots for a year
-  getAllPlanSnapshots(userId: string, year: number): Promise<JournalPlanMatrix[]>;
-  getAllRealitySnapshots(userId: string, year: number): Promise<JournalRealityMatrix[]>;
+  getAllPlanSnapshots(userId: string, year: number): Promise<PlanSnapshot[]>;
+  getAllRealitySnapshots(userId: string, year: number): Promise<RealitySnapshot[]>;
 
   // Daily snapshots (latest content)
   getDailySnapshot(userId: string, year: number): Promise<DailySnapshot | undefined>;
@@ -63,78 +171,151 @@ export interface IStorage {
 
   // Bulk export operations
   exportYearData(userId: string, year: number): Promise<{
-    planSnapshots: JournalPlanMatrix[];
-    realitySnapshots: JournalRealityMatrix[];
+    planSnapshots: PlanSnapshot[];
+    realitySnapshots: RealitySnapshot[];
     dailySnapshot: DailySnapshot | undefined;
     timeline: TimelineIndex[];
   }>;
+
+  // Calendar feed operations
+  getDailySnapshotsForUser(userId: string): Promise<DailySnapshot[]>;
+  getCalendarFeed(userId: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  createOrRotateCalendarFeed(userId: string): Promise<CalendarFeed>;
+
+  // Share link operations
+  createShareLink(link: { userId: string; year: number; startDay: number | null; endDay: number | null; mode: ShareMode; expiresAt: Date | null }): Promise<ShareLink>;
+  getShareLinks(userId: string): Promise<ShareLink[]>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  revokeShareLink(userId: string, id: number): Promise<boolean>;
+
+  // Team operations
+  createTeam(name: string, ownerId: string): Promise<Team>;
+  getTeamsForUser(userId: string): Promise<(Team & { role: TeamRole })[]>;
+  getTeam(teamId: number): Promise<Team | undefined>;
+  getTeamMember(teamId: number, userId: string): Promise<TeamMember | undefined>;
+  getTeamMembers(teamId: number): Promise<TeamMemberProfile[]>;
+  addTeamMember(teamId: number, userId: string, role: TeamRole): Promise<TeamMember>;
+  updateTeamMemberRole(teamId: number, userId: string, role: TeamRole): Promise<TeamMember | undefined>;
+  removeTeamMember(teamId: number, userId: string): Promise<boolean>;
+
+  // Team invitations - keyed by lowercased email; re-inviting the same address updates the role
+  createTeamInvitation(teamId: number, email: string, role: TeamRole, invitedBy: string): Promise<TeamInvitation>;
+  getTeamInvitations(teamId: number): Promise<TeamInvitation[]>;
+  getInvitationsForEmail(email: string): Promise<PendingTeamInvitation[]>;
+  // Joins the team with the invited role and removes the invitation; undefined unless it was sent to this email
+  acceptTeamInvitation(id: number, userId: string, email: string): Promise<TeamMember | undefined>;
+  declineTeamInvitation(id: number, email: string): Promise<boolean>;
+  cancelTeamInvitation(teamId: number, id: number): Promise<boolean>;
+
+  // Every value one cell has held, oldest first
+  getCellRevisions(userId: string, year: number, entryType: 'plan' | 'reality', dayKey: string): Promise<CellRevision[]>;
+
+  // Retention: thins old snapshots and folds their timeline entries and cell revisions into the survivors
+  pruneSnapshots(policy: RetentionPolicy, options?: { now?: Date; dryRun?: boolean }): Promise<RetentionReport>;
 }
 
+// Runs on any connection from db.ts; dialect differences are confined to writeAtomically, insertedTimelineId and rowBytes.
+// The journal lives in journal_cells and journal_cell_revisions; snapshots are rebuilt from them.
 export class DatabaseStorage implements IStorage {
-  private dayKeys: string[] = Array.from({ length: 365 }, (_, i) => `day_${String(i + 1).padStart(3, '0')}`);
-
-  private emptyDayContents(): DayContents {
-    const contents: DayContents = {};
-    for (const k of this.dayKeys) contents[k] = null;
-    return contents;
+  private readonly db: any;
+  private readonly tables: DatabaseTables;
+  private readonly dialect: SqlDialect;
+
+  constructor(connection: DatabaseConnection) {
+    this.db = connection.db;
+    this.tables = connection.tables;
+    this.dialect = connection.dialect;
   }
 
-  private mergeFullContents(previous: DayContents | undefined, incoming: DayContents): DayContents {
-    const base = previous ? { ...previous } : this.emptyDayContents();
-    for (const k of Object.keys(incoming)) {
-      base[k] = incoming[k] ?? null;
-    }
-    for (const k of this.dayKeys) {
-      if (!(k in base)) base[k] = null;
-    }
-    return base;
+  // Timeline entries double as the snapshot headers: the latest one of a mode at or before `at`
+  private async getLatestEntry(entryType: CellMode, userId: string, year: number, at?: Date): Promise<TimelineIndex | undefined> {
+    const [entry] = await this.db.select().from(this.tables.timelineIndex)
+      .where(and(
+        eq(this.tables.timelineIndex.userId, userId),
+        eq(this.tables.timelineIndex.year, year),
+        eq(this.tables.timelineIndex.entryType, entryType),
+        at ? lte(this.tables.timelineIndex.timestamp, at) : undefined
+      ))
+      .orderBy(desc(this.tables.timelineIndex.timestamp), desc(this.tables.timelineIndex.id))
+      .limit(1);
+    return entry;
   }
 
-  private countNonEmpty(contents: DayContents): number {
-    return this.dayKeys.filter((k) => {
-      const v = contents[k];
-      return v !== null && v !== undefined && v !== '';
-    }).length;
-  }
+  // The cells as they stood at `at`, replayed from their revisions; the current values without it
+  private async getContentsAt(entryType: CellMode, userId: string, year: number, at?: Date): Promise<DayContents> {
+    const cellsWhere = and(
+      eq(this.tables.journalCells.userId, userId),
+      eq(this.tables.journalCells.year, year),
+      eq(this.tables.journalCells.mode, entryType)
+    );
+    const rows: { dayKey: string; content: string | null }[] = at
+      ? await this.db.select({ dayKey: this.tables.journalCells.dayKey, content: this.tables.journalCellRevisions.content })
+        .from(this.tables.journalCellRevisions)
+        .innerJoin(this.tables.journalCells, eq(this.tables.journalCellRevisions.cellId, this.tables.journalCells.id))
+        .innerJoin(this.tables.timelineIndex, eq(this.tables.journalCellRevisions.timelineId, this.tables.timelineIndex.id))
+        .where(and(cellsWhere, lte(this.tables.timelineIndex.timestamp, at)))
+        .orderBy(this.tables.journalCellRevisions.revision)
+      : await this.db.select({ dayKey: this.tables.journalCells.dayKey, content: this.tables.journalCells.content })
+        .from(this.tables.journalCells)
+        .where(cellsWhere);
 
-  private diffCount(before: DayContents | undefined, after: DayContents): number {
-    if (!before) return this.countNonEmpty(after);
-    let c = 0;
-    for (const k of this.dayKeys) {
-      if ((before[k] || null) !== (after[k] || null)) c++;
-    }
-    return c;
+    const contents: DayContents = {};
+    rows.forEach(({ dayKey, content }) => {
+      if (content) contents[dayKey] = content;
+      else delete contents[dayKey];
+    });
+    return mergeFullContents(undefined, contents, year);
   }
 
-  private async getLatestPlanSnapshotRow(userId: string, year: number) {
-    const [row] = await (db as any).select().from(journalPlanMatrix)
-      .where(and(eq(journalPlanMatrix.userId, userId), eq(journalPlanMatrix.year, year)))
-      .orderBy(desc(journalPlanMatrix.snapshotTimestamp))
-      .limit(1);
-    return row;
-  }
+  // Every snapshot of a year, oldest first, each with the full contents it left behind
+  private async getAllSnapshots(entryType: CellMode, userId: string, year: number): Promise<any[]> {
+    const entries: TimelineIndex[] = await this.db.select().from(this.tables.timelineIndex)
+      .where(and(
+        eq(this.tables.timelineIndex.userId, userId),
+        eq(this.tables.timelineIndex.year, year),
+        eq(this.tables.timelineIndex.entryType, entryType)
+      ))
+      .orderBy(this.tables.timelineIndex.timestamp, this.tables.timelineIndex.id);
+    const revisions: { timelineId: number; dayKey: string; content: string | null }[] = await this.db
+      .select({
+        timelineId: this.tables.journalCellRevisions.timelineId,
+        dayKey: this.tables.journalCells.dayKey,
+        content: this.tables.journalCellRevisions.content,
+      })
+      .from(this.tables.journalCellRevisions)
+      .innerJoin(this.tables.journalCells, eq(this.tables.journalCellRevisions.cellId, this.tables.journalCells.id))
+      .where(and(
+        eq(this.tables.journalCells.userId, userId),
+        eq(this.tables.journalCells.year, year),
+        eq(this.tables.journalCells.mode, entryType)
+      ));
+
+    const byEntry = new Map<number, DayContents>();
+    revisions.forEach(({ timelineId, dayKey, content }) => {
+      byEntry.set(timelineId, { ...byEntry.get(timelineId), [dayKey]: content });
+    });
 
-  private async getLatestRealitySnapshotRow(userId: string, year: number) {
-    const [row] = await (db as any).select().from(journalRealityMatrix)
-      .where(and(eq(journalRealityMatrix.userId, userId), eq(journalRealityMatrix.year, year)))
-      .orderBy(desc(journalRealityMatrix.snapshotTimestamp))
-      .limit(1);
-    return row;
+    let contents = mergeFullContents(undefined, {}, year);
+    return entries.map((entry) => {
+      contents = mergeFullContents(contents, byEntry.get(entry.id) ?? {}, year);
+      return snapshotFromEntry(entry, contents);
+    });
   }
 
   // User operations
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await (db as any).select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(this.tables.users).where(eq(this.tables.users.id, id));
     return user;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await (db as any).select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(this.tables.users).where(eq(this.tables.users.username, username));
     return user;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await (db as any).insert(users).values({
+    const [user] = await this.db.insert(this.tables.users).values({
       ...insertUser,
       id: insertUser.id || crypto.randomUUID(),
     }).returning();
@@ -143,18 +324,18 @@ export class DatabaseStorage implements IStorage {
 
   // OAuth methods
   async getUserByGoogleId(googleId: string): Promise<User | undefined> {
-    const [user] = await (db as any).select().from(users).where(eq(users.googleId, googleId));
+    const [user] = await this.db.select().from(this.tables.users).where(eq(this.tables.users.googleId, googleId));
     return user;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await (db as any).select().from(users).where(eq(users.email, email));
+    const [user] = await this.db.select().from(this.tables.users).where(eq(this.tables.users.email, email));
     return user;
   }
 
   async createGoogleUser(profile: GoogleProfile): Promise<User> {
-    const [user] = await (db as any)
-      .insert(users)
+    const [user] = await this.db
+      .insert(this.tables.users)
       .values({
         id: crypto.randomUUID(),
         username: profile.email || `google_${profile.id}`,
@@ -171,159 +352,184 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserLastLogin(userId: string): Promise<void> {
-    await (db as any)
-      .update(users)
+    await this.db
+      .update(this.tables.users)
       .set({
         lastLogin: new Date(),
         updatedAt: new Date()
       })
-      .where(eq(users.id, userId));
+      .where(eq(this.tables.users.id, userId));
   }
 
-  // Matrix journal operations
-  async createPlanSnapshot(entry: InsertJournalPlanMatrix): Promise<JournalPlanMatrix> {
-    // The entry comes with `day_contents` from the frontend (via routes adapter) or we need to adapt it.
-    // The schema expects `day_001`, `day_002` etc directly in the insert object.
-    // But the `InsertJournalPlanMatrix` type is generated from the schema, so it HAS `day_001` etc.
-    // However, the frontend sends `day_contents` map.
-    // We need to handle this mapping in the route or here.
-    // The previous implementation did:
-    // `const fullContents = this.mergeFullContents(latestContents, entry.day_contents);`
-    // So `entry` passed to this function was NOT `InsertJournalPlanMatrix` strictly, but a DTO.
-    // Let's assume `entry` passed here is the DTO with `day_contents`.
-    // Wait, TypeScript will complain if we don't match the interface.
-    // The interface says `createPlanSnapshot(entry: InsertJournalPlanMatrix)`.
-    // `InsertJournalPlanMatrix` has `day_001`...`day_365`.
-    // So the caller (route) must prepare this object.
-    // BUT, we need to merge with previous state!
-    // So we need the `day_contents` map to do the merge logic easily.
-
-    // Let's change the signature to accept what we need.
-    // Actually, let's stick to the logic:
-    // 1. Get latest snapshot.
-    // 2. Merge new data.
-    // 3. Insert new row.
-
-    // We will accept `any` for entry to allow passing `day_contents` and map it.
-    // Or better, define a DTO.
-
-    const input = entry as any; // { user_id, year, day_contents, metadata ... }
-
-    const latestRow = await this.getLatestPlanSnapshotRow(input.user_id, input.year);
-    const latestContents = latestRow ? this.extractDayContentsFromRow(latestRow) : undefined;
-    const fullContents = this.mergeFullContents(latestContents, input.day_contents || {}); // input.day_contents is the new data
-
-    const rowToInsert: any = {
-      userId: input.user_id,
-      snapshotTimestamp: new Date(),
-      year: input.year,
-      ...fullContents,
-      totalPlannedDays: this.countNonEmpty(fullContents),
-      metadata: input.metadata
-    };
+  // Email/password and magic-link methods
+  async createLocalUser(profile: LocalProfile): Promise<User> {
+    const [user] = await this.db
+      .insert(this.tables.users)
+      .values({
+        id: crypto.randomUUID(),
+        username: profile.email,
+        password: profile.passwordHash,
+        email: profile.email,
+        displayName: profile.displayName ?? profile.email.split('@')[0],
+        authProvider: 'local',
+        lastLogin: new Date(),
+      })
+      .returning();
+    return user;
+  }
 
-    const [planSnapshot] = await (db as any).insert(journalPlanMatrix).values(rowToInsert).returning();
+  async createMagicLinkToken(email: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    await this.db.insert(this.tables.magicLinkTokens).values({ email, tokenHash, expiresAt });
+  }
 
-    const changes = this.diffCount(latestContents, fullContents);
-    await this.updateTimeline(input.user_id, input.year, planSnapshot.snapshotTimestamp, 'plan', changes);
+  async consumeMagicLinkToken(tokenHash: string): Promise<string | undefined> {
+    const [token] = await this.db
+      .update(this.tables.magicLinkTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(this.tables.magicLinkTokens.tokenHash, tokenHash),
+        isNull(this.tables.magicLinkTokens.usedAt),
+        gt(this.tables.magicLinkTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token?.email;
+  }
 
-    await this.updateDailySnapshotAfterPlan(input.user_id, input.year, fullContents);
+  // Auth session methods
+  async createAuthSession(session: NewAuthSession): Promise<AuthSession> {
+    const [row] = await this.db
+      .insert(this.tables.authSessions)
+      .values({ ...session, id: crypto.randomUUID() })
+      .returning();
+    return row;
+  }
 
-    return {
-      ...planSnapshot,
-      day_contents: fullContents
-    } as any;
+  async getAuthSession(id: string): Promise<AuthSession | undefined> {
+    const [session] = await this.db.select().from(this.tables.authSessions).where(eq(this.tables.authSessions.id, id));
+    return session;
   }
 
-  async createRealitySnapshot(entry: InsertJournalRealityMatrix): Promise<JournalRealityMatrix> {
-    const input = entry as any;
+  async getAuthSessionByRefreshToken(tokenHash: string): Promise<AuthSession | undefined> {
+    const [session] = await this.db.select().from(this.tables.authSessions)
+      .where(or(eq(this.tables.authSessions.refreshTokenHash, tokenHash), eq(this.tables.authSessions.previousRefreshTokenHash, tokenHash)));
+    return session;
+  }
 
-    const latestRow = await this.getLatestRealitySnapshotRow(input.user_id, input.year);
-    const latestContents = latestRow ? this.extractDayContentsFromRow(latestRow) : undefined;
-    const fullContents = this.mergeFullContents(latestContents, input.day_contents || {});
+  async rotateAuthSession(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<AuthSession | undefined> {
+    const now = new Date();
+    const [session] = await this.db
+      .update(this.tables.authSessions)
+      .set({
+        refreshTokenHash: nextHash,
+        previousRefreshTokenHash: currentHash,
+        rotatedAt: now,
+        lastSeenAt: now,
+        expiresAt,
+      })
+      .where(and(eq(this.tables.authSessions.id, id), eq(this.tables.authSessions.refreshTokenHash, currentHash), isNull(this.tables.authSessions.revokedAt)))
+      .returning();
+    return session;
+  }
 
-    const rowToInsert: any = {
-      userId: input.user_id,
-      snapshotTimestamp: new Date(),
-      year: input.year,
-      ...fullContents,
-      totalRealityDays: this.countNonEmpty(fullContents),
-      metadata: input.metadata
-    };
+  async touchAuthSession(id: string): Promise<void> {
+    await this.db.update(this.tables.authSessions).set({ lastSeenAt: new Date() }).where(eq(this.tables.authSessions.id, id));
+  }
 
-    const [realitySnapshot] = await (db as any).insert(journalRealityMatrix).values(rowToInsert).returning();
+  async getAuthSessions(userId: string): Promise<AuthSession[]> {
+    return await this.db.select().from(this.tables.authSessions)
+      .where(and(
+        eq(this.tables.authSessions.userId, userId),
+        isNull(this.tables.authSessions.revokedAt),
+        gt(this.tables.authSessions.expiresAt, new Date())
+      ))
+      .orderBy(desc(this.tables.authSessions.lastSeenAt));
+  }
 
-    const changes = this.diffCount(latestContents, fullContents);
-    await this.updateTimeline(input.user_id, input.year, realitySnapshot.snapshotTimestamp, 'reality', changes);
+  async revokeAuthSession(userId: string, id: string): Promise<boolean> {
+    const revoked = await this.db
+      .update(this.tables.authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(this.tables.authSessions.id, id), eq(this.tables.authSessions.userId, userId), isNull(this.tables.authSessions.revokedAt)))
+      .returning({ id: this.tables.authSessions.id });
+    return revoked.length > 0;
+  }
 
-    await this.updateDailySnapshotAfterReality(input.user_id, input.year, fullContents);
+  async revokeAllAuthSessions(userId: string): Promise<number> {
+    const revoked = await this.db
+      .update(this.tables.authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(this.tables.authSessions.userId, userId), isNull(this.tables.authSessions.revokedAt)))
+      .returning({ id: this.tables.authSessions.id });
+    return revoked.length;
+  }
 
-    return {
-      ...realitySnapshot,
-      day_contents: fullContents
-    } as any;
+  // Matrix journal operations
+  async createPlanSnapshot(entry: NewMatrixSnapshot): Promise<JournalPlanMatrix> {
+    return this.createSnapshot('plan', entry);
   }
 
-  async getPlanSnapshot(userId: string, timestamp: string): Promise<JournalPlanMatrix | undefined> {
-    const [row] = await (db as any).select().from(journalPlanMatrix)
-      .where(and(
-        eq(journalPlanMatrix.userId, userId),
-        eq(journalPlanMatrix.snapshotTimestamp, new Date(timestamp))
-      )).limit(1);
+  async createRealitySnapshot(entry: NewMatrixSnapshot): Promise<JournalRealityMatrix> {
+    return this.createSnapshot('reality', entry);
+  }
 
-    if (!row) return undefined;
-    const day_contents = this.extractDayContentsFromRow(row);
-    return { ...row, day_contents } as any;
+  async applyPlanDelta(userId: string, year: number, changes: MatrixDelta, origin?: string): Promise<DeltaResult> {
+    return this.applyDelta('plan', userId, year, changes, origin);
+  }
+
+  async applyRealityDelta(userId: string, year: number, changes: MatrixDelta, origin?: string): Promise<DeltaResult> {
+    return this.applyDelta('reality', userId, year, changes, origin);
+  }
+
+  async getPlanSnapshot(userId: string, timestamp: string): Promise<JournalPlanMatrix | undefined> {
+    return this.getSnapshot('plan', userId, timestamp);
   }
 
   async getRealitySnapshot(userId: string, timestamp: string): Promise<JournalRealityMatrix | undefined> {
-    const [row] = await (db as any).select().from(journalRealityMatrix)
-      .where(and(
-        eq(journalRealityMatrix.userId, userId),
-        eq(journalRealityMatrix.snapshotTimestamp, new Date(timestamp))
-      )).limit(1);
+    return this.getSnapshot('reality', userId, timestamp);
+  }
 
-    if (!row) return undefined;
-    const day_contents = this.extractDayContentsFromRow(row);
-    return { ...row, day_contents } as any;
+  async getPlanSnapshotAt(userId: string, year: number, timestamp: string): Promise<JournalPlanMatrix | undefined> {
+    return this.getSnapshotAt('plan', userId, year, new Date(timestamp));
   }
 
-  async getAllPlanSnapshots(userId: string, year: number): Promise<JournalPlanMatrix[]> {
-    const rows = await (db as any).select().from(journalPlanMatrix)
-      .where(and(
-        eq(journalPlanMatrix.userId, userId),
-        eq(journalPlanMatrix.year, year)
-      ))
-      .orderBy(journalPlanMatrix.snapshotTimestamp);
+  async getRealitySnapshotAt(userId: string, year: number, timestamp: string): Promise<JournalRealityMatrix | undefined> {
+    return this.getSnapshotAt('reality', userId, year, new Date(timestamp));
+  }
 
-    return rows.map((row) => {
-      const day_contents = this.extractDayContentsFromRow(row);
-      return { ...row, day_contents } as any;
-    });
+  async getAllPlanSnapshots(userId: string, year: number): Promise<PlanSnapshot[]> {
+    return this.getAllSnapshots('plan', userId, year);
+  }
+
+  async getAllRealitySnapshots(userId: string, year: number): Promise<RealitySnapshot[]> {
+    return this.getAllSnapshots('reality', userId, year);
   }
 
-  async getAllRealitySnapshots(userId: string, year: number): Promise<JournalRealityMatrix[]> {
-    const rows = await (db as any).select().from(journalRealityMatrix)
+  async getCellRevisions(userId: string, year: number, entryType: CellMode, dayKey: string): Promise<CellRevision[]> {
+    return await this.db.select({
+      revision: this.tables.journalCellRevisions.revision,
+      content: this.tables.journalCellRevisions.content,
+      timestamp: this.tables.timelineIndex.timestamp,
+    })
+      .from(this.tables.journalCellRevisions)
+      .innerJoin(this.tables.journalCells, eq(this.tables.journalCellRevisions.cellId, this.tables.journalCells.id))
+      .innerJoin(this.tables.timelineIndex, eq(this.tables.journalCellRevisions.timelineId, this.tables.timelineIndex.id))
       .where(and(
-        eq(journalRealityMatrix.userId, userId),
-        eq(journalRealityMatrix.year, year)
+        eq(this.tables.journalCells.userId, userId),
+        eq(this.tables.journalCells.year, year),
+        eq(this.tables.journalCells.mode, entryType),
+        eq(this.tables.journalCells.dayKey, dayKey)
       ))
-      .orderBy(journalRealityMatrix.snapshotTimestamp);
-
-    return rows.map((row) => {
-      const day_contents = this.extractDayContentsFromRow(row);
-      return { ...row, day_contents } as any;
-    });
+      .orderBy(this.tables.journalCellRevisions.revision);
   }
 
   // Daily snapshot operations
   async getDailySnapshot(userId: string, year: number): Promise<DailySnapshot | undefined> {
-    const [snapshot] = await (db as any).select().from(dailySnapshots)
+    const [snapshot] = await this.db.select().from(this.tables.dailySnapshots)
       .where(and(
-        eq(dailySnapshots.userId, userId),
-        eq(dailySnapshots.year, year)
+        eq(this.tables.dailySnapshots.userId, userId),
+        eq(this.tables.dailySnapshots.year, year)
       ))
-      .orderBy(desc(dailySnapshots.snapshotDate))
+      .orderBy(desc(this.tables.dailySnapshots.snapshotDate))
       .limit(1);
     return snapshot;
   }
@@ -334,20 +540,20 @@ export class DatabaseStorage implements IStorage {
     // Cast jsonb fields to DayContents for calculation
     const planContents = (snapshot.latestPlanContents as unknown) as DayContents;
     const realityContents = (snapshot.latestRealityContents as unknown) as DayContents;
-    const completionRate = this.calculateCompletionRate(planContents, realityContents);
+    const completionRate = calculateCompletionRate(planContents, realityContents);
 
     if (existing) {
-      const [updated] = await (db as any).update(dailySnapshots)
+      const [updated] = await this.db.update(this.tables.dailySnapshots)
         .set({
           ...snapshot,
           completionRate,
           snapshotDate: new Date() // Update timestamp
         })
-        .where(eq((dailySnapshots.id as any), (existing.id as any)))
+        .where(eq((this.tables.dailySnapshots.id as any), (existing.id as any)))
         .returning();
       return updated;
     } else {
-      const [created] = await (db as any).insert(dailySnapshots)
+      const [created] = await this.db.insert(this.tables.dailySnapshots)
         .values({
           ...snapshot,
           completionRate,
@@ -359,17 +565,19 @@ export class DatabaseStorage implements IStorage {
 
   // Time Machine operations
   async getTimeline(userId: string, year: number): Promise<TimelineIndex[]> {
-    return await (db as any).select().from(timelineIndex)
+    return await this.db.select().from(this.tables.timelineIndex)
       .where(and(
-        eq(timelineIndex.userId, userId),
-        eq(timelineIndex.year, year)
+        eq(this.tables.timelineIndex.userId, userId),
+        eq(this.tables.timelineIndex.year, year)
       ))
-      .orderBy(timelineIndex.timestamp);
+      .orderBy(this.tables.timelineIndex.timestamp);
   }
 
+  // Reconstructs the journal as it stood at `timestamp`: each side is the latest
+  // matrix row written at or before that moment, since plan and reality are saved independently.
   async getTimeMachineSnapshot(userId: string, timestamp: string, year: number): Promise<TimeMachineSnapshot> {
-    const planSnapshot = await this.getPlanSnapshot(userId, timestamp);
-    const realitySnapshot = await this.getRealitySnapshot(userId, timestamp);
+    const planSnapshot = await this.getPlanSnapshotAt(userId, year, timestamp);
+    const realitySnapshot = await this.getRealitySnapshotAt(userId, year, timestamp);
 
     return {
       timestamp,
@@ -384,8 +592,11 @@ export class DatabaseStorage implements IStorage {
     const snapshot1 = await this.getTimeMachineSnapshot(userId, timestamp1, year);
     const snapshot2 = await this.getTimeMachineSnapshot(userId, timestamp2, year);
 
-    const planDiff = this.generateDiff(snapshot1.plan_contents, snapshot2.plan_contents);
-    const realityDiff = this.generateDiff(snapshot1.reality_contents, snapshot2.reality_contents);
+    // Only changed days are returned; the client treats missing days as unchanged
+    const planDiff = generateDiff(snapshot1.plan_contents, snapshot2.plan_contents)
+      .filter((d) => d.status !== 'unchanged');
+    const realityDiff = generateDiff(snapshot1.reality_contents, snapshot2.reality_contents)
+      .filter((d) => d.status !== 'unchanged');
 
     return {
       timestamp1,
@@ -405,91 +616,613 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  // Helper methods
-  private async updateTimeline(userId: string, year: number, timestamp: Date, entryType: string, changesCount: number): Promise<void> {
-    await db.insert(timelineIndex).values({
-      userId,
-      timestamp,
-      year,
-      entryType,
-      changesCount,
-      description: `Updated ${changesCount} days of ${entryType}`,
+  // Calendar feed operations
+  async getDailySnapshotsForUser(userId: string): Promise<DailySnapshot[]> {
+    const rows: DailySnapshot[] = await this.db.select().from(this.tables.dailySnapshots)
+      .where(eq(this.tables.dailySnapshots.userId, userId))
+      .orderBy(desc(this.tables.dailySnapshots.snapshotDate));
+
+    // Keep the latest row per year
+    const seen = new Set<number>();
+    return rows.filter((row) => {
+      if (seen.has(row.year)) return false;
+      seen.add(row.year);
+      return true;
     });
   }
 
-  private async updateDailySnapshotAfterPlan(userId: string, year: number, dayContents: DayContents): Promise<void> {
-    const existing = await this.getDailySnapshot(userId, year);
-    const now = new Date();
+  async getCalendarFeed(userId: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(this.tables.calendarFeeds).where(eq(this.tables.calendarFeeds.userId, userId));
+    return feed;
+  }
 
-    const updated: any = {
-      userId,
-      snapshotDate: now,
-      year,
-      latestPlanContents: dayContents,
-      latestRealityContents: (existing?.latestRealityContents as any) || {},
-      planLastUpdated: now,
-      realityLastUpdated: existing?.realityLastUpdated || null,
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(this.tables.calendarFeeds).where(eq(this.tables.calendarFeeds.token, token));
+    return feed;
+  }
+
+  // Issues a fresh token, invalidating any URL handed out before
+  async createOrRotateCalendarFeed(userId: string): Promise<CalendarFeed> {
+    const token = randomBytes(24).toString('base64url');
+    const existing = await this.getCalendarFeed(userId);
+
+    if (existing) {
+      const [feed] = await this.db.update(this.tables.calendarFeeds)
+        .set({ token, createdAt: new Date() })
+        .where(eq(this.tables.calendarFeeds.id, existing.id))
+        .returning();
+      return feed;
+    }
+
+    const [feed] = await this.db.insert(this.tables.calendarFeeds).values({ userId, token }).returning();
+    return feed;
+  }
+
+  // Share link operations
+  async createShareLink(link: { userId: string; year: number; startDay: number | null; endDay: number | null; mode: ShareMode; expiresAt: Date | null }): Promise<ShareLink> {
+    const token = randomBytes(24).toString('base64url');
+    const [created] = await this.db.insert(this.tables.shareLinks).values({ ...link, token }).returning();
+    return created;
+  }
+
+  // Links that have not been revoked, newest first; expired ones are listed so they can be cleaned up
+  async getShareLinks(userId: string): Promise<ShareLink[]> {
+    return await this.db.select().from(this.tables.shareLinks)
+      .where(and(eq(this.tables.shareLinks.userId, userId), isNull(this.tables.shareLinks.revokedAt)))
+      .orderBy(desc(this.tables.shareLinks.createdAt));
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await this.db.select().from(this.tables.shareLinks).where(eq(this.tables.shareLinks.token, token));
+    return link;
+  }
+
+  async revokeShareLink(userId: string, id: number): Promise<boolean> {
+    const revoked = await this.db.update(this.tables.shareLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(this.tables.shareLinks.id, id), eq(this.tables.shareLinks.userId, userId), isNull(this.tables.shareLinks.revokedAt)))
+      .returning();
+    return revoked.length > 0;
+  }
+
+  // Team operations
+  async createTeam(name: string, ownerId: string): Promise<Team> {
+    const [team] = await this.db.insert(this.tables.teams).values({ name, createdBy: ownerId }).returning();
+    await this.addTeamMember(team.id, ownerId, 'owner');
+    return team;
+  }
+
+  async getTeamsForUser(userId: string): Promise<(Team & { role: TeamRole })[]> {
+    const rows = await this.db.select({ team: this.tables.teams, role: this.tables.teamMembers.role })
+      .from(this.tables.teamMembers)
+      .innerJoin(this.tables.teams, eq(this.tables.teamMembers.teamId, this.tables.teams.id))
+      .where(eq(this.tables.teamMembers.userId, userId))
+      .orderBy(this.tables.teams.name);
+    return rows.map((row: { team: Team; role: TeamRole }) => ({ ...row.team, role: row.role }));
+  }
+
+  async getTeam(teamId: number): Promise<Team | undefined> {
+    const [team] = await this.db.select().from(this.tables.teams).where(eq(this.tables.teams.id, teamId));
+    return team;
+  }
+
+  async getTeamMember(teamId: number, userId: string): Promise<TeamMember | undefined> {
+    const [member] = await this.db.select().from(this.tables.teamMembers)
+      .where(and(eq(this.tables.teamMembers.teamId, teamId), eq(this.tables.teamMembers.userId, userId)));
+    return member;
+  }
+
+  async getTeamMembers(teamId: number): Promise<TeamMemberProfile[]> {
+    const rows = await this.db.select({
+      member: this.tables.teamMembers,
+      username: this.tables.users.username,
+      displayName: this.tables.users.displayName,
+      email: this.tables.users.email,
+    })
+      .from(this.tables.teamMembers)
+      .innerJoin(this.tables.users, eq(this.tables.teamMembers.userId, this.tables.users.id))
+      .where(eq(this.tables.teamMembers.teamId, teamId))
+      .orderBy(this.tables.teamMembers.joinedAt);
+    return rows.map((row: any) => ({ ...row.member, username: row.username, displayName: row.displayName, email: row.email }));
+  }
+
+  async addTeamMember(teamId: number, userId: string, role: TeamRole): Promise<TeamMember> {
+    const [member] = await this.db.insert(this.tables.teamMembers).values({ teamId, userId, role }).returning();
+    return member;
+  }
+
+  async updateTeamMemberRole(teamId: number, userId: string, role: TeamRole): Promise<TeamMember | undefined> {
+    const [member] = await this.db.update(this.tables.teamMembers)
+      .set({ role })
+      .where(and(eq(this.tables.teamMembers.teamId, teamId), eq(this.tables.teamMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async removeTeamMember(teamId: number, userId: string): Promise<boolean> {
+    const removed = await this.db.delete(this.tables.teamMembers)
+      .where(and(eq(this.tables.teamMembers.teamId, teamId), eq(this.tables.teamMembers.userId, userId)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  // Team invitation operations
+  async createTeamInvitation(teamId: number, email: string, role: TeamRole, invitedBy: string): Promise<TeamInvitation> {
+    const [invitation] = await this.db.insert(this.tables.teamInvitations)
+      .values({ teamId, email, role, invitedBy })
+      .onConflictDoUpdate({
+        target: [this.tables.teamInvitations.teamId, this.tables.teamInvitations.email],
+        set: { role, invitedBy, createdAt: new Date() },
+      })
+      .returning();
+    return invitation;
+  }
+
+  async getTeamInvitations(teamId: number): Promise<TeamInvitation[]> {
+    return await this.db.select().from(this.tables.teamInvitations)
+      .where(eq(this.tables.teamInvitations.teamId, teamId))
+      .orderBy(this.tables.teamInvitations.createdAt);
+  }
+
+  async getInvitationsForEmail(email: string): Promise<PendingTeamInvitation[]> {
+    const rows = await this.db.select({ invitation: this.tables.teamInvitations, teamName: this.tables.teams.name })
+      .from(this.tables.teamInvitations)
+      .innerJoin(this.tables.teams, eq(this.tables.teamInvitations.teamId, this.tables.teams.id))
+      .where(eq(this.tables.teamInvitations.email, email))
+      .orderBy(this.tables.teamInvitations.createdAt);
+    return rows.map((row: { invitation: TeamInvitation; teamName: string }) => ({ ...row.invitation, teamName: row.teamName }));
+  }
+
+  async acceptTeamInvitation(id: number, userId: string, email: string): Promise<TeamMember | undefined> {
+    const invitations = this.tables.teamInvitations;
+    const [invitation] = await this.db.select().from(invitations)
+      .where(and(eq(invitations.id, id), eq(invitations.email, email)));
+    if (!invitation) return undefined;
+
+    // Someone who already joined keeps their current role
+    await this.writeAtomically((tx) => [
+      tx.insert(this.tables.teamMembers).values({ teamId: invitation.teamId, userId, role: invitation.role }).onConflictDoNothing(),
+      tx.delete(invitations).where(eq(invitations.id, id)),
+    ]);
+    return await this.getTeamMember(invitation.teamId, userId);
+  }
+
+  async declineTeamInvitation(id: number, email: string): Promise<boolean> {
+    const removed = await this.db.delete(this.tables.teamInvitations)
+      .where(and(eq(this.tables.teamInvitations.id, id), eq(this.tables.teamInvitations.email, email)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  async cancelTeamInvitation(teamId: number, id: number): Promise<boolean> {
+    const removed = await this.db.delete(this.tables.teamInvitations)
+      .where(and(eq(this.tables.teamInvitations.id, id), eq(this.tables.teamInvitations.teamId, teamId)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  // Retention operations
+  async pruneSnapshots(policy: RetentionPolicy, options: { now?: Date; dryRun?: boolean } = {}): Promise<RetentionReport> {
+    const now = options.now ?? new Date();
+    const dryRun = options.dryRun ?? false;
+    return {
+      dryRun,
+      policy,
+      plan: await this.pruneMatrixSnapshots('plan', policy, now, dryRun),
+      reality: await this.pruneMatrixSnapshots('reality', policy, now, dryRun),
     };
+  }
+
+  // Helper methods
+
+  // Thins one mode's snapshots. Revisions written by a dropped snapshot move to the next survivor,
+  // unless a later write before it replaced the same cell; those go with the snapshot.
+  private async pruneMatrixSnapshots(entryType: CellMode, policy: RetentionPolicy, now: Date, dryRun: boolean): Promise<RetentionCounts> {
+    const timeline = this.tables.timelineIndex;
+    const cells = this.tables.journalCells;
+    const revisions = this.tables.journalCellRevisions;
+    const counts: RetentionCounts = { scanned: 0, deleted: 0, timelineDeleted: 0, bytesReclaimed: 0 };
+
+    // Every snapshot is a timeline entry; only the narrow columns are read for the whole table
+    const entries: { id: number; userId: string; year: number; snapshotTimestamp: Date }[] = await this.db
+      .select({ id: timeline.id, userId: timeline.userId, year: timeline.year, snapshotTimestamp: timeline.timestamp })
+      .from(timeline)
+      .where(eq(timeline.entryType, entryType))
+      .orderBy(timeline.userId, timeline.year, timeline.timestamp, timeline.id);
+    counts.scanned = entries.length;
+
+    const series = new Map<string, typeof entries>();
+    entries.forEach((entry) => {
+      const key = `${entry.userId}:${entry.year}`;
+      series.set(key, [...(series.get(key) ?? []), entry]);
+    });
 
-    await this.updateDailySnapshot(updated);
+    for (const snapshots of Array.from(series.values())) {
+      const { userId, year } = snapshots[0];
+      const keep = selectSnapshotsToKeep(snapshots, policy, now);
+      const dropped = snapshots.filter((entry) => !keep.has(entry.id));
+      if (dropped.length === 0) continue;
+
+      // The latest snapshot is always kept, so every dropped one has a survivor after it
+      const nextSurvivor = new Map<number, number>();
+      let following = 0;
+      for (let i = snapshots.length - 1; i >= 0; i--) {
+        if (keep.has(snapshots[i].id)) following = snapshots[i].id;
+        else nextSurvivor.set(snapshots[i].id, following);
+      }
+
+      const cellRevisions: { id: number; cellId: number; timelineId: number }[] = await this.db
+        .select({ id: revisions.id, cellId: revisions.cellId, timelineId: revisions.timelineId })
+        .from(revisions)
+        .innerJoin(cells, eq(revisions.cellId, cells.id))
+        .where(and(eq(cells.userId, userId), eq(cells.year, year), eq(cells.mode, entryType)))
+        .orderBy(revisions.revision);
+      const survivorCells = new Set(cellRevisions
+        .filter((revision) => keep.has(revision.timelineId))
+        .map((revision) => `${revision.timelineId}:${revision.cellId}`));
+
+      const moved = new Map<string, { id: number; survivor: number }>(); // Ordered by revision, so the latest wins
+      const deletedRevisions: number[] = [];
+      cellRevisions.forEach((revision) => {
+        const survivor = nextSurvivor.get(revision.timelineId);
+        if (survivor === undefined) return;
+        const key = `${survivor}:${revision.cellId}`;
+        const replaced = survivorCells.has(key) ? revision : moved.get(key);
+        if (replaced) deletedRevisions.push(replaced.id);
+        if (!survivorCells.has(key)) moved.set(key, { id: revision.id, survivor });
+      });
+
+      const droppedIds = dropped.map((entry) => entry.id);
+      for (const [table, ids] of [[timeline, droppedIds], [revisions, deletedRevisions]] as const) {
+        for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+          const [size] = await this.db.select({ bytes: sql<string>`coalesce(sum(${this.rowBytes(table)}), 0)` })
+            .from(table).where(inArray(table.id, ids.slice(i, i + DELETE_BATCH_SIZE)));
+          counts.bytesReclaimed += Number(size.bytes);
+        }
+      }
+      counts.deleted += dropped.length;
+      counts.timelineDeleted += dropped.length;
+      if (dryRun) continue;
+
+      // Survivors now stand for every change since the survivor before them
+      const recounted: { id: number; changesCount: number; description: string }[] = [];
+      for (const { survivor, previous } of survivorsToRecount(snapshots, keep)) {
+        const before = previous ? await this.getContentsAt(entryType, userId, year, previous.snapshotTimestamp) : undefined;
+        const after = await this.getContentsAt(entryType, userId, year, survivor.snapshotTimestamp);
+        const [{ metadata }] = await this.db.select({ metadata: timeline.metadata }).from(timeline).where(eq(timeline.id, survivor.id));
+        const changes = diffCounts(before, after, year);
+        recounted.push({ id: survivor.id, changesCount: totalChanges(changes), description: describeChanges(changes, entryType, metadata) });
+      }
+
+      await this.writeAtomically((tx) => {
+        const writes = [];
+        for (const { id, survivor } of Array.from(moved.values())) {
+          writes.push(tx.update(revisions).set({ timelineId: survivor }).where(eq(revisions.id, id)));
+        }
+        for (let i = 0; i < deletedRevisions.length; i += DELETE_BATCH_SIZE) {
+          writes.push(tx.delete(revisions).where(inArray(revisions.id, deletedRevisions.slice(i, i + DELETE_BATCH_SIZE))));
+        }
+        for (let i = 0; i < droppedIds.length; i += DELETE_BATCH_SIZE) {
+          writes.push(tx.delete(timeline).where(inArray(timeline.id, droppedIds.slice(i, i + DELETE_BATCH_SIZE))));
+        }
+        for (const { id, ...values } of recounted) {
+          writes.push(tx.update(timeline).set(values).where(eq(timeline.id, id)));
+        }
+        return writes;
+      });
+    }
+
+    return counts;
   }
 
-  private async updateDailySnapshotAfterReality(userId: string, year: number, dayContents: DayContents): Promise<void> {
-    const existing = await this.getDailySnapshot(userId, year);
+  // Runs the writes as one unit: a transaction on Postgres, a batch on libSQL, whose interactive
+  // transactions open a second connection and so cannot see an in-memory database. Resolves to each write's result.
+  private async writeAtomically(build: (tx: any) => any[]): Promise<any[]> {
+    if (this.dialect === 'sqlite') {
+      const writes = build(this.db);
+      return writes.length > 0 ? await this.db.batch(writes) : [];
+    }
+    return await this.db.transaction(async (tx: any) => {
+      const results = [];
+      for (const write of build(tx)) results.push(await write);
+      return results;
+    });
+  }
+
+  // Id of the timeline entry inserted earlier in the same writeAtomically unit. Postgres reads its own
+  // session's sequence; a libSQL batch holds the write lock throughout, so the highest id is ours.
+  private insertedTimelineId(): SQL {
+    if (this.dialect === 'postgres') return sql`currval(pg_get_serial_sequence('timeline_index', 'id'))`;
+    return sql`(select max(${this.tables.timelineIndex.id}) from ${this.tables.timelineIndex})`;
+  }
+
+  // Approximate stored size of a row, for the bytes reclaimed in retention reports
+  private rowBytes(table: any) {
+    if (this.dialect === 'postgres') return sql`pg_column_size(${table}.*)`;
+    const columns = Object.values(getTableColumns(table)).map((column) => sql`coalesce(length(${column}), 0)`);
+    return sql.join(columns, sql` + `);
+  }
+
+  // Merges a (possibly partial) write into the latest contents and saves the result as a new snapshot.
+  // Like a delta, an attempt that loses a race with another write is retried against the fresh contents.
+  private async createSnapshot(entryType: CellMode, input: NewMatrixSnapshot): Promise<any> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.tryCreateSnapshot(entryType, input);
+      } catch (error) {
+        if (attempt >= DELTA_ATTEMPTS || !isStaleWrite(error)) throw error;
+      }
+    }
+  }
+
+  // Writes the timeline entry, the changed cells and the daily snapshot in one atomic unit
+  private async tryCreateSnapshot(entryType: CellMode, input: NewMatrixSnapshot): Promise<any> {
+    const { userId, year } = input;
+
+    const daily = await this.getDailySnapshot(userId, year);
+    const latestContents = await this.getContentsAt(entryType, userId, year);
+    const fullContents = mergeFullContents(latestContents, input.day_contents || {}, year);
+    const counts = diffCounts(latestContents, fullContents, year);
     const now = new Date();
 
-    const updated: any = {
+    const [[timeline]] = await this.writeAtomically((tx) => [
+      tx.insert(this.tables.timelineIndex).values({
+        userId,
+        timestamp: now,
+        year,
+        entryType,
+        changesCount: totalChanges(counts),
+        description: describeChanges(counts, entryType, input.metadata),
+        metadata: input.metadata,
+      }).returning(),
+      ...cellRevisionWrites(tx, this.tables, {
+        userId,
+        year,
+        mode: entryType,
+        timelineId: this.insertedTimelineId(),
+        cells: changedCells(latestContents, fullContents),
+        at: now,
+      }),
+      this.writeDailySnapshot(tx, daily, entryType, userId, year, fullContents, now),
+    ]);
+
+    publishJournalChange({
       userId,
-      snapshotDate: now,
       year,
-      latestPlanContents: (existing?.latestPlanContents as any) || {},
-      latestRealityContents: dayContents,
-      planLastUpdated: existing?.planLastUpdated || null,
-      realityLastUpdated: now,
-    };
+      entryType,
+      cells: changedCells(latestContents, fullContents),
+      timeline,
+      replacesTimestamp: null,
+      origin: input.metadata?.client_id ?? null,
+    });
 
-    await this.updateDailySnapshot(updated);
+    return snapshotFromEntry(timeline, fullContents);
   }
 
-  private calculateCompletionRate(planContents: DayContents, realityContents: DayContents): number {
-    const planDays = Object.keys(planContents).filter(key => planContents[key] !== null && planContents[key] !== '');
-    const realityDays = Object.keys(realityContents).filter(key => realityContents[key] !== null && realityContents[key] !== '');
-
-    if (planDays.length === 0) return 0;
+  private async getSnapshot(entryType: CellMode, userId: string, timestamp: string): Promise<any> {
+    const [entry] = await this.db.select().from(this.tables.timelineIndex)
+      .where(and(
+        eq(this.tables.timelineIndex.userId, userId),
+        eq(this.tables.timelineIndex.entryType, entryType),
+        eq(this.tables.timelineIndex.timestamp, new Date(timestamp))
+      )).limit(1);
 
-    const completedDays = planDays.filter(day => realityDays.includes(day));
-    return Math.round((completedDays.length / planDays.length) * 100);
+    if (!entry) return undefined;
+    return snapshotFromEntry(entry, await this.getContentsAt(entryType, userId, entry.year, entry.timestamp));
   }
 
-  private generateDiff(before: DayContents, after: DayContents) {
-    const allDays = new Set([...Object.keys(before), ...Object.keys(after)]);
+  private async getSnapshotAt(entryType: CellMode, userId: string, year: number, at: Date): Promise<any> {
+    const entry = await this.getLatestEntry(entryType, userId, year, at);
+    if (!entry) return undefined;
+    return snapshotFromEntry(entry, await this.getContentsAt(entryType, userId, year, at));
+  }
 
-    return Array.from(allDays).map(day => {
-      const beforeContent = before[day];
-      const afterContent = after[day];
+  // Applies the cells whose base still matches their current value. While the latest snapshot belongs
+  // to a session that was written to recently, it is rewritten in place together with its timeline entry.
+  // An attempt that loses a race with another write is retried, and the re-read reports those cells as conflicts.
+  private async applyDelta(entryType: CellMode, userId: string, year: number, changes: MatrixDelta, origin?: string): Promise<DeltaResult> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.tryApplyDelta(entryType, userId, year, changes, origin);
+      } catch (error) {
+        if (attempt >= DELTA_ATTEMPTS || !isStaleWrite(error)) throw error;
+      }
+    }
+  }
 
-      if (!beforeContent && !afterContent) {
-        return { day, before: null, after: null, status: 'unchanged' as const };
-      } else if (!beforeContent && afterContent) {
-        return { day, before: null, after: afterContent, status: 'added' as const };
-      } else if (beforeContent && !afterContent) {
-        return { day, before: beforeContent, after: null, status: 'removed' as const };
-      } else if (beforeContent !== afterContent) {
-        return { day, before: beforeContent, after: afterContent, status: 'modified' as const };
+  // Reads the cells, then writes them back in one atomic unit that fails if any of them moved on in between
+  private async tryApplyDelta(entryType: CellMode, userId: string, year: number, changes: MatrixDelta, origin?: string): Promise<DeltaResult> {
+    const cells = this.tables.journalCells;
+    const revisions = this.tables.journalCellRevisions;
+    const timelineIndex = this.tables.timelineIndex;
+    const cellWhere = and(eq(cells.userId, userId), eq(cells.year, year), eq(cells.mode, entryType));
+
+    const latest = await this.getLatestEntry(entryType, userId, year);
+    const result: DeltaResult = { applied: [], conflicts: [], snapshot_timestamp: latest ? new Date(latest.timestamp).toISOString() : null };
+    if (Object.keys(changes).length === 0) return result;
+
+    const daily = await this.getDailySnapshot(userId, year); // Read before the cells; see writeDailySnapshot
+    const stored: StoredCell[] = await this.db
+      .select({ id: cells.id, dayKey: cells.dayKey, content: cells.content, revision: cells.revision })
+      .from(cells)
+      .where(and(cellWhere, inArray(cells.dayKey, Object.keys(changes))));
+    const storedCells = new Map(stored.map((cell) => [cell.dayKey, cell]));
+    const latestContents = await this.getContentsAt(entryType, userId, year);
+
+    const incoming: DayContents = {};
+    for (const [key, change] of Object.entries(changes)) {
+      const current = storedCells.get(key)?.content || null;
+      if (current === (change.content || null)) {
+        result.applied.push(key); // Already holds the requested value
+      } else if (current === (change.base || null)) {
+        incoming[key] = change.content || null;
+        result.applied.push(key);
       } else {
-        return { day, before: beforeContent, after: afterContent, status: 'unchanged' as const };
+        result.conflicts.push({ key, base: change.base, content: change.content, current });
       }
-    });
+    }
+    if (Object.keys(incoming).length === 0) return result;
+
+    const fullContents = mergeFullContents(latestContents, incoming, year);
+    const now = new Date();
+
+    // Sets a cell only while it still holds the revision and content read above
+    const updateCell = (tx: any, cell: StoredCell, revision: number, content?: string | null) => tx.update(cells)
+      .set({
+        ...(content !== undefined ? { content } : {}),
+        revision: unlessMovedOn(and(eq(cells.revision, cell.revision), sql`coalesce(${cells.content}, '') = ${cell.content ?? ''}`)!, cells.revision, revision),
+        updatedAt: now,
+      })
+      .where(eq(cells.id, cell.id));
+
+    // A new revision of a cell; creating a cell fails on its unique index if another write created it first
+    const writeRevision = (tx: any, dayKey: string, content: string | null, timelineId: number | SQL) => {
+      const cell = storedCells.get(dayKey);
+      if (cell) {
+        return [
+          updateCell(tx, cell, cell.revision + 1, content),
+          tx.insert(revisions).values({ cellId: cell.id, timelineId, revision: cell.revision + 1, content }),
+        ];
+      }
+      return [
+        tx.insert(cells).values({ userId, year, mode: entryType, dayKey, content, revision: 1, updatedAt: now }),
+        tx.insert(revisions).values({
+          cellId: sql`(select ${cells.id} from ${cells} where ${and(cellWhere, eq(cells.dayKey, dayKey))})`,
+          timelineId,
+          revision: 1,
+          content,
+        }),
+      ];
+    };
+
+    let build: (tx: any) => any[];
+    let replacesTimestamp: string | null = null;
+    const sessionMetadata = editSessionMetadata(latest?.metadata);
+    const continuesSession = latest && sessionMetadata && now.getTime() - new Date(latest.timestamp).getTime() < EDIT_SESSION_GAP_MS;
+
+    if (continuesSession) {
+      const { session } = sessionMetadata;
+      const metadata: EditSessionMetadata = { ...sessionMetadata, session: { ...session, edits: session.edits + 1 } };
+
+      // Count changes against the state before the session started, not just since its last write
+      const beforeSession = await this.getContentsAt(entryType, userId, year, new Date(new Date(session.started_at).getTime() - 1));
+      const counts = diffCounts(beforeSession, fullContents, year);
+      const sessionRevisions: { id: number; revision: number; dayKey: string }[] = await this.db
+        .select({ id: revisions.id, revision: revisions.revision, dayKey: cells.dayKey })
+        .from(revisions)
+        .innerJoin(cells, eq(revisions.cellId, cells.id))
+        .where(and(eq(revisions.timelineId, latest.id), inArray(cells.dayKey, Object.keys(incoming))));
+
+      // A session keeps one revision per cell: later edits overwrite it, and editing the cell back to
+      // its value before the session drops the revision again
+      build = (tx) => {
+        const writes = [
+          tx.update(timelineIndex)
+            .set({
+              timestamp: unlessMovedOn(eq(timelineIndex.timestamp, latest.timestamp), timelineIndex.timestamp, now),
+              changesCount: totalChanges(counts),
+              description: describeChanges(counts, entryType, metadata),
+              metadata,
+            })
+            .where(eq(timelineIndex.id, latest.id))
+            .returning(),
+        ];
+        for (const [dayKey, content] of Object.entries(incoming)) {
+          const own = sessionRevisions.find((revision) => revision.dayKey === dayKey);
+          const cell = storedCells.get(dayKey)!;
+          if (!own) {
+            writes.push(...writeRevision(tx, dayKey, content, latest.id));
+          } else if ((beforeSession[dayKey] || null) !== (content || null)) {
+            writes.push(tx.update(revisions).set({ content }).where(eq(revisions.id, own.id)));
+            writes.push(updateCell(tx, cell, cell.revision, content));
+          } else if (own.revision === 1) {
+            writes.push(updateCell(tx, cell, cell.revision));
+            writes.push(tx.delete(cells).where(eq(cells.id, cell.id))); // Created in this session; takes its revision along
+          } else {
+            writes.push(tx.delete(revisions).where(eq(revisions.id, own.id)));
+            writes.push(updateCell(tx, cell, cell.revision - 1, content));
+          }
+        }
+        writes.push(this.writeDailySnapshot(tx, daily, entryType, userId, year, fullContents, now));
+        return writes;
+      };
+      replacesTimestamp = new Date(latest.timestamp).toISOString();
+    } else {
+      const metadata: EditSessionMetadata = { source: 'delta', session: { started_at: now.toISOString(), edits: 1 } };
+      const counts = diffCounts(latestContents, fullContents, year);
+      build = (tx) => [
+        tx.insert(timelineIndex).values({
+          userId,
+          timestamp: now,
+          year,
+          entryType,
+          changesCount: totalChanges(counts),
+          description: describeChanges(counts, entryType, metadata),
+          metadata,
+        }).returning(),
+        ...Object.entries(incoming).flatMap(([dayKey, content]) => writeRevision(tx, dayKey, content, this.insertedTimelineId())),
+        this.writeDailySnapshot(tx, daily, entryType, userId, year, fullContents, now),
+      ];
+    }
+
+    const [[timeline]] = await this.writeAtomically(build);
+
+    publishJournalChange({ userId, year, entryType, cells: incoming, timeline, replacesTimestamp, origin: origin ?? null });
+
+    return { ...result, snapshot_timestamp: now.toISOString() };
   }
 
-  private extractDayContentsFromRow(row: any): DayContents {
-    const out: DayContents = {} as DayContents;
-    for (const key of this.dayKeys) {
-      const v = row[key];
-      out[key] = v ?? null;
+  // The daily snapshot write of an atomic unit. `contents` were read after `daily`, so the write only lands
+  // while the row is still the one read: every journal write updates it in the same unit as its cells, and
+  // one that landed in between fails this unit (retried by the caller) instead of being overwritten.
+  private writeDailySnapshot(tx: any, daily: DailySnapshot | undefined, entryType: CellMode, userId: string, year: number, contents: DayContents, now: Date) {
+    const table = this.tables.dailySnapshots;
+    const planContents = entryType === 'plan' ? contents : daily?.latestPlanContents ?? {};
+    const realityContents = entryType === 'reality' ? contents : daily?.latestRealityContents ?? {};
+    const values = {
+      latestPlanContents: planContents,
+      latestRealityContents: realityContents,
+      planLastUpdated: entryType === 'plan' ? now : daily?.planLastUpdated ?? null,
+      realityLastUpdated: entryType === 'reality' ? now : daily?.realityLastUpdated ?? null,
+      completionRate: calculateCompletionRate(planContents, realityContents),
+    };
+
+    if (!daily) {
+      const missing = sql`not exists (select 1 from ${table} where ${and(eq(table.userId, userId), eq(table.year, year))})`;
+      return tx.insert(table).values({ userId, year, snapshotDate: unlessMovedOn(missing, table.snapshotDate, now), ...values });
     }
-    return out;
+    return tx.update(table)
+      .set({ ...values, snapshotDate: unlessMovedOn(eq(table.snapshotDate, daily.snapshotDate), table.snapshotDate, now) })
+      .where(eq(table.id, daily.id));
   }
 }
 
-export const storage = new DatabaseStorage();
+// A snapshot in the shape of a wide matrix row, which the routes, exports and tools read:
+// day and period columns, the row total and metadata, plus day_contents
+function snapshotFromEntry(entry: TimelineIndex, contents: DayContents): any {
+  const row = {
+    id: entry.id,
+    userId: entry.userId,
+    snapshotTimestamp: entry.timestamp,
+    year: entry.year,
+    ...pickDayColumns(contents, entry.year),
+    ...pickPeriodColumns(contents),
+    [entry.entryType === 'plan' ? 'totalPlannedDays' : 'totalRealityDays']: countNonEmpty(contents, entry.year),
+    metadata: entry.metadata,
+    createdAt: entry.timestamp,
+  };
+  return { ...row, day_contents: extractDayContentsFromRow(row) };
+}
+
+// The backend named by STORAGE_BACKEND; memory needs no connection at all
+export const storageBackend = storageBackendFromEnv();
+const connection = storageBackend === 'memory' ? undefined : connectDatabase(storageBackend);
+
+export const storage: IStorage = connection ? new DatabaseStorage(connection) : new MemStorage();
+
+// Resolves once the schema is migrated; await it before the first query
+export const storageReady: Promise<void> = connection?.ready ?? Promise.resolve();
+
+export async function closeStorage(): Promise<void> {
+  await connection?.close();
+}
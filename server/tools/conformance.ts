@@ -0,0 +1,335 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { eq } from "drizzle-orm";
+import type { DayContents } from "@shared/schema";
+import type { DatabaseConnection, StorageBackend } from "../db";
+import { backfillJournalCells } from "../journalCells";
+import type { IStorage } from "../storage";
+
+// Usage: npm run conformance -- [memory] [sqlite] [postgres]
+// Runs the smoke.ts scenarios, with assertions, against each storage backend in turn. Without
+// arguments it covers MemStorage and a temporary SQLite file, plus Postgres when DATABASE_URL is set.
+// Postgres runs write to that database under a fresh user and skip the destructive prune.
+
+// storage.ts opens the configured backend on import, which must not require Postgres here
+async function loadStorageModules() {
+  process.env.STORAGE_BACKEND ??= "memory";
+  return { ...(await import("../db")), ...(await import("../storage")), ...(await import("../memStorage")) };
+}
+type StorageModules = Awaited<ReturnType<typeof loadStorageModules>>;
+
+interface ScenarioContext {
+  storage: IStorage;
+  backend: StorageBackend;
+  connection: DatabaseConnection | undefined; // None for memory
+  userId: string;
+  year: number;
+}
+
+type Scenario = [name: string, run: (ctx: ScenarioContext) => Promise<void>];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function makeDayContents(sampleText: string): DayContents {
+  return {
+    day_001: `${sampleText} – Jan 1`,
+    day_010: `${sampleText} – Jan 10`,
+    day_100: `${sampleText} – Apr 10`,
+    day_200: `${sampleText} – Jul 19`,
+    day_300: `${sampleText} – Oct 27`,
+  };
+}
+
+// Later scenarios build on the rows written by earlier ones, so they run in order
+const scenarios: Scenario[] = [
+  ["seeds a user", async ({ storage, userId }) => {
+    await storage.createUser({ id: userId, username: userId, password: "dev" });
+    assert.equal((await storage.getUser(userId))?.username, userId);
+    assert.equal((await storage.getUserByUsername(userId))?.id, userId);
+  }],
+
+  ["starts with an empty year", async ({ storage, userId, year }) => {
+    assert.equal((await storage.getAllPlanSnapshots(userId, year)).length, 0);
+    assert.equal((await storage.getAllRealitySnapshots(userId, year)).length, 0);
+    assert.equal(await storage.getDailySnapshot(userId, year), undefined);
+    assert.equal((await storage.getTimeline(userId, year)).length, 0);
+  }],
+
+  ["writes plan and reality snapshots", async ({ storage, userId, year }) => {
+    await storage.createPlanSnapshot({
+      userId,
+      year,
+      day_contents: makeDayContents("Plan"),
+      metadata: { source: "conformance", mode: "plan" },
+    });
+    await sleep(5);
+    await storage.createRealitySnapshot({
+      userId,
+      year,
+      day_contents: makeDayContents("Reality"),
+      metadata: { source: "conformance", mode: "reality" },
+    });
+
+    const [reality] = await storage.getAllRealitySnapshots(userId, year);
+    assert.equal((reality as any).day_contents.day_100, "Reality – Apr 10");
+    assert.deepEqual(reality.metadata, { source: "conformance", mode: "reality" });
+  }],
+
+  ["merges a partial snapshot into the full state", async ({ storage, userId, year }) => {
+    await sleep(5);
+    const created = await storage.createPlanSnapshot({
+      userId,
+      year,
+      day_contents: { day_001: "Plan – Overwrite Jan 1", "week_2025_02": "Week two" },
+      metadata: { source: "conformance", mode: "plan", test: "full-state-merge" },
+    });
+
+    const snap = await storage.getPlanSnapshot(userId, created.snapshotTimestamp.toISOString()) as any;
+    assert.equal(snap.day_001, "Plan – Overwrite Jan 1");
+    assert.equal(snap.day_010, "Plan – Jan 10");
+    assert.equal(snap.day_contents.day_010, "Plan – Jan 10");
+    assert.equal(snap.day_contents["week_2025_02"], "Week two");
+  }],
+
+  ["keeps the timeline and daily snapshot in step", async ({ storage, userId, year }) => {
+    const plans = await storage.getAllPlanSnapshots(userId, year);
+    const timeline = await storage.getTimeline(userId, year);
+    const daily = await storage.getDailySnapshot(userId, year);
+
+    assert.equal(plans.length, 2);
+    assert.deepEqual(timeline.map((entry) => entry.entryType), ["plan", "reality", "plan"]);
+    assert.equal(timeline[2].changesCount, 2);
+    assert.equal((daily?.latestPlanContents as DayContents).day_001, "Plan – Overwrite Jan 1");
+    assert.equal((daily?.latestRealityContents as DayContents).day_001, "Reality – Jan 1");
+    assert.equal(daily?.completionRate, 83); // Five of six planned cells; the week summary has no reality yet
+  }],
+
+  ["reconstructs and compares points in time", async ({ storage, userId, year }) => {
+    const [first, second] = await storage.getAllPlanSnapshots(userId, year);
+    const before = await storage.getTimeMachineSnapshot(userId, first.snapshotTimestamp.toISOString(), year);
+    assert.equal(before.plan_contents.day_001, "Plan – Jan 1");
+    assert.deepEqual(before.reality_contents, {});
+
+    const comparison = await storage.compareTimeMachineSnapshots(
+      userId, first.snapshotTimestamp.toISOString(), second.snapshotTimestamp.toISOString(), year
+    );
+    assert.deepEqual(comparison.plan_diff.map((diff) => [diff.day, diff.status]), [["day_001", "modified"], ["week_2025_02", "added"]]);
+    assert.equal(comparison.reality_diff.length, 5); // The reality snapshot landed between the two
+  }],
+
+  ["applies deltas and reports conflicts", async ({ storage, userId, year }) => {
+    await sleep(5);
+    const result = await storage.applyPlanDelta(userId, year, {
+      day_002: { base: null, content: "Delta – Jan 2" },
+      day_010: { base: "Stale", content: "Lost" },
+    });
+    assert.deepEqual(result.applied, ["day_002"]);
+    assert.deepEqual(result.conflicts, [{ key: "day_010", base: "Stale", content: "Lost", current: "Plan – Jan 10" }]);
+
+    // A second delta right after continues the editing session instead of adding a snapshot
+    await storage.applyPlanDelta(userId, year, { day_003: { base: null, content: "Delta – Jan 3" } });
+    const plans = await storage.getAllPlanSnapshots(userId, year) as any[];
+    assert.equal(plans.length, 3);
+    assert.equal(plans[2].day_contents.day_002, "Delta – Jan 2");
+    assert.equal(plans[2].day_contents.day_003, "Delta – Jan 3");
+    assert.equal(plans[2].metadata.session.edits, 2);
+
+    // Racing deltas from the same base: one wins, the other reports the winner's value as a conflict
+    const racing = await Promise.all(["First", "Second"].map((content) =>
+      storage.applyPlanDelta(userId, year, { day_005: { base: null, content } })));
+    assert.deepEqual(racing.map((r) => r.applied.length).sort(), [0, 1]);
+    const winner = racing[0].applied.length > 0 ? "First" : "Second";
+    assert.equal(racing.find((r) => r.conflicts.length > 0)!.conflicts[0].current, winner);
+    assert.deepEqual((await storage.getCellRevisions(userId, year, "plan", "day_005")).map((r) => r.content), [winner]);
+    await storage.applyPlanDelta(userId, year, { day_005: { base: winner, content: null } });
+    assert.deepEqual(await storage.getCellRevisions(userId, year, "plan", "day_005"), []);
+  }],
+
+  ["keeps each cell's revision history", async ({ storage, userId, year }) => {
+    assert.deepEqual((await storage.getCellRevisions(userId, year, "reality", "day_100")).map((r) => r.content), ["Reality – Apr 10"]);
+
+    // Still the same session: cells edited and put back again leave no history behind
+    await storage.applyPlanDelta(userId, year, { day_004: { base: null, content: "Typo" } });
+    await storage.applyPlanDelta(userId, year, { day_004: { base: "Typo", content: null } });
+    await storage.applyPlanDelta(userId, year, { day_001: { base: "Plan – Overwrite Jan 1", content: "Briefly" } });
+    await storage.applyPlanDelta(userId, year, { day_001: { base: "Briefly", content: "Plan – Overwrite Jan 1" } });
+    assert.deepEqual(await storage.getCellRevisions(userId, year, "plan", "day_004"), []);
+    const day001 = await storage.getCellRevisions(userId, year, "plan", "day_001");
+    assert.deepEqual(day001.map((r) => [r.revision, r.content]), [[1, "Plan – Jan 1"], [2, "Plan – Overwrite Jan 1"]]);
+    assert.deepEqual((await storage.getCellRevisions(userId, year, "plan", "day_003")).map((r) => r.content), ["Delta – Jan 3"]);
+    assert.equal((await storage.getAllPlanSnapshots(userId, year)).length, 3);
+  }],
+
+  ["exports the year", async ({ storage, userId, year }) => {
+    const data = await storage.exportYearData(userId, year);
+    assert.equal(data.planSnapshots.length, 3);
+    assert.equal(data.realitySnapshots.length, 1);
+    assert.equal(data.timeline.length, 4);
+    assert.ok(data.dailySnapshot);
+  }],
+
+  ["prunes old snapshots", async ({ storage, backend, userId, year }) => {
+    const policy = { keepAllDays: 0, hourlyDays: 0 };
+    const later = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+    const preview = await storage.pruneSnapshots(policy, { now: later, dryRun: true });
+    assert.ok(preview.plan.deleted >= 2);
+    assert.ok(preview.plan.bytesReclaimed > 0);
+    if (backend === "postgres") return; // Would thin every user's history in that database
+
+    const report = await storage.pruneSnapshots(policy, { now: later });
+    assert.equal(report.plan.deleted, 2);
+    const plans = await storage.getAllPlanSnapshots(userId, year) as any[];
+    assert.equal(plans.length, 1);
+    assert.equal(plans[0].day_contents.day_003, "Delta – Jan 3");
+    const timeline = await storage.getTimeline(userId, year);
+    assert.deepEqual(timeline.map((entry) => entry.entryType), ["reality", "plan"]);
+    assert.equal(timeline[1].changesCount, 8);
+  }],
+
+  ["manages teams, share links and sessions", async ({ storage, userId, year }) => {
+    const team = await storage.createTeam("Conformance", userId);
+    assert.deepEqual((await storage.getTeamsForUser(userId)).map((t) => [t.id, t.role]), [[team.id, "owner"]]);
+    assert.equal((await storage.getTeamMembers(team.id))[0].username, userId);
+
+    const guestId = `${userId}-guest`;
+    await storage.createUser({ id: guestId, username: guestId, password: "dev" });
+    const invitation = await storage.createTeamInvitation(team.id, "guest@example.com", "viewer", userId);
+    assert.equal((await storage.createTeamInvitation(team.id, "guest@example.com", "editor", userId)).id, invitation.id);
+    assert.deepEqual((await storage.getInvitationsForEmail("guest@example.com")).map((i) => [i.teamName, i.role]), [["Conformance", "editor"]]);
+    assert.equal(await storage.acceptTeamInvitation(invitation.id, guestId, "other@example.com"), undefined);
+    assert.equal(await storage.getTeamMember(team.id, guestId), undefined);
+    assert.equal((await storage.acceptTeamInvitation(invitation.id, guestId, "guest@example.com"))?.role, "editor");
+    assert.equal((await storage.getTeamInvitations(team.id)).length, 0);
+    const declined = await storage.createTeamInvitation(team.id, "later@example.com", "viewer", userId);
+    assert.equal(await storage.cancelTeamInvitation(team.id + 1, declined.id), false);
+    assert.equal(await storage.declineTeamInvitation(declined.id, "later@example.com"), true);
+
+    const link = await storage.createShareLink({ userId, year, startDay: 1, endDay: 31, mode: "plan", expiresAt: null });
+    assert.equal((await storage.getShareLinkByToken(link.token))?.id, link.id);
+    assert.equal(await storage.revokeShareLink(userId, link.id), true);
+    assert.equal((await storage.getShareLinks(userId)).length, 0);
+
+    const session = await storage.createAuthSession({
+      userId,
+      refreshTokenHash: `${userId}-first`,
+      userAgent: null,
+      ipAddress: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    assert.ok(await storage.rotateAuthSession(session.id, `${userId}-first`, `${userId}-second`, new Date(Date.now() + 60_000)));
+    assert.equal(await storage.rotateAuthSession(session.id, `${userId}-first`, `${userId}-third`, new Date()), undefined);
+    assert.equal((await storage.getAuthSessionByRefreshToken(`${userId}-first`))?.id, session.id);
+    assert.equal(await storage.revokeAllAuthSessions(userId), 1);
+    assert.equal((await storage.getAuthSessions(userId)).length, 0);
+  }],
+
+  // After pruning, which would thin these snapshots too
+  ["keeps every cell when snapshots race", async ({ storage, userId, year }) => {
+    const raceYear = year + 1;
+    await Promise.all(["day_001", "day_002"].map((key) =>
+      storage.createPlanSnapshot({ userId, year: raceYear, day_contents: { [key]: key } })));
+    await Promise.all([
+      storage.createPlanSnapshot({ userId, year: raceYear, day_contents: { day_003: "day_003" } }),
+      storage.createRealitySnapshot({ userId, year: raceYear, day_contents: { day_001: "Done" } }),
+    ]);
+
+    const [latest] = (await storage.getAllPlanSnapshots(userId, raceYear)).slice(-1) as any[];
+    assert.deepEqual([latest.day_contents.day_001, latest.day_contents.day_002, latest.day_contents.day_003], ["day_001", "day_002", "day_003"]);
+    const daily = await storage.getDailySnapshot(userId, raceYear);
+    const plan = daily?.latestPlanContents as DayContents;
+    assert.deepEqual([plan.day_001, plan.day_002, plan.day_003], ["day_001", "day_002", "day_003"]);
+    assert.equal((daily?.latestRealityContents as DayContents).day_001, "Done");
+    assert.equal(daily?.completionRate, 33);
+  }],
+
+  ["backfills rows from the wide matrix tables", async ({ storage, connection, userId }) => {
+    if (!connection) return; // MemStorage has no tables to migrate from
+    const { db, tables } = connection;
+    const legacyUserId = `${userId}-legacy`;
+    await storage.createUser({ id: legacyUserId, username: legacyUserId, password: "dev" });
+    await db.insert(tables.journalPlanMatrix).values([
+      { userId: legacyUserId, year: 2024, snapshotTimestamp: new Date(Date.now() - 60_000), day_001: "Old plan", weekContents: { week_2024_01: "Old week" }, metadata: { source: "legacy" } },
+      { userId: legacyUserId, year: 2024, snapshotTimestamp: new Date(Date.now() - 30_000), day_001: "Newer plan", day_366: "Leap day", weekContents: { week_2024_01: "Old week" } },
+    ]);
+
+    await backfillJournalCells(db, tables);
+    const plans = await storage.getAllPlanSnapshots(legacyUserId, 2024) as any[];
+    assert.deepEqual(plans.map((plan) => plan.day_contents.day_001), ["Old plan", "Newer plan"]);
+    assert.equal(plans[1].day_contents.day_366, "Leap day");
+    assert.equal(plans[1].day_contents.week_2024_01, "Old week");
+    assert.deepEqual(plans[0].metadata, { source: "legacy" });
+    assert.deepEqual((await storage.getTimeline(legacyUserId, 2024)).map((entry) => entry.changesCount), [2, 2]);
+    assert.deepEqual((await storage.getCellRevisions(legacyUserId, 2024, "plan", "day_001")).map((r) => r.content), ["Old plan", "Newer plan"]);
+    const legacyRows = () => db.select().from(tables.journalPlanMatrix).where(eq(tables.journalPlanMatrix.userId, legacyUserId));
+    assert.ok((await legacyRows()).every((row: any) => row.migratedAt));
+
+    // A run that stopped before marking its rows copies the whole series again
+    await db.update(tables.journalPlanMatrix).set({ migratedAt: null }).where(eq(tables.journalPlanMatrix.userId, legacyUserId));
+    await backfillJournalCells(db, tables);
+    assert.deepEqual((await storage.getCellRevisions(legacyUserId, 2024, "plan", "day_001")).map((r) => r.content), ["Old plan", "Newer plan"]);
+    assert.deepEqual((await storage.getTimeline(legacyUserId, 2024)).map((entry) => entry.changesCount), [2, 2]);
+    assert.equal((await legacyRows()).length, 2);
+  }],
+];
+
+async function runBackend({ connectDatabase, DatabaseStorage, MemStorage }: StorageModules, backend: StorageBackend): Promise<number> {
+  const tempDir = backend === "sqlite" ? fs.mkdtempSync(path.join(os.tmpdir(), "dailyglass-")) : undefined;
+  const env = tempDir
+    ? { ...process.env, TURSO_DATABASE_URL: "", LOCAL_SQLITE_PATH: path.join(tempDir, "conformance.db") }
+    : process.env;
+  const connection = backend === "memory" ? undefined : connectDatabase(backend, env);
+  const ctx: ScenarioContext = {
+    storage: connection ? new DatabaseStorage(connection) : new MemStorage(),
+    backend,
+    connection,
+    userId: `conformance-${Date.now()}`,
+    year: 2025,
+  };
+
+  let failures = 0;
+  try {
+    await connection?.ready;
+    console.log(`\n${backend}`);
+    for (const [name, run] of scenarios) {
+      try {
+        await run(ctx);
+        console.log(`  ✓ ${name}`);
+      } catch (err) {
+        failures++;
+        console.log(`  ✗ ${name}\n    ${err instanceof Error ? err.message.split("\n").join("\n    ") : err}`);
+      }
+    }
+  } finally {
+    await connection?.close();
+    if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+  return failures;
+}
+
+async function run() {
+  const modules = await loadStorageModules();
+  const { STORAGE_BACKENDS } = modules;
+  const requested = process.argv.slice(2) as StorageBackend[];
+  const unknown = requested.filter((backend) => !STORAGE_BACKENDS.includes(backend));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown backend ${unknown.join(", ")}; expected ${STORAGE_BACKENDS.join(", ")}`);
+  }
+  const backends: StorageBackend[] = requested.length > 0
+    ? requested
+    : ["memory", "sqlite", ...(process.env.DATABASE_URL ? ["postgres" as const] : [])];
+
+  let failures = 0;
+  for (const backend of backends) {
+    failures += await runBackend(modules, backend);
+  }
+
+  console.log(failures === 0 ? `\nAll scenarios passed on ${backends.join(", ")}` : `\n${failures} scenario(s) failed`);
+  process.exitCode = failures === 0 ? 0 : 1;
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
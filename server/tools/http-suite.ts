@@ -0,0 +1,498 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { MailMessage } from "../auth/mailer";
+
+// Usage: npm run http-suite
+// Drives every route in routes.ts over HTTP against MemStorage, the way the client does: cookies
+// for auth, JSON bodies, snake_case responses. Needs no database and leaves nothing behind.
+
+// Route modules import storage, which opens STORAGE_BACKEND on import
+async function loadServerModules() {
+  process.env.STORAGE_BACKEND = "memory";
+  return {
+    express: (await import("express")).default,
+    ...(await import("../routes")),
+    ...(await import("../auth/mailer")),
+  };
+}
+
+const YEAR = 2025;
+
+// Holds the cookies a browser would, so each client is one signed-in device
+class Client {
+  private cookies = new Map<string, string>();
+
+  constructor(private baseUrl: string, private userAgent: string) {}
+
+  // The raw response, for streams; request() reads the body and keeps the cookies
+  fetch(method: string, path: string, body?: unknown, signal?: AbortSignal) {
+    return fetch(`${this.baseUrl}${path}`, {
+      method,
+      redirect: "manual",
+      signal,
+      headers: {
+        "User-Agent": this.userAgent,
+        Cookie: Array.from(this.cookies, ([name, value]) => `${name}=${value}`).join("; "),
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  }
+
+  async request(method: string, path: string, body?: unknown) {
+    const res = await this.fetch(method, path, body);
+
+    for (const cookie of res.headers.getSetCookie()) {
+      const [pair] = cookie.split(";");
+      const [name, value] = [pair.slice(0, pair.indexOf("=")), pair.slice(pair.indexOf("=") + 1)];
+      if (value) this.cookies.set(name, value);
+      else this.cookies.delete(name);
+    }
+
+    const type = res.headers.get("content-type") ?? "";
+    const data = type.includes("application/json") ? await res.json() : await res.text();
+    return { status: res.status, headers: res.headers, data: data as any };
+  }
+
+  get = (path: string) => this.request("GET", path);
+  post = (path: string, body: unknown = {}) => this.request("POST", path, body);
+  patch = (path: string, body: unknown) => this.request("PATCH", path, body);
+  delete = (path: string) => this.request("DELETE", path);
+
+  hasCookie(name: string) {
+    return this.cookies.has(name);
+  }
+}
+
+interface SuiteContext {
+  newClient(userAgent?: string): Client;
+  mail: MailMessage[];
+  alice: Client;
+  bob: Client;
+  aliceId: string;
+  bobId: string;
+  teamId: number;
+  shareId: number;
+  shareToken: string;
+  firstPlanAt: string;
+}
+
+type Scenario = [name: string, run: (ctx: SuiteContext) => Promise<void>];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Later scenarios build on the accounts and rows created by earlier ones, so they run in order
+const scenarios: Scenario[] = [
+  ["GET /api/health", async ({ alice }) => {
+    const res = await alice.get("/api/health");
+    assert.equal(res.status, 200);
+    assert.equal(res.data.status, "ok");
+  }],
+
+  ["rejects unauthenticated requests", async ({ alice }) => {
+    assert.equal((await alice.get("/api/auth/me")).status, 401);
+    assert.equal((await alice.get(`/api/matrix/anyone/${YEAR}/daily`)).status, 401);
+    assert.equal((await alice.get("/api/teams")).status, 401);
+  }],
+
+  ["POST /api/auth/google without a credential", async ({ alice }) => {
+    assert.equal((await alice.post("/api/auth/google", {})).status, 400);
+  }],
+
+  ["POST /api/auth/register", async (ctx) => {
+    const res = await ctx.alice.post("/api/auth/register", { email: "alice@example.com", password: "correct horse", displayName: "Alice" });
+    assert.equal(res.status, 201);
+    assert.equal(res.data.user.displayName, "Alice");
+    assert.ok(ctx.alice.hasCookie("auth_token") && ctx.alice.hasCookie("refresh_token"));
+    ctx.aliceId = res.data.user.id;
+
+    assert.equal((await ctx.newClient().post("/api/auth/register", { email: "alice@example.com", password: "another one" })).status, 409);
+    assert.equal((await ctx.newClient().post("/api/auth/register", { email: "not-an-email", password: "x" })).status, 400);
+  }],
+
+  ["GET /api/auth/me", async ({ alice, aliceId }) => {
+    const res = await alice.get("/api/auth/me");
+    assert.equal(res.status, 200);
+    assert.equal(res.data.id, aliceId);
+  }],
+
+  ["POST /api/auth/login", async ({ newClient }) => {
+    assert.equal((await newClient().post("/api/auth/login", { email: "alice@example.com", password: "wrong password" })).status, 401);
+    const device = newClient("Mozilla/5.0 (Macintosh; Intel Mac OS X 14.5) Gecko/20100101 Firefox/128.0");
+    const res = await device.post("/api/auth/login", { email: "alice@example.com", password: "correct horse" });
+    assert.equal(res.status, 200);
+    assert.ok(device.hasCookie("auth_token"));
+  }],
+
+  ["POST /api/auth/magic-link and GET /api/auth/magic-link/verify", async (ctx) => {
+    ctx.bob = ctx.newClient();
+    const appUrl = process.env.APP_URL;
+    delete process.env.APP_URL;
+    assert.equal((await ctx.bob.post("/api/auth/magic-link", { email: "bob@example.com" })).status, 503);
+    process.env.APP_URL = appUrl;
+    assert.equal(ctx.mail.length, 0);
+
+    const res = await ctx.bob.post("/api/auth/magic-link", { email: "bob@example.com" });
+    assert.equal(res.status, 202);
+
+    const link = ctx.mail.find((message) => message.to === "bob@example.com")?.text.match(/https?:\/\/\S+/)?.[0];
+    assert.ok(link, "no sign-in link was mailed");
+    const verify = await ctx.bob.get(new URL(link).pathname + new URL(link).search);
+    assert.equal(verify.status, 302);
+    assert.equal(verify.headers.get("location"), "/");
+
+    const reused = await ctx.newClient().get(new URL(link).pathname + new URL(link).search);
+    assert.equal(reused.headers.get("location"), "/login?error=magic-link");
+    ctx.bobId = (await ctx.bob.get("/api/auth/me")).data.id;
+    assert.ok(ctx.bobId);
+  }],
+
+  ["POST /api/auth/refresh", async ({ alice }) => {
+    const res = await alice.post("/api/auth/refresh");
+    assert.equal(res.status, 200);
+    assert.equal((await alice.get("/api/auth/me")).status, 200);
+  }],
+
+  ["GET /api/auth/sessions and DELETE /api/auth/sessions/:id", async ({ alice }) => {
+    const sessions = (await alice.get("/api/auth/sessions")).data as any[];
+    assert.equal(sessions.length, 2);
+    assert.equal(sessions.filter((session) => session.current).length, 1);
+
+    const other = sessions.find((session) => !session.current);
+    assert.equal(other.device, "Firefox on macOS");
+    assert.equal((await alice.delete(`/api/auth/sessions/${other.id}`)).status, 204);
+    assert.equal((await alice.delete(`/api/auth/sessions/${other.id}`)).status, 404);
+    assert.equal((await alice.get("/api/auth/sessions")).data.length, 1);
+  }],
+
+  ["POST /api/matrix/plan and /api/matrix/reality", async (ctx) => {
+    const { alice, aliceId } = ctx;
+    const plan = await alice.post("/api/matrix/plan", {
+      year: YEAR,
+      day_contents: { day_001: "Plan Jan 1", day_002: "Plan Jan 2", week_2025_02: "Week two" },
+      metadata: { source: "http-suite" },
+    });
+    assert.equal(plan.status, 200);
+    assert.equal(plan.data.userId, aliceId);
+    await sleep(5);
+    const reality = await alice.post("/api/matrix/reality", { user_id: "someone-else", year: YEAR, day_contents: { day_001: "Did Jan 1" } });
+    assert.equal(reality.status, 200);
+    assert.equal(reality.data.userId, aliceId); // The body cannot write to another user's journal
+    ctx.firstPlanAt = plan.data.snapshotTimestamp;
+
+    assert.equal((await alice.post("/api/matrix/plan", { year: "soon" })).status, 400);
+  }],
+
+  ["PATCH /api/matrix/plan and /api/matrix/reality", async ({ alice }) => {
+    await sleep(5);
+    const plan = await alice.patch("/api/matrix/plan", {
+      year: YEAR,
+      changes: {
+        day_003: { base: null, content: "Plan Jan 3" },
+        day_002: { base: "Stale", content: "Lost" },
+      },
+    });
+    assert.equal(plan.status, 200);
+    assert.deepEqual(plan.data.applied, ["day_003"]);
+    assert.deepEqual(plan.data.conflicts.map((conflict: any) => conflict.key), ["day_002"]);
+
+    const reality = await alice.patch("/api/matrix/reality", { year: YEAR, changes: { day_002: { base: null, content: "Did Jan 2" } } });
+    assert.deepEqual(reality.data.applied, ["day_002"]);
+    assert.equal((await alice.patch("/api/matrix/plan", { year: YEAR, changes: { day_400: { base: null, content: "x" } } })).status, 400);
+  }],
+
+  ["GET /api/matrix/:userId/:year/daily", async ({ alice, aliceId, bob }) => {
+    const res = await alice.get(`/api/matrix/${aliceId}/${YEAR}/daily`);
+    assert.equal(res.status, 200);
+    assert.equal(res.data.latestPlanContents.day_003, "Plan Jan 3");
+    assert.equal(res.data.latestRealityContents.day_002, "Did Jan 2");
+
+    assert.equal((await alice.get(`/api/matrix/${aliceId}/1999/daily`)).status, 404);
+    assert.equal((await alice.get(`/api/matrix/${aliceId}/next/daily`)).status, 400);
+    assert.equal((await bob.get(`/api/matrix/${aliceId}/${YEAR}/daily`)).status, 403);
+  }],
+
+  ["GET /api/matrix/:userId/:year/plans and /realities", async ({ alice, aliceId }) => {
+    const plans = (await alice.get(`/api/matrix/${aliceId}/${YEAR}/plans`)).data as any[];
+    assert.equal(plans.length, 2);
+    assert.equal(plans[1].user_id, aliceId);
+    assert.equal(plans[1].day_contents.day_003, "Plan Jan 3");
+    assert.equal(plans[1].day_contents.week_2025_02, "Week two");
+    assert.equal(plans[1].day_001, undefined); // Wide day columns stay out of the response
+
+    const realities = (await alice.get(`/api/matrix/${aliceId}/${YEAR}/realities`)).data as any[];
+    assert.equal(realities.length, 2);
+    assert.deepEqual(realities[0].metadata, null);
+  }],
+
+  ["GET /api/events", async ({ alice, newClient }) => {
+    const controller = new AbortController();
+    const res = await alice.fetch("GET", "/api/events", undefined, controller.signal);
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("content-type")!, /^text\/event-stream/);
+
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = decoder.decode((await reader.read()).value);
+    await alice.patch("/api/matrix/plan", { year: YEAR, changes: { day_004: { base: null, content: "Plan Jan 4" } }, client_id: "suite" });
+    while (!received.includes("event: journal-change")) {
+      received += decoder.decode((await reader.read()).value);
+    }
+    controller.abort();
+    assert.match(received, /"day_004":"Plan Jan 4"/);
+    assert.equal((await newClient().get("/api/events")).status, 401);
+  }],
+
+  ["GET /api/timemachine/:userId/:year/timeline", async ({ alice, aliceId }) => {
+    const timeline = (await alice.get(`/api/timemachine/${aliceId}/${YEAR}/timeline`)).data as any[];
+    // The PATCH from the events scenario continued the plan editing session, moving it to the end
+    assert.deepEqual(timeline.map((entry) => entry.entryType), ["plan", "reality", "reality", "plan"]);
+    assert.equal((await alice.get(`/api/timemachine/${aliceId}/x/timeline`)).status, 400);
+  }],
+
+  ["GET /api/timemachine/:userId/:year/snapshot/:timestamp", async ({ alice, aliceId, firstPlanAt }) => {
+    const res = await alice.get(`/api/timemachine/${aliceId}/${YEAR}/snapshot/${encodeURIComponent(firstPlanAt)}`);
+    assert.equal(res.status, 200);
+    assert.equal(res.data.plan_contents.day_001, "Plan Jan 1");
+    assert.ok(!res.data.plan_contents.day_003);
+    assert.deepEqual(res.data.reality_contents, {});
+    assert.equal((await alice.get(`/api/timemachine/${aliceId}/${YEAR}/snapshot/yesterday`)).status, 400);
+  }],
+
+  ["GET /api/timemachine/:userId/:year/compare", async ({ alice, aliceId, firstPlanAt }) => {
+    const timeline = (await alice.get(`/api/timemachine/${aliceId}/${YEAR}/timeline`)).data as any[];
+    const [from, to] = [firstPlanAt, timeline[timeline.length - 1].timestamp].map(encodeURIComponent);
+    const res = await alice.get(`/api/timemachine/${aliceId}/${YEAR}/compare?from=${from}&to=${to}`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.data.plan_diff.map((diff: any) => [diff.day, diff.status]), [["day_003", "added"], ["day_004", "added"]]);
+    assert.deepEqual(res.data.reality_diff.map((diff: any) => [diff.day, diff.status]), [["day_001", "added"], ["day_002", "added"]]);
+    assert.equal((await alice.get(`/api/timemachine/${aliceId}/${YEAR}/compare?from=${from}`)).status, 400);
+  }],
+
+  ["GET /api/export/:userId/:year", async ({ alice, aliceId }) => {
+    const json = await alice.get(`/api/export/${aliceId}/${YEAR}`);
+    assert.equal(json.data.planSnapshots.length, 2);
+
+    const csv = await alice.get(`/api/export/${aliceId}/${YEAR}?format=csv&variant=comparison`);
+    assert.match(csv.headers.get("content-type")!, /^text\/csv/);
+    assert.match(csv.data, /Plan Jan 1/);
+    assert.equal((await alice.get(`/api/export/${aliceId}/${YEAR}?format=csv&variant=both`)).status, 400);
+
+    const markdown = await alice.get(`/api/export/${aliceId}/${YEAR}?format=markdown`);
+    assert.equal(markdown.headers.get("content-type"), "application/zip");
+  }],
+
+  ["POST /api/import/:year", async ({ alice, aliceId }) => {
+    const exported = (await alice.get(`/api/export/${aliceId}/${YEAR}`)).data;
+    const preview = await alice.post(`/api/import/${YEAR}`, { format: "json", data: exported, dry_run: true });
+    assert.equal(preview.status, 200);
+    assert.equal(preview.data.dry_run, true);
+    assert.ok(preview.data.plan);
+
+    const csv = "Plan,2025-01-05\nImported,Imported Jan 5\n";
+    const imported = await alice.post(`/api/import/${YEAR}`, { format: "csv", type: "plan", data: csv });
+    assert.equal(imported.status, 200);
+    const daily = (await alice.get(`/api/matrix/${aliceId}/${YEAR}/daily`)).data;
+    assert.equal(daily.latestPlanContents.day_005, "Imported Jan 5");
+    const invalidJson = await alice.post(`/api/import/${YEAR}`, { format: "json", data: "{not json" });
+    assert.equal(invalidJson.status, 400);
+    assert.equal(invalidJson.data.message, "JSON import is not valid JSON");
+    assert.equal((await alice.post(`/api/import/${YEAR}`, { format: "csv", data: exported })).status, 400);
+  }],
+
+  ["GET /api/matrix/:userId/:year/:mode/:dayKey/revisions", async ({ alice, aliceId, bob }) => {
+    await alice.post("/api/matrix/plan", { year: YEAR, day_contents: { day_005: "Rescheduled" } });
+    await sleep(5);
+    await alice.post("/api/matrix/plan", { year: YEAR, day_contents: { day_005: "Imported Jan 5" }, metadata: { source: "restore" } });
+
+    const res = await alice.get(`/api/matrix/${aliceId}/${YEAR}/plan/day_005/revisions`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.data.map((revision: any) => [revision.revision, revision.content]), [
+      [1, "Imported Jan 5"],
+      [2, "Rescheduled"],
+      [3, "Imported Jan 5"],
+    ]);
+    assert.ok(!isNaN(new Date(res.data[0].timestamp).getTime()));
+
+    const timeline = (await alice.get(`/api/timemachine/${aliceId}/${YEAR}/timeline`)).data as any[];
+    assert.match(timeline[timeline.length - 1].description, /^Restored 1 days/);
+
+    assert.deepEqual((await alice.get(`/api/matrix/${aliceId}/${YEAR}/reality/day_300/revisions`)).data, []);
+    assert.equal((await alice.get(`/api/matrix/${aliceId}/${YEAR}/both/day_005/revisions`)).status, 400);
+    assert.equal((await alice.get(`/api/matrix/${aliceId}/${YEAR}/plan/day_400/revisions`)).status, 400);
+    assert.equal((await bob.get(`/api/matrix/${aliceId}/${YEAR}/plan/day_005/revisions`)).status, 403);
+  }],
+
+  ["GET /api/calendar/feed, POST /api/calendar/feed/rotate, GET /api/calendar/:token/plan.ics", async ({ alice, newClient }) => {
+    const feed = await alice.get("/api/calendar/feed");
+    assert.equal(feed.status, 200);
+    assert.equal((await alice.get("/api/calendar/feed")).data.token, feed.data.token);
+
+    const ics = await newClient().get(`/api/calendar/${feed.data.token}/plan.ics`);
+    assert.equal(ics.status, 200);
+    assert.match(ics.data, /BEGIN:VCALENDAR/);
+    assert.match(ics.data, /Plan Jan 1/);
+
+    const rotated = await alice.post("/api/calendar/feed/rotate");
+    assert.notEqual(rotated.data.token, feed.data.token);
+    assert.equal((await newClient().get(`/api/calendar/${feed.data.token}/plan.ics`)).status, 404);
+  }],
+
+  ["POST /api/share and GET /api/share", async (ctx) => {
+    const { alice } = ctx;
+    const created = await alice.post("/api/share", { year: YEAR, start_day: 1, end_day: 2, mode: "plan" });
+    assert.equal(created.status, 201);
+    ctx.shareId = created.data.id;
+    ctx.shareToken = created.data.token;
+
+    assert.equal((await alice.post("/api/share", { year: YEAR, start_day: 10, end_day: 2 })).status, 400);
+    assert.deepEqual((await alice.get("/api/share")).data.map((link: any) => link.id), [ctx.shareId]);
+  }],
+
+  ["GET /api/share/:token/view", async ({ newClient, shareToken }) => {
+    const view = await newClient().get(`/api/share/${shareToken}/view`);
+    assert.equal(view.status, 200);
+    assert.equal(view.data.owner, "Alice");
+    assert.equal(view.data.plan_contents.day_001, "Plan Jan 1");
+    assert.equal(view.data.plan_contents.day_003, undefined); // Outside the shared range
+    assert.equal(view.data.reality_contents, null);
+  }],
+
+  ["DELETE /api/share/:id", async ({ alice, bob, newClient, shareId, shareToken }) => {
+    assert.equal((await bob.delete(`/api/share/${shareId}`)).status, 404);
+    assert.equal((await alice.delete(`/api/share/${shareId}`)).status, 204);
+    assert.equal((await newClient().get(`/api/share/${shareToken}/view`)).status, 404);
+    assert.equal((await alice.delete("/api/share/first")).status, 400);
+  }],
+
+  ["POST /api/teams and GET /api/teams", async (ctx) => {
+    const created = await ctx.alice.post("/api/teams", { name: "Household" });
+    assert.equal(created.status, 201);
+    assert.equal(created.data.role, "owner");
+    ctx.teamId = created.data.id;
+
+    assert.equal((await ctx.alice.post("/api/teams", { name: " " })).status, 400);
+    assert.deepEqual((await ctx.alice.get("/api/teams")).data.map((team: any) => team.id), [ctx.teamId]);
+    assert.deepEqual((await ctx.bob.get("/api/teams")).data, []);
+  }],
+
+  ["POST /api/teams/:teamId/invitations", async ({ alice, bob, teamId }) => {
+    const invited = await alice.post(`/api/teams/${teamId}/invitations`, { email: "Bob@Example.com", role: "viewer" });
+    assert.equal(invited.status, 201);
+    assert.equal(invited.data.email, "bob@example.com");
+
+    // An address without an account gets the same answer, so invitations do not reveal who signed up
+    const unknown = await alice.post(`/api/teams/${teamId}/invitations`, { email: "nobody@example.com" });
+    assert.equal(unknown.status, 201);
+    assert.deepEqual(Object.keys(unknown.data), Object.keys(invited.data));
+
+    // Being invited grants nothing until the invitation is accepted
+    assert.equal((await bob.get(`/api/teams/${teamId}/members`)).status, 404);
+    assert.equal((await bob.get(`/api/teams/${teamId}/journal/${YEAR}`)).status, 404);
+    assert.equal((await bob.post(`/api/teams/${teamId}/invitations`, { email: "bob@example.com" })).status, 404);
+
+    const pending = (await alice.get(`/api/teams/${teamId}/invitations`)).data as any[];
+    assert.deepEqual(pending.map((invitation) => invitation.email).sort(), ["bob@example.com", "nobody@example.com"]);
+    assert.equal((await alice.delete(`/api/teams/${teamId}/invitations/${unknown.data.id}`)).status, 204);
+    assert.equal((await alice.delete(`/api/teams/${teamId}/invitations/${unknown.data.id}`)).status, 404);
+  }],
+
+  ["POST /api/team-invitations/:invitationId/accept and GET /api/teams/:teamId/members", async ({ alice, bob, bobId, teamId }) => {
+    const [invitation] = (await bob.get("/api/team-invitations")).data as any[];
+    assert.equal(invitation.team_name, "Household");
+    assert.deepEqual((await alice.get("/api/team-invitations")).data, []);
+
+    // Only the account holding the invited address can answer it
+    assert.equal((await alice.post(`/api/team-invitations/${invitation.id}/accept`)).status, 404);
+    assert.equal((await alice.delete(`/api/team-invitations/${invitation.id}`)).status, 404);
+
+    const accepted = await bob.post(`/api/team-invitations/${invitation.id}/accept`);
+    assert.equal(accepted.status, 200);
+    assert.equal(accepted.data.role, "viewer");
+    assert.equal((await bob.post(`/api/team-invitations/${invitation.id}/accept`)).status, 404);
+    assert.deepEqual((await bob.get("/api/team-invitations")).data, []);
+
+    const members = (await bob.get(`/api/teams/${teamId}/members`)).data as any[];
+    assert.deepEqual(members.map((member) => member.role).sort(), ["owner", "viewer"]);
+    assert.ok(members.some((member) => member.user_id === bobId));
+    assert.equal((await alice.post(`/api/teams/${teamId}/invitations`, { email: "bob@example.com" })).status, 409);
+    assert.equal((await bob.post(`/api/teams/${teamId}/invitations`, { email: "carol@example.com" })).status, 403);
+  }],
+
+  ["PATCH /api/teams/:teamId/members/:userId", async ({ alice, aliceId, bobId, teamId }) => {
+    assert.equal((await alice.patch(`/api/teams/${teamId}/members/${aliceId}`, { role: "editor" })).status, 400);
+    const updated = await alice.patch(`/api/teams/${teamId}/members/${bobId}`, { role: "editor" });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.data.role, "editor");
+    assert.equal((await alice.patch(`/api/teams/${teamId}/members/nobody`, { role: "viewer" })).status, 404);
+  }],
+
+  ["GET /api/teams/:teamId/journal/:year", async ({ bob, aliceId, teamId }) => {
+    const res = await bob.get(`/api/teams/${teamId}/journal/${YEAR}`);
+    assert.equal(res.status, 200);
+    assert.equal(res.data.team.role, "editor");
+    const alice = res.data.members.find((member: any) => member.user_id === aliceId);
+    assert.equal(alice.plan_contents.day_001, "Plan Jan 1");
+    assert.equal((await bob.get(`/api/teams/${teamId}/journal/soon`)).status, 400);
+  }],
+
+  ["DELETE /api/teams/:teamId/members/:userId", async ({ alice, aliceId, bob, bobId, teamId }) => {
+    assert.equal((await bob.delete(`/api/teams/${teamId}/members/${aliceId}`)).status, 403);
+    assert.equal((await alice.delete(`/api/teams/${teamId}/members/${aliceId}`)).status, 400);
+    assert.equal((await bob.delete(`/api/teams/${teamId}/members/${bobId}`)).status, 204);
+    assert.equal((await bob.get(`/api/teams/${teamId}/members`)).status, 404);
+  }],
+
+  ["POST /api/auth/logout", async ({ bob }) => {
+    assert.equal((await bob.post("/api/auth/logout")).status, 200);
+    assert.equal((await bob.get("/api/auth/me")).status, 401);
+  }],
+
+  ["DELETE /api/auth/sessions", async ({ alice }) => {
+    const res = await alice.delete("/api/auth/sessions");
+    assert.equal(res.status, 200);
+    assert.equal(res.data.revoked, 1);
+    assert.equal((await alice.get("/api/auth/me")).status, 401);
+    assert.equal((await alice.post("/api/auth/refresh")).status, 401);
+  }],
+];
+
+async function run() {
+  const { express, registerRoutes, setMailTransport } = await loadServerModules();
+  const mail: MailMessage[] = [];
+  setMailTransport({ async send(message) { mail.push(message); } });
+
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.APP_URL = baseUrl; // Magic links are built from it, never from the Host header
+
+  const newClient = (userAgent = "http-suite") => new Client(baseUrl, userAgent);
+  const ctx = { newClient, mail, alice: newClient() } as SuiteContext;
+
+  let failures = 0;
+  try {
+    for (const [name, run] of scenarios) {
+      try {
+        await run(ctx);
+        console.log(`  ✓ ${name}`);
+      } catch (err) {
+        failures++;
+        console.log(`  ✗ ${name}\n    ${err instanceof Error ? err.message.split("\n").join("\n    ") : err}`);
+      }
+    }
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+
+  console.log(failures === 0 ? `\nAll ${scenarios.length} scenarios passed` : `\n${failures} scenario(s) failed`);
+  process.exitCode = failures === 0 ? 0 : 1;
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
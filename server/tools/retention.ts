@@ -0,0 +1,47 @@
+import { closeStorage, storage, storageReady } from "../storage";
+import { retentionPolicyFromEnv, type RetentionCounts } from "../retention/policy";
+
+// Usage: npm run retention -- [--dry-run] [--keep-all-days=7] [--hourly-days=30]
+
+function readFlag(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describe(label: string, counts: RetentionCounts): string {
+  return `${label}: ${counts.deleted} of ${counts.scanned} snapshots, ${counts.timelineDeleted} timeline entries, ${formatBytes(counts.bytesReclaimed)}`;
+}
+
+async function run() {
+  await storageReady;
+  const dryRun = process.argv.includes("--dry-run");
+  const policy = retentionPolicyFromEnv({
+    ...process.env,
+    RETENTION_KEEP_ALL_DAYS: readFlag("keep-all-days") ?? process.env.RETENTION_KEEP_ALL_DAYS,
+    RETENTION_HOURLY_DAYS: readFlag("hourly-days") ?? process.env.RETENTION_HOURLY_DAYS,
+  });
+
+  console.log(
+    `Retention policy: keep everything for ${policy.keepAllDays} days, hourly until ${policy.hourlyDays} days, daily after that${dryRun ? " (dry run)" : ""}`
+  );
+
+  const report = await storage.pruneSnapshots(policy, { dryRun });
+  const total = report.plan.bytesReclaimed + report.reality.bytesReclaimed;
+
+  console.log(describe("Plan", report.plan));
+  console.log(describe("Reality", report.reality));
+  console.log(`${dryRun ? "Would reclaim" : "Reclaimed"} ${formatBytes(total)}`);
+}
+
+run()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => closeStorage());
@@ -1,16 +1,11 @@
-import { db } from "../db";
-import { storage } from "../storage";
-import {
-  users,
-  type DayContents,
-} from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { closeStorage, storage, storageReady } from "../storage";
+import { type DayContents } from "@shared/schema";
 
 async function ensureDefaultUser() {
   const userId = "default-user";
-  const existing = await db.select().from(users).where(eq(users.id, userId)).limit(1);
-  if (existing.length === 0) {
-    await db.insert(users).values({ id: userId, username: "default-user", password: "dev" });
+  const existing = await storage.getUser(userId);
+  if (!existing) {
+    await storage.createUser({ id: userId, username: "default-user", password: "dev" });
     console.log(`Seeded user '${userId}'.`);
   }
   return userId;
@@ -27,6 +22,7 @@ function makeDayContents(sampleText: string): DayContents {
 }
 
 async function run() {
+  await storageReady;
   const userId = await ensureDefaultUser();
   const year = new Date().getFullYear();
 
@@ -43,8 +39,7 @@ async function run() {
 
   // Insert a plan snapshot
   await storage.createPlanSnapshot({
-    userId: userId,
-    snapshot_timestamp: new Date(),
+    userId,
     year,
     day_contents: makeDayContents("Plan"),
     metadata: { source: "smoke", mode: "plan" },
@@ -52,25 +47,22 @@ async function run() {
 
   // Insert a reality snapshot
   await storage.createRealitySnapshot({
-    user_id: userId,
-    snapshot_timestamp: new Date(),
+    userId,
     year,
     day_contents: makeDayContents("Reality"),
     metadata: { source: "smoke", mode: "reality" },
   });
 
   // Validate full-state behavior: create second plan snapshot with only one change
-  const ts2 = new Date();
-  await storage.createPlanSnapshot({
-    user_id: userId,
-    snapshot_timestamp: ts2,
+  const second = await storage.createPlanSnapshot({
+    userId,
     year,
     day_contents: { day_001: "Plan – Overwrite Jan 1" },
     metadata: { source: "smoke", mode: "plan", test: "full-state-merge" },
   });
 
   // Fetch the second snapshot and ensure previously set fields persist
-  const snap = await storage.getPlanSnapshot(userId, ts2.toISOString());
+  const snap = await storage.getPlanSnapshot(userId, second.snapshotTimestamp.toISOString());
   console.log("Full-state check -> day_010:", (snap as any)?.day_010);
 
   const afterPlan = await storage.getAllPlanSnapshots(userId, year);
@@ -89,7 +81,9 @@ async function run() {
   console.log("lastPlan.day_contents keys:", lastPlan?.day_contents ? Object.keys(lastPlan.day_contents) : null);
 }
 
-run().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+run()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => closeStorage());
@@ -0,0 +1,111 @@
+import { addDays, addWeeks, differenceInCalendarDays, endOfMonth, endOfQuarter, getWeek, getWeekYear, startOfWeek } from 'date-fns';
+
+// Calendar helpers shared by the matrix schema, storage and client.
+// Days are keyed `day_001` … `day_365`, plus `day_366` on leap years.
+
+export const MAX_DAYS_IN_YEAR = 366;
+
+export const DAY_KEY_PATTERN = /^day_(\d{3})$/;
+
+// Period summaries are keyed `week_YYYY_WW`, `month_YYYY_MM` and `quarter_YYYY_QN`
+export const WEEK_KEY_PATTERN = /^week_(\d{4})_(\d{2})$/;
+export const MONTH_KEY_PATTERN = /^month_(\d{4})_(\d{2})$/;
+export const QUARTER_KEY_PATTERN = /^quarter_(\d{4})_Q([1-4])$/;
+
+export type PeriodKind = 'week' | 'month' | 'quarter';
+
+export const PERIOD_KEY_PATTERNS: Record<PeriodKind, RegExp> = {
+  week: WEEK_KEY_PATTERN,
+  month: MONTH_KEY_PATTERN,
+  quarter: QUARTER_KEY_PATTERN,
+};
+
+export function getPeriodKeyYear(key: string): number | null {
+  const match = /^(?:week|month|quarter)_(\d{4})_/.exec(key);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export function getPeriodKind(key: string): PeriodKind | null {
+  for (const kind of Object.keys(PERIOD_KEY_PATTERNS) as PeriodKind[]) {
+    if (PERIOD_KEY_PATTERNS[kind].test(key)) return kind;
+  }
+  return null;
+}
+
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+export function daysInYear(year: number): number {
+  return isLeapYear(year) ? 366 : 365;
+}
+
+export function formatDayKey(dayNumber: number): string {
+  return `day_${String(dayNumber).padStart(3, '0')}`;
+}
+
+export function parseDayKey(dayKey: string): number | null {
+  const match = DAY_KEY_PATTERN.exec(dayKey);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export function dayToDate(dayKey: string, year: number): Date {
+  const dayNumber = parseInt(dayKey.replace('day_', ''));
+  return new Date(year, 0, dayNumber);
+}
+
+// Weeks run Sunday to Saturday and week 1 is the one containing Jan 1
+const WEEK_OPTIONS = { weekStartsOn: 0, firstWeekContainsDate: 1 } as const;
+
+// Keyed by the week-numbering year, so the week straddling New Year belongs to the year it is week 1 of
+export function dateToWeekKey(date: Date): string {
+  const weekNumber = getWeek(date, WEEK_OPTIONS);
+  return `week_${getWeekYear(date, WEEK_OPTIONS)}_${String(weekNumber).padStart(2, '0')}`;
+}
+
+// The Sunday a `week_YYYY_WW` key starts on
+export function weekKeyToStartDate(weekKey: string): Date | null {
+  const match = WEEK_KEY_PATTERN.exec(weekKey);
+  if (!match) return null;
+  const firstWeekStart = startOfWeek(new Date(parseInt(match[1], 10), 0, 1), WEEK_OPTIONS);
+  return addWeeks(firstWeekStart, parseInt(match[2], 10) - 1);
+}
+
+// The day numbers of `year` a period key covers, clipped to the year; null when it falls outside it
+export function getPeriodDayRange(key: string, year: number): { start: number; end: number } | null {
+  let first: Date | null = null;
+  let last: Date | null = null;
+  const month = MONTH_KEY_PATTERN.exec(key);
+  const quarter = QUARTER_KEY_PATTERN.exec(key);
+
+  if (WEEK_KEY_PATTERN.test(key)) {
+    first = weekKeyToStartDate(key);
+    last = first && addDays(first, 6);
+  } else if (month) {
+    first = new Date(parseInt(month[1], 10), parseInt(month[2], 10) - 1, 1);
+    last = endOfMonth(first);
+  } else if (quarter) {
+    first = new Date(parseInt(quarter[1], 10), (parseInt(quarter[2], 10) - 1) * 3, 1);
+    last = endOfQuarter(first);
+  }
+  if (!first || !last) return null;
+
+  const jan1 = new Date(year, 0, 1);
+  const start = Math.max(1, differenceInCalendarDays(first, jan1) + 1);
+  const end = Math.min(daysInYear(year), differenceInCalendarDays(last, jan1) + 1);
+  return start <= end ? { start, end } : null;
+}
+
+// Whether `key` names a cell of `year`'s matrix: one of its day columns or a period summary
+export function isMatrixKey(key: string, year: number): boolean {
+  const dayNumber = parseDayKey(key);
+  if (dayNumber !== null) return dayNumber >= 1 && dayNumber <= daysInYear(year);
+  return getPeriodKind(key) !== null;
+}
+
+export function dayKeysForYear(year: number): string[] {
+  return Array.from({ length: daysInYear(year) }, (_, i) => formatDayKey(i + 1));
+}
+
+// Every day column the matrix tables carry, regardless of year
+export const ALL_DAY_KEYS: string[] = Array.from({ length: MAX_DAYS_IN_YEAR }, (_, i) => formatDayKey(i + 1));
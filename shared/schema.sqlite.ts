@@ -0,0 +1,204 @@
+import { sqliteTable, text, integer, index, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { ALL_DAY_KEYS } from "./calendar";
+import type { DayContents } from "./schema";
+
+// SQLite/libSQL mirror of schema.ts for local files, Turso and the in-memory backend.
+// Tables and property names match the Postgres schema one for one, so DatabaseStorage runs
+// unchanged on either; rows come back in the same shapes and the types in schema.ts apply.
+// Timestamps are integer milliseconds and jsonb columns are JSON text.
+// Migrations live in ./drizzle-sqlite (npm run db:generate:sqlite) and run when the backend connects.
+
+const timestamp = (name: string) => integer(name, { mode: "timestamp_ms" });
+const json = (name: string) => text(name, { mode: "json" });
+const now = () => new Date();
+
+export const users = sqliteTable("users", {
+  id: text("id").primaryKey().default(sql`(hex(randomblob(16)))`),
+  username: text("username").notNull().unique(),
+  password: text("password"),
+  googleId: text("google_id").unique(),
+  email: text("email").unique(),
+  displayName: text("display_name"),
+  avatarUrl: text("avatar_url"),
+  authProvider: text("auth_provider").notNull().default('local'),
+  createdAt: timestamp("created_at").$defaultFn(now),
+  updatedAt: timestamp("updated_at").$defaultFn(now),
+  lastLogin: timestamp("last_login"),
+});
+
+const generateDayColumns = () => {
+  const columns: Record<string, any> = {};
+  for (const key of ALL_DAY_KEYS) {
+    columns[key] = text(key);
+  }
+  return columns;
+};
+
+export const journalPlanMatrix = sqliteTable("journal_plan_matrix", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  snapshotTimestamp: timestamp("snapshot_timestamp").notNull(),
+  year: integer("year").notNull(),
+  ...generateDayColumns(),
+  weekContents: json("week_contents").$type<DayContents>(),
+  monthContents: json("month_contents").$type<DayContents>(),
+  quarterContents: json("quarter_contents").$type<DayContents>(),
+  totalPlannedDays: integer("total_planned_days").default(0),
+  metadata: json("metadata"),
+  createdAt: timestamp("created_at").$defaultFn(now),
+  migratedAt: timestamp("migrated_at"), // Set once the row has been copied into journal_cells
+}, (table) => ({
+  userTimestampIdx: index("idx_plan_user_timestamp").on(table.userId, table.snapshotTimestamp),
+  userYearIdx: index("idx_plan_user_year").on(table.userId, table.year),
+}));
+
+export const journalRealityMatrix = sqliteTable("journal_reality_matrix", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  snapshotTimestamp: timestamp("snapshot_timestamp").notNull(),
+  year: integer("year").notNull(),
+  ...generateDayColumns(),
+  weekContents: json("week_contents").$type<DayContents>(),
+  monthContents: json("month_contents").$type<DayContents>(),
+  quarterContents: json("quarter_contents").$type<DayContents>(),
+  totalRealityDays: integer("total_reality_days").default(0),
+  metadata: json("metadata"),
+  createdAt: timestamp("created_at").$defaultFn(now),
+  migratedAt: timestamp("migrated_at"), // Set once the row has been copied into journal_cells
+}, (table) => ({
+  userTimestampIdx: index("idx_reality_user_timestamp").on(table.userId, table.snapshotTimestamp),
+  userYearIdx: index("idx_reality_user_year").on(table.userId, table.year),
+}));
+
+export const dailySnapshots = sqliteTable("daily_snapshots", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  snapshotDate: timestamp("snapshot_date").notNull(),
+  year: integer("year").notNull(),
+  latestPlanContents: json("latest_plan_contents").$type<DayContents>().notNull(),
+  latestRealityContents: json("latest_reality_contents").$type<DayContents>().notNull(),
+  planLastUpdated: timestamp("plan_last_updated"),
+  realityLastUpdated: timestamp("reality_last_updated"),
+  completionRate: integer("completion_rate").default(0),
+}, (table) => ({
+  userDateIdx: index("idx_daily_user_date").on(table.userId, table.snapshotDate),
+  userYearIdx: index("idx_daily_user_year").on(table.userId, table.year),
+}));
+
+export const timelineIndex = sqliteTable("timeline_index", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  timestamp: timestamp("timestamp").notNull(),
+  year: integer("year").notNull(),
+  entryType: text("entry_type").notNull(),
+  changesCount: integer("changes_count").notNull().default(0),
+  description: text("description"),
+  metadata: json("metadata"),
+}, (table) => ({
+  userTimestampIdx: index("idx_timeline_user_timestamp").on(table.userId, table.timestamp),
+  userYearTypeIdx: index("idx_timeline_user_year_type").on(table.userId, table.year, table.entryType),
+}));
+
+export const journalCells = sqliteTable("journal_cells", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  year: integer("year").notNull(),
+  dayKey: text("day_key").notNull(),
+  mode: text("mode").notNull(),
+  content: text("content"),
+  revision: integer("revision").notNull().default(1),
+  updatedAt: timestamp("updated_at").notNull(),
+}, (table) => ({
+  cellIdx: uniqueIndex("idx_journal_cells_cell").on(table.userId, table.year, table.mode, table.dayKey),
+}));
+
+export const journalCellRevisions = sqliteTable("journal_cell_revisions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  cellId: integer("cell_id").notNull().references(() => journalCells.id, { onDelete: "cascade" }),
+  timelineId: integer("timeline_id").notNull().references(() => timelineIndex.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  content: text("content"),
+}, (table) => ({
+  cellIdx: index("idx_journal_cell_revisions_cell").on(table.cellId, table.revision),
+  timelineIdx: index("idx_journal_cell_revisions_timeline").on(table.timelineId),
+}));
+
+export const calendarFeeds = sqliteTable("calendar_feeds", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").$defaultFn(now),
+});
+
+export const shareLinks = sqliteTable("share_links", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  year: integer("year").notNull(),
+  startDay: integer("start_day"),
+  endDay: integer("end_day"),
+  mode: text("mode").notNull().default('both'),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").$defaultFn(now),
+}, (table) => ({
+  userIdx: index("idx_share_links_user").on(table.userId),
+}));
+
+export const teams = sqliteTable("teams", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  createdBy: text("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").$defaultFn(now),
+});
+
+export const teamMembers = sqliteTable("team_members", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  teamId: integer("team_id").notNull().references(() => teams.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default('viewer'),
+  joinedAt: timestamp("joined_at").$defaultFn(now),
+}, (table) => ({
+  teamUserIdx: uniqueIndex("idx_team_members_team_user").on(table.teamId, table.userId),
+  userIdx: index("idx_team_members_user").on(table.userId),
+}));
+
+export const teamInvitations = sqliteTable("team_invitations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  teamId: integer("team_id").notNull().references(() => teams.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: text("role").notNull().default('viewer'),
+  invitedBy: text("invited_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").$defaultFn(now),
+}, (table) => ({
+  teamEmailIdx: uniqueIndex("idx_team_invitations_team_email").on(table.teamId, table.email),
+  emailIdx: index("idx_team_invitations_email").on(table.email),
+}));
+
+export const magicLinkTokens = sqliteTable("magic_link_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  email: text("email").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").$defaultFn(now),
+}, (table) => ({
+  emailIdx: index("idx_magic_link_tokens_email").on(table.email),
+}));
+
+export const authSessions = sqliteTable("auth_sessions", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  previousRefreshTokenHash: text("previous_refresh_token_hash"),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").$defaultFn(now),
+  lastSeenAt: timestamp("last_seen_at").$defaultFn(now),
+  rotatedAt: timestamp("rotated_at").$defaultFn(now),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => ({
+  userIdx: index("idx_auth_sessions_user").on(table.userId),
+}));
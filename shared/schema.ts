@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ALL_DAY_KEYS } from "./calendar";
 
 // Users table
 export const users = pgTable("users", {
@@ -17,41 +18,49 @@ export const users = pgTable("users", {
   lastLogin: timestamp("last_login"),
 });
 
-// Helper to generate 365 day columns
+// Helper to generate the day columns (day_366 stays null outside leap years)
 const generateDayColumns = () => {
   const columns: Record<string, any> = {};
-  for (let i = 1; i <= 365; i++) {
-    const key = `day_${String(i).padStart(3, '0')}`;
+  for (const key of ALL_DAY_KEYS) {
     columns[key] = text(key);
   }
   return columns;
 };
 
-// Journal Plan Matrix - stores 365-day planning snapshots with timestamps
+// Journal Plan Matrix - full-year planning snapshots from before journal_cells. Nothing writes here
+// any more; connecting copies unmigrated rows into cells and revisions (server/journalCells.ts).
 export const journalPlanMatrix = pgTable("journal_plan_matrix", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   snapshotTimestamp: timestamp("snapshot_timestamp").notNull(),
   year: integer("year").notNull(),
   ...generateDayColumns(),
+  weekContents: jsonb("week_contents").$type<DayContents>(), // { week_2025_07: "content" }
+  monthContents: jsonb("month_contents").$type<DayContents>(), // { month_2025_03: "content" }
+  quarterContents: jsonb("quarter_contents").$type<DayContents>(), // { quarter_2025_Q1: "content" }
   totalPlannedDays: integer("total_planned_days").default(0),
   metadata: jsonb("metadata"), // { mood, tags, etc. }
   createdAt: timestamp("created_at").defaultNow(),
+  migratedAt: timestamp("migrated_at"), // Set once the row has been copied into journal_cells
 }, (table) => ({
   userTimestampIdx: index("idx_plan_user_timestamp").on(table.userId, table.snapshotTimestamp),
   userYearIdx: index("idx_plan_user_year").on(table.userId, table.year),
 }));
 
-// Journal Reality Matrix - stores 365-day reality snapshots with timestamps
+// Journal Reality Matrix - full-year reality snapshots, copied into journal_cells the same way
 export const journalRealityMatrix = pgTable("journal_reality_matrix", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   snapshotTimestamp: timestamp("snapshot_timestamp").notNull(),
   year: integer("year").notNull(),
   ...generateDayColumns(),
+  weekContents: jsonb("week_contents").$type<DayContents>(),
+  monthContents: jsonb("month_contents").$type<DayContents>(),
+  quarterContents: jsonb("quarter_contents").$type<DayContents>(),
   totalRealityDays: integer("total_reality_days").default(0),
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow(),
+  migratedAt: timestamp("migrated_at"), // Set once the row has been copied into journal_cells
 }, (table) => ({
   userTimestampIdx: index("idx_reality_user_timestamp").on(table.userId, table.snapshotTimestamp),
   userYearIdx: index("idx_reality_user_year").on(table.userId, table.year),
@@ -70,7 +79,7 @@ export const dailySnapshots = pgTable("daily_snapshots", {
   completionRate: integer("completion_rate").default(0),
 });
 
-// Timeline Index for Time Machine
+// Timeline Index for Time Machine - one entry per saved snapshot; the cell revisions it wrote point at it
 export const timelineIndex = pgTable("timeline_index", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
@@ -79,8 +88,123 @@ export const timelineIndex = pgTable("timeline_index", {
   entryType: text("entry_type").notNull(), // 'plan' or 'reality'
   changesCount: integer("changes_count").notNull(),
   description: text("description"),
+  metadata: jsonb("metadata"), // The snapshot's metadata: source, editing session, etc.
 });
 
+// Journal Cells - the current value of every day or period cell, one row per user, year, mode and key
+export const journalCells = pgTable("journal_cells", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  year: integer("year").notNull(),
+  dayKey: text("day_key").notNull(), // day_XXX, week_2025_07, month_2025_03 or quarter_2025_Q1
+  mode: text("mode").notNull(), // 'plan' or 'reality'
+  content: text("content"), // null once cleared
+  revision: integer("revision").notNull().default(1), // Number of the latest journal_cell_revisions row
+  updatedAt: timestamp("updated_at").notNull(),
+}, (table) => ({
+  cellIdx: uniqueIndex("idx_journal_cells_cell").on(table.userId, table.year, table.mode, table.dayKey),
+}));
+
+// Journal Cell Revisions - every value a cell has held, each tied to the snapshot (timeline entry) that wrote it
+export const journalCellRevisions = pgTable("journal_cell_revisions", {
+  id: serial("id").primaryKey(),
+  cellId: integer("cell_id").notNull().references(() => journalCells.id, { onDelete: "cascade" }),
+  timelineId: integer("timeline_id").notNull().references(() => timelineIndex.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  content: text("content"), // null where the cell was cleared
+}, (table) => ({
+  cellIdx: index("idx_journal_cell_revisions_cell").on(table.cellId, table.revision),
+  timelineIdx: index("idx_journal_cell_revisions_timeline").on(table.timelineId),
+}));
+
+// Calendar Feeds - secret per-user token that lets calendar apps subscribe to the plan as .ics
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Share Links - revocable read-only view of one year, optionally narrowed to a day range and one mode
+export const shareLinks = pgTable("share_links", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  year: integer("year").notNull(),
+  startDay: integer("start_day"), // Day number (day_XXX); null shares from Jan 1
+  endDay: integer("end_day"), // Inclusive; null shares through Dec 31
+  mode: text("mode").notNull().default('both'), // 'plan', 'reality' or 'both'
+  expiresAt: timestamp("expires_at"), // null never expires
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userIdx: index("idx_share_links_user").on(table.userId),
+}));
+
+// Teams - a named group of users; each member keeps their own plan/reality matrices
+export const teams = pgTable("teams", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: text("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Team Members - owners manage membership, owners and editors appear as rows in the team view,
+// viewers can only look at it
+export const teamMembers = pgTable("team_members", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull().references(() => teams.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default('viewer'), // 'owner', 'editor' or 'viewer'
+  joinedAt: timestamp("joined_at").defaultNow(),
+}, (table) => ({
+  teamUserIdx: uniqueIndex("idx_team_members_team_user").on(table.teamId, table.userId),
+  userIdx: index("idx_team_members_user").on(table.userId),
+}));
+
+// Team Invitations - an owner's offer of a role; membership only exists once the invitee accepts
+export const teamInvitations = pgTable("team_invitations", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull().references(() => teams.id, { onDelete: "cascade" }),
+  email: text("email").notNull(), // Lowercased; matched against the signed-in user's email
+  role: text("role").notNull().default('viewer'),
+  invitedBy: text("invited_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  teamEmailIdx: uniqueIndex("idx_team_invitations_team_email").on(table.teamId, table.email),
+  emailIdx: index("idx_team_invitations_email").on(table.email),
+}));
+
+// Magic Link Tokens - single-use sign-in links sent by email; only a hash of the token is stored
+export const magicLinkTokens = pgTable("magic_link_tokens", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  emailIdx: index("idx_magic_link_tokens_email").on(table.email),
+}));
+
+// Auth Sessions - one per signed-in device. Access tokens name their session, so revoking it
+// cuts them off; the refresh token rotates on every use and only its hash is stored.
+export const authSessions = pgTable("auth_sessions", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  previousRefreshTokenHash: text("previous_refresh_token_hash"), // Presenting it again after the grace window means theft
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+  rotatedAt: timestamp("rotated_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => ({
+  userIdx: index("idx_auth_sessions_user").on(table.userId),
+}));
+
 // Zod Schemas
 export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
@@ -96,6 +220,21 @@ export const selectDailySnapshotSchema = createSelectSchema(dailySnapshots);
 export const insertTimelineIndexSchema = createInsertSchema(timelineIndex);
 export const selectTimelineIndexSchema = createSelectSchema(timelineIndex);
 
+export const selectJournalCellSchema = createSelectSchema(journalCells);
+export const selectJournalCellRevisionSchema = createSelectSchema(journalCellRevisions);
+
+export const selectCalendarFeedSchema = createSelectSchema(calendarFeeds);
+
+export const selectShareLinkSchema = createSelectSchema(shareLinks);
+
+export const selectTeamSchema = createSelectSchema(teams);
+export const selectTeamMemberSchema = createSelectSchema(teamMembers);
+export const selectTeamInvitationSchema = createSelectSchema(teamInvitations);
+
+export const selectMagicLinkTokenSchema = createSelectSchema(magicLinkTokens);
+
+export const selectAuthSessionSchema = createSelectSchema(authSessions);
+
 // Types
 export type User = z.infer<typeof selectUserSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -112,9 +251,50 @@ export type InsertDailySnapshot = z.infer<typeof insertDailySnapshotSchema>;
 export type TimelineIndex = z.infer<typeof selectTimelineIndexSchema>;
 export type InsertTimelineIndex = z.infer<typeof insertTimelineIndexSchema>;
 
+export type JournalCell = z.infer<typeof selectJournalCellSchema>;
+export type JournalCellRevision = z.infer<typeof selectJournalCellRevisionSchema>;
+
+export type CalendarFeed = z.infer<typeof selectCalendarFeedSchema>;
+
+export type ShareLink = z.infer<typeof selectShareLinkSchema>;
+export type ShareMode = 'plan' | 'reality' | 'both';
+
+export type Team = z.infer<typeof selectTeamSchema>;
+export type TeamMember = z.infer<typeof selectTeamMemberSchema>;
+export type TeamInvitation = z.infer<typeof selectTeamInvitationSchema>;
+
+export const TEAM_ROLES = ['owner', 'editor', 'viewer'] as const;
+export type TeamRole = typeof TEAM_ROLES[number];
+
+export interface TeamMemberProfile extends TeamMember {
+  username: string;
+  displayName: string | null;
+  email: string | null;
+}
+
+// An invitation as its invitee sees it, with the team it leads to
+export interface PendingTeamInvitation extends TeamInvitation {
+  teamName: string;
+}
+
+export type MagicLinkToken = z.infer<typeof selectMagicLinkTokenSchema>;
+
+export type AuthSession = z.infer<typeof selectAuthSessionSchema>;
+
 // Helper types
 export type DayContents = Record<string, string | null>;
 
+// A snapshot as read back: the wide matrix row plus the same cells collected into day_contents
+export type PlanSnapshot = JournalPlanMatrix & { day_contents: DayContents };
+export type RealitySnapshot = JournalRealityMatrix & { day_contents: DayContents };
+
+// One value in a single cell's history, as returned to the client
+export interface CellRevision {
+  revision: number;
+  content: string | null; // null where the cell was cleared
+  timestamp: Date; // When the snapshot that wrote it was saved
+}
+
 export interface TimeMachineSnapshot {
   timestamp: string;
   year: number;
@@ -123,10 +303,51 @@ export interface TimeMachineSnapshot {
   metadata?: Record<string, any>;
 }
 
+export type DayDiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface DayDiff {
+  day: string;
+  before: string | null;
+  after: string | null;
+  status: DayDiffStatus;
+}
+
 export interface TimeMachineComparison {
   timestamp1: string;
   timestamp2: string;
   year: number;
-  plan_diff: any[];
-  reality_diff: any[];
-}
\ No newline at end of file
+  plan_diff: DayDiff[];
+  reality_diff: DayDiff[];
+}
+
+// Delta writes carry only the changed cells, each with the value the client based its edit on
+export interface CellDelta {
+  base: string | null;
+  content: string | null; // null clears the cell
+}
+
+export type MatrixDelta = Record<string, CellDelta>;
+
+export interface DeltaConflict extends CellDelta {
+  key: string;
+  current: string | null; // What the server holds instead of `base`
+}
+
+export interface DeltaResult {
+  applied: string[]; // Keys now holding the requested content
+  conflicts: DeltaConflict[];
+  snapshot_timestamp: string | null;
+}
+
+// The editing session a delta-written snapshot belongs to; later deltas in the session rewrite it
+export interface EditSession {
+  started_at: string;
+  edits: number;
+}
+
+// Timeline metadata of a snapshot written by deltas
+export interface EditSessionMetadata {
+  source?: string;
+  session?: EditSession;
+  [key: string]: unknown;
+}